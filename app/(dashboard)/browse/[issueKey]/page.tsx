@@ -0,0 +1,38 @@
+import { notFound, redirect } from "next/navigation"
+import { createClient } from "@/lib/supabase/server"
+import { parseIssueKey } from "@/utils/issue-key"
+
+interface BrowseIssuePageProps {
+  params: Promise<{
+    issueKey: string
+  }>
+}
+
+/**
+ * Browse Issue Page
+ *
+ * Resolves a human-readable issue key (e.g. WEB-123) and redirects
+ * to the issue detail page.
+ */
+export default async function BrowseIssuePage({ params }: BrowseIssuePageProps) {
+  const { issueKey } = await params
+  const parsed = parseIssueKey(decodeURIComponent(issueKey))
+
+  if (!parsed) {
+    notFound()
+  }
+
+  const supabase = await createClient()
+  const { data: issue } = await supabase
+    .from("issues")
+    .select("id, project:projects!inner ( key )")
+    .eq("number", parsed.number)
+    .eq("project.key", parsed.projectKey)
+    .maybeSingle()
+
+  if (!issue) {
+    notFound()
+  }
+
+  redirect(`/issues/${issue.id}`)
+}
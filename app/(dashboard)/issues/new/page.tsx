@@ -4,11 +4,12 @@ import { ProtectedRoute } from "@/components/auth/ProtectedRoute"
 import { Button } from "@/components/ui/button"
 import { Card } from "@/components/ui/card"
 import { Spinner } from "@/components/ui/spinner"
+import { NewIssueForm } from "@/components/issues/NewIssueForm"
 
 /**
  * New Issue Page
  *
- * Create a new issue for a project.
+ * Create a new issue for a project, given as `?project=<id>`.
  */
 export default function NewIssuePage() {
   return (
@@ -36,9 +37,7 @@ export default function NewIssuePage() {
               </div>
             }
           >
-            <p className="text-sm text-muted-foreground">
-              IssueForm 컴포넌트로 교체 예정
-            </p>
+            <NewIssueForm />
           </Suspense>
         </Card>
       </div>
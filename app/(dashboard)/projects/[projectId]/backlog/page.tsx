@@ -0,0 +1,67 @@
+import Link from "next/link"
+import { notFound, redirect } from "next/navigation"
+import { ProtectedRoute } from "@/components/auth/ProtectedRoute"
+import { Button } from "@/components/ui/button"
+import { SprintBacklog } from "@/components/sprints/SprintBacklog"
+import { createClient } from "@/lib/supabase/server"
+
+interface ProjectBacklogPageProps {
+  params: Promise<{
+    projectId: string
+  }>
+}
+
+/**
+ * Project Backlog Page
+ *
+ * Sprint planning for a project: drag backlog issues into upcoming
+ * sprints, then start and complete them.
+ */
+export default async function ProjectBacklogPage({ params }: ProjectBacklogPageProps) {
+  const { projectId } = await params
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    redirect("/login")
+  }
+
+  const { data: project } = await supabase
+    .from("projects")
+    .select("id")
+    .eq("id", projectId)
+    .single()
+
+  if (!project) {
+    notFound()
+  }
+
+  return (
+    <ProtectedRoute>
+      <div className="container mx-auto py-8">
+        {/* Header */}
+        <div className="mb-8 flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">백로그</h1>
+            <p className="mt-2 text-muted-foreground">
+              이슈를 스프린트로 끌어다 놓아 계획하세요
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" asChild>
+              <Link href={`/projects/${projectId}`}>개요</Link>
+            </Button>
+            <Button variant="outline" asChild>
+              <Link href={`/projects/${projectId}/board`}>보드 보기</Link>
+            </Button>
+          </div>
+        </div>
+
+        <SprintBacklog projectId={projectId} currentUserId={user.id} />
+      </div>
+    </ProtectedRoute>
+  )
+}
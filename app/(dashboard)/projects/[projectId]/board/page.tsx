@@ -1,10 +1,67 @@
 "use client"
 
-import { Suspense, use } from "react"
+import { use, useEffect, useMemo, useState } from "react"
 import Link from "next/link"
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
+import { LayoutGrid, List } from "lucide-react"
 import { ProtectedRoute } from "@/components/auth/ProtectedRoute"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Spinner } from "@/components/ui/spinner"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { KanbanBoard, type KanbanLane } from "@/components/kanban/kanban-board"
+import { CustomFieldFilter } from "@/components/custom-fields/CustomFieldFilter"
+import { EpicProgress } from "@/components/issues/EpicProgress"
+import { IssueQueryBar } from "@/components/issues/IssueQueryBar"
+import { IssueTable } from "@/components/issues/IssueTable"
+import { IssueTypeIcon } from "@/components/issues/IssueTypeIcon"
+import { SavedViewMenu } from "@/components/issues/SavedViewMenu"
+import { CompleteSprintDialog } from "@/components/sprints/CompleteSprintDialog"
+import { useCustomFields } from "@/hooks/use-custom-fields"
+import { useIssueQuery, useIssues } from "@/hooks/use-issues"
+import {
+  useProjectMembers,
+  useProjectStatuses,
+  useWipLimitPolicy,
+} from "@/hooks/use-projects"
+import { useProjectLabels } from "@/hooks/use-labels"
+import { useSavedViews } from "@/hooks/use-saved-views"
+import { useSprints } from "@/hooks/use-sprints"
+import { useToast } from "@/hooks/use-toast"
+import { createClient } from "@/lib/supabase/client"
+import {
+  DEFAULT_BOARD_VIEW,
+  decodeBoardView,
+  encodeBoardView,
+  isSameBoardView,
+} from "@/utils/board-view"
+import { applyIssueFilters, getIssueComparator, sortIssues } from "@/utils/issue-filters"
+import { getRollup, groupIssuesByEpic } from "@/utils/issue-hierarchy"
+import { formatIssueKey } from "@/utils/issue-key"
+import { isDoneStatus, isIssueBlocked } from "@/utils/issue-links"
+import { runIssueQuery } from "@/utils/issue-query"
+import {
+  ISSUE_TYPES,
+  ISSUE_TYPE_LABELS,
+  PRIORITIES,
+  PRIORITY_COLORS,
+  PRIORITY_LABELS,
+  type BoardView,
+  type IssueFilters,
+  type IssueType,
+  type Priority,
+} from "@/types/models"
+
+// Lane IDs for issues without an assignee or epic
+const UNASSIGNED_LANE = "unassigned"
+const NO_EPIC_LANE = "no-epic"
 
 interface ProjectBoardPageProps {
   params: Promise<{
@@ -16,10 +73,369 @@ interface ProjectBoardPageProps {
  * Project Board Page
  *
  * Kanban-style board for managing project issues.
- * This is the main workspace for the project.
+ * This is the main workspace for the project. While a sprint is active
+ * the board only shows that sprint's issues.
+ *
+ * Grouping by assignee, priority or epic splits the board into swimlanes;
+ * dropping an issue into another lane changes that field. Columns over their
+ * WIP limit are highlighted, and the project can block moves into full ones.
+ *
+ * Layout, grouping, filters and sort form a `BoardView` that can be saved,
+ * shared with the project, and is mirrored into the URL (`view` for the
+ * saved view, `state` for unsaved changes) so links reopen it as shown.
  */
 export default function ProjectBoardPage({ params }: ProjectBoardPageProps) {
   const { projectId } = use(params)
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const { toast } = useToast()
+  const {
+    issues,
+    loading: issuesLoading,
+    error: issuesError,
+    moveIssue,
+    updateOrder,
+    updateIssue,
+    assignIssue,
+  } = useIssues(projectId)
+  const {
+    statuses,
+    loading: statusesLoading,
+    error: statusesError,
+  } = useProjectStatuses(projectId)
+  const { labels } = useProjectLabels(projectId)
+  const { fields: customFields } = useCustomFields(projectId)
+  const { members } = useProjectMembers(projectId)
+  const {
+    activeSprint,
+    plannedSprints,
+    loading: sprintsLoading,
+    completeSprint,
+  } = useSprints(projectId)
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null)
+  const {
+    views: savedViews,
+    defaultViewId,
+    loading: viewsLoading,
+    addView,
+    editView,
+    removeView,
+  } = useSavedViews(currentUserId ? projectId : undefined, currentUserId ?? undefined)
+  const wipPolicy = useWipLimitPolicy(projectId, currentUserId ?? undefined)
+  const [view, setView] = useState<BoardView>(DEFAULT_BOARD_VIEW)
+  const [activeViewId, setActiveViewId] = useState<string | null>(null)
+  const [viewReady, setViewReady] = useState(false)
+  // Bumped when another view is opened so the query bar shows its text
+  const [viewKey, setViewKey] = useState(0)
+
+  const filters = view.filters
+  const groupedBy = view.grouped_by
+  const setFilters = (update: (prev: IssueFilters) => IssueFilters) =>
+    setView((prev) => ({ ...prev, filters: update(prev.filters) }))
+
+  const activeView = savedViews.find((saved) => saved.id === activeViewId)
+  const baseView = activeView?.view ?? DEFAULT_BOARD_VIEW
+  const modified = !isSameBoardView(view, baseView)
+
+  // Needed to resolve `me` in issue queries and to load personal views
+  useEffect(() => {
+    const supabase = createClient()
+    supabase.auth.getUser().then(({ data }) => {
+      if (data.user) {
+        setCurrentUserId(data.user.id)
+      }
+    })
+  }, [])
+
+  // Open the view from the URL, else the project default, once views are loaded
+  useEffect(() => {
+    if (viewReady || viewsLoading) return
+
+    const saved = savedViews.find(
+      (candidate) => candidate.id === (searchParams.get("view") ?? defaultViewId)
+    )
+    const state = searchParams.get("state")
+
+    setActiveViewId(saved?.id ?? null)
+    setView((state && decodeBoardView(state)) || saved?.view || DEFAULT_BOARD_VIEW)
+    setViewKey((key) => key + 1)
+    setViewReady(true)
+  }, [viewReady, viewsLoading, savedViews, defaultViewId, searchParams])
+
+  const viewSearch = useMemo(() => {
+    const params = new URLSearchParams()
+    if (activeViewId) params.set("view", activeViewId)
+    if (modified) params.set("state", encodeBoardView(view))
+    return params.toString()
+  }, [activeViewId, modified, view])
+
+  // Personal views are not visible to others, so links carry their state
+  const sharePath = useMemo(() => {
+    const params = new URLSearchParams()
+    if (activeView?.shared) params.set("view", activeView.id)
+    if (modified || !activeView?.shared) params.set("state", encodeBoardView(view))
+    return `${pathname}?${params.toString()}`
+  }, [activeView, modified, view, pathname])
+
+  useEffect(() => {
+    if (!viewReady) return
+    router.replace(viewSearch ? `${pathname}?${viewSearch}` : pathname, { scroll: false })
+  }, [viewReady, viewSearch, pathname, router])
+
+  const openView = (viewId: string | null) => {
+    setActiveViewId(viewId)
+    setView(savedViews.find((saved) => saved.id === viewId)?.view ?? DEFAULT_BOARD_VIEW)
+    setViewKey((key) => key + 1)
+  }
+
+  // Applied on top of the dropdown filters; an invalid saved query is ignored
+  const queryFilters = useMemo(() => {
+    if (!view.query) return null
+    const { data } = runIssueQuery(view.query, {
+      currentUserId,
+      statuses,
+      members,
+      labels,
+      customFields,
+    })
+    return data?.filters ?? null
+  }, [view.query, currentUserId, statuses, members, labels, customFields])
+
+  // The query runs in the database, refreshed whenever the live issues change
+  const {
+    issues: queriedIssues,
+    loading: queryLoading,
+    error: queryError,
+  } = useIssueQuery(projectId, queryFilters, view.sort, issues)
+
+  const sprintIssues = useMemo(
+    () =>
+      activeSprint ? issues.filter((issue) => issue.sprint_id === activeSprint.id) : issues,
+    [issues, activeSprint]
+  )
+
+  // WIP counts every issue in play, including ones hidden by filters
+  const wipCounts = useMemo(
+    () =>
+      sprintIssues.reduce(
+        (acc, issue) => {
+          acc[issue.status_id] = (acc[issue.status_id] ?? 0) + 1
+          return acc
+        },
+        {} as Record<string, number>
+      ),
+    [sprintIssues]
+  )
+
+  // Query matches in query order, swapped for their live versions
+  const filteredIssues = useMemo(() => {
+    if (!queryFilters || !queriedIssues) return applyIssueFilters(sprintIssues, filters)
+
+    const liveIssues = new Map(sprintIssues.map((issue) => [issue.id, issue]))
+    const matches = queriedIssues.flatMap((issue) => liveIssues.get(issue.id) ?? [])
+    return applyIssueFilters(matches, filters)
+  }, [sprintIssues, filters, queryFilters, queriedIssues])
+
+  // Epic lanes come from the full list so epics stay visible while filters apply to their issues
+  const swimlanes = useMemo<{
+    lanes: KanbanLane[]
+    getLaneId: (issue: (typeof issues)[number]) => string
+  } | null>(() => {
+    if (groupedBy === "assignee") {
+      const people = new Map(members.map((member) => [member.id, member]))
+      // Former members can still have issues assigned
+      for (const issue of filteredIssues) {
+        if (issue.assignee && !people.has(issue.assignee.id)) {
+          people.set(issue.assignee.id, issue.assignee)
+        }
+      }
+
+      return {
+        lanes: [
+          ...Array.from(people.values())
+            .sort((a, b) => a.display_name.localeCompare(b.display_name))
+            .map((person) => ({
+              id: person.id,
+              header: (
+                <>
+                  <Avatar className="h-6 w-6">
+                    <AvatarImage src={person.avatar_url || undefined} />
+                    <AvatarFallback className="text-xs">
+                      {person.display_name.charAt(0).toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                  <span className="font-semibold">{person.display_name}</span>
+                </>
+              ),
+            })),
+          {
+            id: UNASSIGNED_LANE,
+            header: <span className="font-semibold text-muted-foreground">미지정</span>,
+          },
+        ],
+        getLaneId: (issue) => issue.assignee_id ?? UNASSIGNED_LANE,
+      }
+    }
+
+    if (groupedBy === "priority") {
+      return {
+        lanes: [...PRIORITIES].reverse().map((priority) => ({
+          id: priority,
+          header: (
+            <Badge variant="secondary" className={PRIORITY_COLORS[priority]}>
+              {PRIORITY_LABELS[priority]}
+            </Badge>
+          ),
+        })),
+        getLaneId: (issue) => issue.priority,
+      }
+    }
+
+    if (groupedBy === "epic") {
+      const { groups } = groupIssuesByEpic(issues)
+      const epicIds = new Set(groups.map(({ epic }) => epic.id))
+
+      return {
+        lanes: [
+          ...groups.map(({ epic, issues: children }) => {
+            const rollup = getRollup(children)
+            return {
+              id: epic.id,
+              header: (
+                <>
+                  <IssueTypeIcon type="epic" />
+                  <Link href={`/issues/${epic.id}`} className="font-semibold hover:underline">
+                    {epic.project && formatIssueKey(epic.project.key, epic.number)} {epic.title}
+                  </Link>
+                  <span className="text-sm text-muted-foreground">
+                    {rollup.done}/{rollup.total}
+                  </span>
+                  <EpicProgress rollup={rollup} className="w-32" />
+                </>
+              ),
+            }
+          }),
+          {
+            id: NO_EPIC_LANE,
+            header: <span className="font-semibold text-muted-foreground">에픽 없음</span>,
+          },
+        ],
+        getLaneId: (issue) =>
+          issue.parent_id && epicIds.has(issue.parent_id) ? issue.parent_id : NO_EPIC_LANE,
+      }
+    }
+
+    return null
+  }, [groupedBy, members, issues, filteredIssues])
+
+  // Epics head their lanes instead of appearing as cards
+  const boardIssues = useMemo(
+    () =>
+      groupedBy === "epic"
+        ? filteredIssues.filter((issue) => issue.type !== "epic")
+        : filteredIssues,
+    [groupedBy, filteredIssues]
+  )
+
+  // Query results already come sorted
+  const sortedIssues = useMemo(
+    () => (queryFilters ? filteredIssues : sortIssues(filteredIssues, view.sort)),
+    [queryFilters, filteredIssues, view.sort]
+  )
+
+  // Rank is the board's own order; any other sort fixes the cards in place
+  const compareIssues = useMemo(
+    () => (view.sort.field === "order" ? undefined : getIssueComparator(view.sort)),
+    [view.sort]
+  )
+
+  const handleIssueMove = async (issueId: string, statusId: string, order: string) => {
+    const issue = issues.find((i) => i.id === issueId)
+    const status = statuses.find((s) => s.id === statusId)
+
+    // Moving is still allowed, but finishing blocked work deserves a heads-up
+    if (
+      issue &&
+      issue.status_id !== statusId &&
+      status &&
+      isDoneStatus(status.name) &&
+      isIssueBlocked(issue.incoming_links)
+    ) {
+      toast({
+        title: "차단된 이슈",
+        description: "아직 완료되지 않은 이슈에 의해 차단된 이슈입니다.",
+      })
+    }
+
+    try {
+      // Only change the status when the issue left its column
+      if (issue && issue.status_id === statusId) {
+        await updateOrder(issueId, order)
+      } else {
+        await moveIssue(issueId, statusId, order)
+      }
+    } catch (error) {
+      console.error("Error moving issue:", error)
+      toast({
+        title: "이동 실패",
+        description: "이슈를 이동하지 못했습니다. 다시 시도해주세요.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  // Warns when a move breaches a WIP limit; with enforcement only admins may
+  // move into a full column, after confirming
+  const canMoveIssue = (_issueId: string, statusId: string) => {
+    const status = statuses.find((s) => s.id === statusId)
+    if (!status || status.wip_limit === null) return true
+
+    const count = wipCounts[statusId] ?? 0
+    if (count < status.wip_limit) return true
+
+    if (!wipPolicy.enforced) {
+      toast({
+        title: "WIP 제한 초과",
+        description: `"${status.name}" 컬럼의 이슈가 제한(${status.wip_limit}개)을 넘었습니다`,
+      })
+      return true
+    }
+
+    if (wipPolicy.isAdmin) {
+      return confirm(
+        `"${status.name}" 컬럼이 WIP 제한(${status.wip_limit}개)에 도달했습니다. 그래도 이동할까요?`
+      )
+    }
+
+    toast({
+      title: "WIP 제한 도달",
+      description: `"${status.name}" 컬럼이 가득 찼습니다. 관리자만 제한을 넘겨 이동할 수 있습니다.`,
+      variant: "destructive",
+    })
+    return false
+  }
+
+  const handleLaneChange = async (issueId: string, laneId: string) => {
+    try {
+      if (groupedBy === "assignee") {
+        await assignIssue(issueId, laneId === UNASSIGNED_LANE ? null : laneId)
+      } else if (groupedBy === "priority") {
+        await updateIssue(issueId, { priority: laneId as Priority })
+      } else if (groupedBy === "epic") {
+        await updateIssue(issueId, { parent_id: laneId === NO_EPIC_LANE ? null : laneId })
+      }
+    } catch (error) {
+      console.error("Error changing issue lane:", error)
+      toast({
+        title: "변경 실패",
+        description: "이슈를 다른 레인으로 옮기지 못했습니다. 다시 시도해주세요.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const error = issuesError || statusesError || queryError
 
   return (
     <ProtectedRoute>
@@ -27,42 +443,212 @@ export default function ProjectBoardPage({ params }: ProjectBoardPageProps) {
         {/* Header */}
         <div className="mb-8 flex items-center justify-between">
           <div>
-            <h1 className="text-3xl font-bold tracking-tight">프로젝트 보드</h1>
+            <h1 className="text-3xl font-bold tracking-tight">
+              {activeSprint ? activeSprint.name : "프로젝트 보드"}
+            </h1>
             <p className="mt-2 text-muted-foreground">
-              드래그 앤 드롭으로 이슈를 관리하세요
+              {activeSprint
+                ? activeSprint.goal || "진행 중인 스프린트"
+                : sprintsLoading
+                  ? "드래그 앤 드롭으로 이슈를 관리하세요"
+                  : "진행 중인 스프린트가 없어 모든 이슈를 표시합니다"}
             </p>
           </div>
           <div className="flex gap-2">
+            <Select
+              value={filters.types?.[0] ?? "all"}
+              onValueChange={(value) =>
+                setFilters((prev) => ({
+                  ...prev,
+                  types: value === "all" ? undefined : [value as IssueType],
+                }))
+              }
+            >
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">모든 유형</SelectItem>
+                {ISSUE_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    <div className="flex items-center gap-2">
+                      <IssueTypeIcon type={type} />
+                      {ISSUE_TYPE_LABELS[type]}
+                    </div>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={filters.label_ids?.[0] ?? "all"}
+              onValueChange={(value) =>
+                setFilters((prev) => ({
+                  ...prev,
+                  label_ids: value === "all" ? undefined : [value],
+                }))
+              }
+            >
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">모든 라벨</SelectItem>
+                {labels.map((label) => (
+                  <SelectItem key={label.id} value={label.id}>
+                    <div className="flex items-center gap-2">
+                      <span
+                        className="h-3 w-3 rounded-full"
+                        style={{ backgroundColor: label.color }}
+                      />
+                      {label.name}
+                    </div>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <CustomFieldFilter
+              fields={customFields}
+              members={members}
+              value={filters.custom_fields ?? []}
+              onChange={(customFilters) =>
+                setFilters((prev) => ({
+                  ...prev,
+                  custom_fields: customFilters.length > 0 ? customFilters : undefined,
+                }))
+              }
+            />
+            <Select
+              value={groupedBy}
+              onValueChange={(value) =>
+                setView((prev) => ({ ...prev, grouped_by: value as BoardView["grouped_by"] }))
+              }
+              disabled={view.type === "list"}
+            >
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="status">그룹 없음</SelectItem>
+                <SelectItem value="assignee">담당자별</SelectItem>
+                <SelectItem value="priority">우선순위별</SelectItem>
+                <SelectItem value="epic">에픽별</SelectItem>
+              </SelectContent>
+            </Select>
             <Button variant="outline" asChild>
               <Link href={`/projects/${projectId}`}>개요</Link>
             </Button>
-            <Button>+ 새 이슈</Button>
+            <Button variant="outline" asChild>
+              <Link href={`/projects/${projectId}/backlog`}>백로그</Link>
+            </Button>
+            {activeSprint && (
+              <CompleteSprintDialog
+                sprint={activeSprint}
+                issues={sprintIssues}
+                plannedSprints={plannedSprints}
+                onComplete={(moveToSprintId) =>
+                  completeSprint(activeSprint.id, moveToSprintId)
+                }
+                trigger={<Button variant="outline">스프린트 완료</Button>}
+              />
+            )}
+            <Button asChild>
+              <Link href={`/issues/new?project=${projectId}`}>+ 새 이슈</Link>
+            </Button>
+          </div>
+        </div>
+
+        <div className="mb-6 flex items-start gap-2">
+          <SavedViewMenu
+            views={savedViews}
+            activeViewId={activeViewId}
+            defaultViewId={defaultViewId}
+            currentUserId={currentUserId}
+            modified={modified}
+            onSelect={openView}
+            onSaveAs={async (name, shared) => {
+              const saved = await addView({ name, shared, view })
+              if (saved) setActiveViewId(saved.id)
+            }}
+            onSave={() => editView(activeViewId!, { view })}
+            onDelete={async (viewId) => {
+              await removeView(viewId)
+              setActiveViewId(null)
+            }}
+            sharePath={sharePath}
+          />
+          <IssueQueryBar
+            key={viewKey}
+            className="flex-1"
+            defaultValue={view.query ?? ""}
+            context={{
+              currentUserId,
+              statuses,
+              members,
+              labels,
+              customFields,
+            }}
+            onApply={(compiled, query) =>
+              setView((prev) => ({
+                ...prev,
+                query: query || undefined,
+                sort: compiled.sort ?? prev.sort,
+              }))
+            }
+          />
+          <div className="flex rounded-md border">
+            <Button
+              variant={view.type === "kanban" ? "secondary" : "ghost"}
+              size="icon"
+              onClick={() => setView((prev) => ({ ...prev, type: "kanban" }))}
+            >
+              <LayoutGrid className="h-4 w-4" />
+              <span className="sr-only">보드</span>
+            </Button>
+            <Button
+              variant={view.type === "list" ? "secondary" : "ghost"}
+              size="icon"
+              onClick={() => setView((prev) => ({ ...prev, type: "list" }))}
+            >
+              <List className="h-4 w-4" />
+              <span className="sr-only">목록</span>
+            </Button>
           </div>
         </div>
 
         {/* Kanban Board */}
-        <Suspense
-          fallback={
-            <div className="flex justify-center py-12">
-              <Spinner className="h-8 w-8" />
-            </div>
-          }
-        >
-          {/* TODO: Replace with KanbanBoard component */}
-          <div className="flex gap-4 overflow-x-auto pb-4">
-            {["To Do", "In Progress", "Done"].map((status) => (
-              <div
-                key={status}
-                className="min-w-[300px] rounded-lg border bg-muted/30 p-4"
-              >
-                <h3 className="mb-4 font-semibold">{status}</h3>
-                <p className="text-sm text-muted-foreground">
-                  KanbanBoard 컴포넌트로 교체 예정
-                </p>
-              </div>
-            ))}
+        {issuesLoading ||
+        statusesLoading ||
+        sprintsLoading ||
+        !viewReady ||
+        (queryLoading && !queriedIssues) ? (
+          <div className="flex justify-center py-12">
+            <Spinner className="h-8 w-8" />
+          </div>
+        ) : error ? (
+          <div className="py-12 text-center text-sm text-destructive">
+            보드를 불러오지 못했습니다: {error.message}
           </div>
-        </Suspense>
+        ) : view.type === "list" ? (
+          <IssueTable
+            issues={sortedIssues}
+            sort={view.sort}
+            onSortChange={(sort) => setView((prev) => ({ ...prev, sort }))}
+            onIssueClick={(issue) => router.push(`/issues/${issue.id}`)}
+          />
+        ) : (
+          <KanbanBoard
+            statuses={statuses}
+            issues={boardIssues}
+            onIssueMove={handleIssueMove}
+            onIssueClick={(issue) => router.push(`/issues/${issue.id}`)}
+            lanes={swimlanes?.lanes}
+            getLaneId={swimlanes?.getLaneId}
+            onLaneChange={handleLaneChange}
+            statusCounts={wipCounts}
+            canMoveIssue={canMoveIssue}
+            compareIssues={compareIssues}
+          />
+        )}
       </div>
     </ProtectedRoute>
   )
@@ -7,6 +7,7 @@ import { ProtectedRoute } from "@/components/auth/ProtectedRoute"
 import { Button } from "@/components/ui/button"
 import { Spinner } from "@/components/ui/spinner"
 import { ProjectDashboard } from "@/components/dashboard/ProjectDashboard"
+import { useRecentItems } from "@/hooks/use-recent-items"
 import { createClient } from "@/lib/supabase/client"
 
 interface ProjectDetailPageProps {
@@ -27,6 +28,28 @@ export default function ProjectDetailPage({
   const router = useRouter()
   const [project, setProject] = useState<any>(null)
   const [loading, setLoading] = useState(true)
+  const [userId, setUserId] = useState<string>()
+  const { addItem: addRecentItem } = useRecentItems(userId)
+
+  useEffect(() => {
+    const supabase = createClient()
+    supabase.auth.getUser().then(({ data }) => {
+      if (data.user) {
+        setUserId(data.user.id)
+      }
+    })
+  }, [])
+
+  useEffect(() => {
+    if (!project) return
+    addRecentItem({
+      type: "project",
+      id: project.id,
+      title: project.name,
+      subtitle: project.key,
+      href: `/projects/${project.id}`,
+    })
+  }, [project, addRecentItem])
 
   useEffect(() => {
     async function fetchProject() {
@@ -83,6 +106,9 @@ export default function ProjectDetailPage({
             <Button variant="outline" asChild>
               <Link href={`/projects/${projectId}/settings`}>설정</Link>
             </Button>
+            <Button variant="outline" asChild>
+              <Link href={`/projects/${projectId}/backlog`}>백로그</Link>
+            </Button>
             <Button asChild>
               <Link href={`/projects/${projectId}/board`}>보드 보기</Link>
             </Button>
@@ -6,6 +6,9 @@ import { ProtectedRoute } from "@/components/auth/ProtectedRoute"
 import { Button } from "@/components/ui/button"
 import { Card } from "@/components/ui/card"
 import { Spinner } from "@/components/ui/spinner"
+import { CustomFieldManager } from "@/components/custom-fields/CustomFieldManager"
+import { DefaultViewSetting } from "@/components/projects/DefaultViewSetting"
+import { WipLimitSettings } from "@/components/projects/WipLimitSettings"
 
 interface ProjectSettingsPageProps {
   params: Promise<{
@@ -16,7 +19,8 @@ interface ProjectSettingsPageProps {
 /**
  * Project Settings Page
  *
- * Configure project settings, statuses, and manage access.
+ * Configure project settings, statuses, WIP limits, custom fields, the
+ * default board view, and manage access.
  */
 export default function ProjectSettingsPage({
   params,
@@ -75,6 +79,33 @@ export default function ProjectSettingsPage({
             </Suspense>
           </Card>
 
+          {/* WIP Limits */}
+          <Card className="p-6">
+            <h2 className="mb-4 text-xl font-semibold">WIP 제한</h2>
+            <p className="mb-4 text-sm text-muted-foreground">
+              상태별로 동시에 진행할 수 있는 이슈 수를 정하세요. 보드에서 제한을 넘은 컬럼이 강조됩니다
+            </p>
+            <WipLimitSettings projectId={projectId} />
+          </Card>
+
+          {/* Custom Fields */}
+          <Card className="p-6">
+            <h2 className="mb-4 text-xl font-semibold">사용자 정의 필드</h2>
+            <p className="mb-4 text-sm text-muted-foreground">
+              이슈에 기록할 프로젝트 고유의 필드를 정의하세요 (예: 고객사, 환경, 심각도)
+            </p>
+            <CustomFieldManager projectId={projectId} />
+          </Card>
+
+          {/* Default Board View */}
+          <Card className="p-6">
+            <h2 className="mb-4 text-xl font-semibold">보드 기본 보기</h2>
+            <p className="mb-4 text-sm text-muted-foreground">
+              멤버가 보드를 열 때 처음 보이는 필터, 그룹, 정렬을 정하세요
+            </p>
+            <DefaultViewSetting projectId={projectId} />
+          </Card>
+
           {/* Danger Zone */}
           <Card className="border-destructive/50 p-6">
             <h2 className="mb-4 text-xl font-semibold text-destructive">
@@ -0,0 +1,33 @@
+import { createClient } from "@/lib/supabase/server"
+import { redirect } from "next/navigation"
+import { Timesheet } from "@/components/timesheet/Timesheet"
+
+export const metadata = {
+  title: "Timesheet - Jira Lite",
+  description: "Your logged hours by week and project",
+}
+
+export default async function TimesheetPage() {
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    redirect("/login")
+  }
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900">Timesheet</h1>
+        <p className="text-gray-600 mt-2">
+          Hours you&apos;ve logged, by week and project.
+        </p>
+      </div>
+
+      <Timesheet userId={user.id} />
+    </div>
+  )
+}
@@ -2,13 +2,26 @@
 
 import { useState } from "react"
 import { Button } from "@/components/ui/button"
-import { Textarea } from "@/components/ui/textarea"
+import { MarkdownWriteTabs } from "@/components/ui/markdown"
+import { MentionTextarea, type MentionCandidate } from "./mention-textarea"
 
 interface CommentFormProps {
   onSubmit: (content: string) => Promise<void>
+  members?: MentionCandidate[]
+  onCancel?: () => void
+  placeholder?: string
+  submitLabel?: string
+  autoFocus?: boolean
 }
 
-export function CommentForm({ onSubmit }: CommentFormProps) {
+export function CommentForm({
+  onSubmit,
+  members = [],
+  onCancel,
+  placeholder = "Add a comment... (type @ to mention a teammate)",
+  submitLabel = "Post Comment",
+  autoFocus,
+}: CommentFormProps) {
   const [content, setContent] = useState("")
   const [isSubmitting, setIsSubmitting] = useState(false)
 
@@ -30,16 +43,25 @@ export function CommentForm({ onSubmit }: CommentFormProps) {
 
   return (
     <form onSubmit={handleSubmit} className="space-y-2">
-      <Textarea
-        placeholder="Add a comment..."
-        value={content}
-        onChange={(e) => setContent(e.target.value)}
-        className="min-h-[100px]"
-        disabled={isSubmitting}
-      />
-      <div className="flex justify-end">
+      <MarkdownWriteTabs value={content}>
+        <MentionTextarea
+          placeholder={placeholder}
+          value={content}
+          onValueChange={setContent}
+          members={members}
+          className="min-h-[100px]"
+          disabled={isSubmitting}
+          autoFocus={autoFocus}
+        />
+      </MarkdownWriteTabs>
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>
+            Cancel
+          </Button>
+        )}
         <Button type="submit" disabled={isSubmitting || !content.trim()}>
-          {isSubmitting ? "Posting..." : "Post Comment"}
+          {isSubmitting ? "Posting..." : submitLabel}
         </Button>
       </div>
     </form>
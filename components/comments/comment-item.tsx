@@ -3,25 +3,28 @@
 import { useState } from "react"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Button } from "@/components/ui/button"
-import { Textarea } from "@/components/ui/textarea"
-import { MoreHorizontal, Pencil, Trash2 } from "lucide-react"
+import { MessageSquareReply, MoreHorizontal, Pencil, Trash2 } from "lucide-react"
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
-import type { Tables } from "@/types/database.types"
-
-type Comment = Tables<"comments"> & {
-  user: Pick<Tables<"users">, "id" | "display_name" | "avatar_url">
-}
+import { Markdown } from "@/components/ui/markdown"
+import { CommentReactions } from "./comment-reactions"
+import { CommentRevisionsDialog } from "./comment-revisions-dialog"
+import { MentionTextarea, type MentionCandidate } from "./mention-textarea"
+import type { CommentWithReactions } from "@/types/models"
 
 interface CommentItemProps {
-  comment: Comment
+  comment: CommentWithReactions
   currentUserId: string
   onEdit: (commentId: string, content: string) => Promise<void>
   onDelete: (commentId: string) => Promise<void>
+  onToggleReaction: (commentId: string, emoji: string) => Promise<void>
+  onReply?: () => void
+  members?: MentionCandidate[]
+  children?: React.ReactNode
 }
 
 export function CommentItem({
@@ -29,6 +32,10 @@ export function CommentItem({
   currentUserId,
   onEdit,
   onDelete,
+  onToggleReaction,
+  onReply,
+  members = [],
+  children,
 }: CommentItemProps) {
   const [isEditing, setIsEditing] = useState(false)
   const [editContent, setEditContent] = useState(comment.content)
@@ -93,8 +100,21 @@ export function CommentItem({
             </span>
             <span className="text-xs text-muted-foreground">
               {formatDate(comment.created_at)}
-              {comment.updated_at !== comment.created_at && " (edited)"}
             </span>
+            {comment.updated_at !== comment.created_at && (
+              <CommentRevisionsDialog
+                comment={comment}
+                trigger={
+                  <button
+                    type="button"
+                    className="text-xs text-muted-foreground hover:underline"
+                    title={`Edited ${new Date(comment.updated_at).toLocaleString()}`}
+                  >
+                    (edited {formatDate(comment.updated_at)})
+                  </button>
+                }
+              />
+            )}
           </div>
 
           {isOwner && (
@@ -123,9 +143,10 @@ export function CommentItem({
 
         {isEditing ? (
           <div className="space-y-2">
-            <Textarea
+            <MentionTextarea
               value={editContent}
-              onChange={(e) => setEditContent(e.target.value)}
+              onValueChange={setEditContent}
+              members={members}
               className="min-h-[80px]"
               autoFocus
             />
@@ -151,10 +172,29 @@ export function CommentItem({
             </div>
           </div>
         ) : (
-          <p className="text-sm text-foreground whitespace-pre-wrap">
-            {comment.content}
-          </p>
+          <Markdown source={comment.content} className="text-foreground" />
         )}
+
+        <div className="flex items-center gap-2">
+          <CommentReactions
+            reactions={comment.reactions}
+            currentUserId={currentUserId}
+            onToggle={(emoji) => onToggleReaction(comment.id, emoji)}
+          />
+          {onReply && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 gap-1 px-2 text-xs text-muted-foreground"
+              onClick={onReply}
+            >
+              <MessageSquareReply className="h-3.5 w-3.5" />
+              Reply
+            </Button>
+          )}
+        </div>
+
+        {children}
       </div>
     </div>
   )
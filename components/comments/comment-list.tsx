@@ -1,6 +1,9 @@
 "use client"
 
+import { useState } from "react"
+import { ChevronDown, ChevronRight } from "lucide-react"
 import { useComments } from "@/hooks/use-comments"
+import { useTeamMembers } from "@/hooks/use-teams"
 import { CommentItem } from "./comment-item"
 import { CommentForm } from "./comment-form"
 import { Skeleton } from "@/components/ui/skeleton"
@@ -8,11 +11,24 @@ import { Skeleton } from "@/components/ui/skeleton"
 interface CommentListProps {
   issueId: string
   currentUserId: string
+  teamId?: string
 }
 
-export function CommentList({ issueId, currentUserId }: CommentListProps) {
-  const { comments, loading, error, createComment, editComment, removeComment } =
-    useComments(issueId)
+export function CommentList({ issueId, currentUserId, teamId }: CommentListProps) {
+  const {
+    comments,
+    loading,
+    error,
+    createComment,
+    editComment,
+    removeComment,
+    toggleReaction,
+  } = useComments(issueId)
+  const { members: teamMembers } = useTeamMembers(teamId)
+  const members = teamMembers.map((member) => member.user)
+
+  const [replyingTo, setReplyingTo] = useState<string | null>(null)
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set())
 
   if (loading) {
     return (
@@ -31,18 +47,108 @@ export function CommentList({ issueId, currentUserId }: CommentListProps) {
     )
   }
 
+  // Threads are one level deep; replies hang off a top-level comment
+  const topLevel = comments.filter((comment) => !comment.parent_id)
+  const repliesByParent = new Map<string, typeof comments>()
+  for (const comment of comments) {
+    if (!comment.parent_id) continue
+    repliesByParent.set(comment.parent_id, [
+      ...(repliesByParent.get(comment.parent_id) ?? []),
+      comment,
+    ])
+  }
+
+  const toggleCollapsed = (commentId: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev)
+      if (next.has(commentId)) {
+        next.delete(commentId)
+      } else {
+        next.add(commentId)
+      }
+      return next
+    })
+  }
+
+  const handleToggleReaction = (commentId: string, emoji: string) =>
+    toggleReaction(currentUserId, commentId, emoji)
+
   return (
     <div className="space-y-4">
       <div className="space-y-4">
-        {comments.map((comment) => (
-          <CommentItem
-            key={comment.id}
-            comment={comment}
-            currentUserId={currentUserId}
-            onEdit={editComment}
-            onDelete={removeComment}
-          />
-        ))}
+        {topLevel.map((comment) => {
+          const replies = repliesByParent.get(comment.id) ?? []
+          const isCollapsed = collapsed.has(comment.id)
+
+          return (
+            <CommentItem
+              key={comment.id}
+              comment={comment}
+              currentUserId={currentUserId}
+              onEdit={editComment}
+              onDelete={removeComment}
+              onToggleReaction={handleToggleReaction}
+              onReply={() => setReplyingTo(comment.id)}
+              members={members}
+            >
+              {replies.length > 0 && (
+                <div className="space-y-3 pt-1">
+                  <button
+                    type="button"
+                    onClick={() => toggleCollapsed(comment.id)}
+                    className="flex items-center gap-1 text-xs font-medium text-muted-foreground hover:text-foreground"
+                  >
+                    {isCollapsed ? (
+                      <ChevronRight className="h-3.5 w-3.5" />
+                    ) : (
+                      <ChevronDown className="h-3.5 w-3.5" />
+                    )}
+                    {isCollapsed
+                      ? `Show ${replies.length} ${replies.length === 1 ? "reply" : "replies"}`
+                      : "Hide replies"}
+                  </button>
+
+                  {!isCollapsed && (
+                    <div className="space-y-3 border-l-2 pl-4">
+                      {replies.map((reply) => (
+                        <CommentItem
+                          key={reply.id}
+                          comment={reply}
+                          currentUserId={currentUserId}
+                          onEdit={editComment}
+                          onDelete={removeComment}
+                          onToggleReaction={handleToggleReaction}
+                          members={members}
+                        />
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {replyingTo === comment.id && (
+                <div className="border-l-2 pl-4 pt-1">
+                  <CommentForm
+                    onSubmit={async (content) => {
+                      await createComment(currentUserId, content, comment.id)
+                      setReplyingTo(null)
+                      setCollapsed((prev) => {
+                        const next = new Set(prev)
+                        next.delete(comment.id)
+                        return next
+                      })
+                    }}
+                    onCancel={() => setReplyingTo(null)}
+                    members={members}
+                    placeholder={`Reply to ${comment.user.display_name}...`}
+                    submitLabel="Reply"
+                    autoFocus
+                  />
+                </div>
+              )}
+            </CommentItem>
+          )
+        })}
 
         {comments.length === 0 && (
           <div className="text-center text-sm text-muted-foreground py-8">
@@ -52,7 +158,10 @@ export function CommentList({ issueId, currentUserId }: CommentListProps) {
       </div>
 
       <CommentForm
-        onSubmit={(content) => createComment(currentUserId, content)}
+        onSubmit={async (content) => {
+          await createComment(currentUserId, content)
+        }}
+        members={members}
       />
     </div>
   )
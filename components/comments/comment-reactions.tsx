@@ -0,0 +1,91 @@
+"use client"
+
+import { useState } from "react"
+import { SmilePlus } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { cn } from "@/lib/utils"
+import { COMMENT_REACTION_EMOJIS, type CommentReaction } from "@/types/models"
+
+interface CommentReactionsProps {
+  reactions: Pick<CommentReaction, "user_id" | "emoji">[]
+  currentUserId: string
+  onToggle: (emoji: string) => Promise<void>
+}
+
+/**
+ * CommentReactions Component
+ *
+ * Emoji reaction counts under a comment. Clicking a reaction or picking
+ * one from the popover toggles the current user's reaction.
+ */
+export function CommentReactions({ reactions, currentUserId, onToggle }: CommentReactionsProps) {
+  const [pickerOpen, setPickerOpen] = useState(false)
+
+  // Keep first-reacted order so chips don't jump around
+  const groups = new Map<string, { count: number; reacted: boolean }>()
+  for (const reaction of reactions) {
+    const group = groups.get(reaction.emoji) ?? { count: 0, reacted: false }
+    group.count++
+    group.reacted ||= reaction.user_id === currentUserId
+    groups.set(reaction.emoji, group)
+  }
+
+  const handleToggle = async (emoji: string) => {
+    try {
+      await onToggle(emoji)
+    } catch (error) {
+      console.error("Failed to toggle reaction:", error)
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {Array.from(groups.entries()).map(([emoji, { count, reacted }]) => (
+        <button
+          key={emoji}
+          type="button"
+          onClick={() => handleToggle(emoji)}
+          aria-pressed={reacted}
+          className={cn(
+            "flex h-6 items-center gap-1 rounded-full border px-2 text-xs transition-colors",
+            reacted
+              ? "border-primary/40 bg-primary/10 text-primary"
+              : "hover:bg-muted"
+          )}
+        >
+          <span>{emoji}</span>
+          <span>{count}</span>
+        </button>
+      ))}
+
+      <Popover open={pickerOpen} onOpenChange={setPickerOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 text-muted-foreground"
+            aria-label="반응 추가"
+          >
+            <SmilePlus className="h-4 w-4" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="flex w-auto gap-1 p-1">
+          {COMMENT_REACTION_EMOJIS.map((emoji) => (
+            <button
+              key={emoji}
+              type="button"
+              onClick={() => {
+                setPickerOpen(false)
+                handleToggle(emoji)
+              }}
+              className="rounded p-1 text-lg hover:bg-muted"
+            >
+              {emoji}
+            </button>
+          ))}
+        </PopoverContent>
+      </Popover>
+    </div>
+  )
+}
@@ -0,0 +1,116 @@
+"use client"
+
+import { useState } from "react"
+import { format, parseISO } from "date-fns"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Spinner } from "@/components/ui/spinner"
+import { TextDiff } from "@/components/ui/text-diff"
+import { useCommentRevisions } from "@/hooks/use-comments"
+import { cn } from "@/lib/utils"
+import { deserializeMentions } from "@/utils/mentions"
+import type { Comment } from "@/types/models"
+
+interface CommentRevisionsDialogProps {
+  comment: Pick<Comment, "id" | "content" | "created_at" | "updated_at">
+  /**
+   * Element that opens the dialog, e.g. the "(edited)" marker
+   */
+  trigger: React.ReactNode
+}
+
+/**
+ * CommentRevisionsDialog Component
+ *
+ * Lists every version of an edited comment and shows what changed
+ * between the selected version and the one before it.
+ */
+export function CommentRevisionsDialog({ comment, trigger }: CommentRevisionsDialogProps) {
+  const [open, setOpen] = useState(false)
+  const { revisions, loading, error } = useCommentRevisions(open ? comment.id : undefined)
+  const [selected, setSelected] = useState<number | null>(null)
+
+  // A revision holds the content replaced at its `created_at`, so version n
+  // became current when revision n - 1 was recorded
+  const versions = [
+    ...revisions.map((revision, index) => ({
+      content: revision.content,
+      at: index === 0 ? comment.created_at : revisions[index - 1].created_at,
+    })),
+    {
+      content: comment.content,
+      at: revisions.length > 0 ? revisions[revisions.length - 1].created_at : comment.updated_at,
+    },
+  ].map((version) => ({ ...version, text: deserializeMentions(version.content).text }))
+
+  const selectedIndex = selected ?? versions.length - 1
+  const current = versions[selectedIndex]
+  const previous = selectedIndex > 0 ? versions[selectedIndex - 1] : null
+
+  const versionLabel = (index: number) =>
+    index === 0 ? "원본" : index === versions.length - 1 ? "현재" : `수정 ${index}`
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        setOpen(nextOpen)
+        setSelected(null)
+      }}
+    >
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="sm:max-w-[720px]">
+        <DialogHeader>
+          <DialogTitle>수정 기록</DialogTitle>
+          <DialogDescription>
+            버전을 선택하면 이전 버전과 비교한 변경 내용을 볼 수 있습니다.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Spinner />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">수정 기록을 불러오지 못했습니다</p>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-[180px_1fr]">
+            <ul className="space-y-1">
+              {versions.map((version, index) => (
+                <li key={index}>
+                  <button
+                    type="button"
+                    onClick={() => setSelected(index)}
+                    className={cn(
+                      "w-full rounded-md px-2 py-1.5 text-left text-sm hover:bg-muted",
+                      index === selectedIndex && "bg-muted font-medium"
+                    )}
+                  >
+                    <span className="block">{versionLabel(index)}</span>
+                    <span className="block text-xs text-muted-foreground">
+                      {format(parseISO(version.at), "yyyy-MM-dd HH:mm")}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            <div className="max-h-[60vh] overflow-y-auto rounded-md border p-3">
+              {previous ? (
+                <TextDiff before={previous.text} after={current.text} />
+              ) : (
+                <p className="whitespace-pre-wrap break-words text-sm">{current.text}</p>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
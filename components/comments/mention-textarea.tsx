@@ -0,0 +1,169 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Popover, PopoverAnchor, PopoverContent } from "@/components/ui/popover"
+import { Textarea, type TextareaProps } from "@/components/ui/textarea"
+import { cn } from "@/lib/utils"
+import {
+  deserializeMentions,
+  getMentionQuery,
+  serializeMentions,
+  type MentionUser,
+} from "@/utils/mentions"
+import type { User } from "@/types/models"
+
+export type MentionCandidate = Pick<User, "id" | "display_name" | "avatar_url">
+
+interface MentionTextareaProps extends Omit<TextareaProps, "value" | "onChange"> {
+  value: string
+  onValueChange: (value: string) => void
+  members: MentionCandidate[]
+}
+
+const MAX_SUGGESTIONS = 6
+
+/**
+ * MentionTextarea Component
+ *
+ * Textarea with @-autocomplete over the given members. `value` is the
+ * stored form with mention markup; the user sees plain `@Name` text.
+ */
+export function MentionTextarea({
+  value,
+  onValueChange,
+  members,
+  onKeyDown,
+  className,
+  ...props
+}: MentionTextareaProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const [draft, setDraft] = useState(() => deserializeMentions(value))
+  const [mention, setMention] = useState<{ start: number; query: string } | null>(null)
+  const [activeIndex, setActiveIndex] = useState(0)
+
+  // Follow outside changes such as the form clearing after submit
+  useEffect(() => {
+    if (value !== serializeMentions(draft.text, draft.users)) {
+      setDraft(deserializeMentions(value))
+    }
+  }, [value, draft])
+
+  const suggestions = mention
+    ? members
+        .filter((member) =>
+          member.display_name.toLowerCase().includes(mention.query.toLowerCase())
+        )
+        .slice(0, MAX_SUGGESTIONS)
+    : []
+  const isOpen = suggestions.length > 0
+
+  const update = (text: string, users: MentionUser[], caret: number) => {
+    const next = { text, users: users.filter((user) => text.includes(`@${user.display_name}`)) }
+    setDraft(next)
+    setMention(getMentionQuery(text, caret))
+    setActiveIndex(0)
+    onValueChange(serializeMentions(next.text, next.users))
+  }
+
+  const selectMember = (member: MentionCandidate) => {
+    if (!mention) return
+
+    const caret = textareaRef.current?.selectionStart ?? draft.text.length
+    const inserted = `@${member.display_name} `
+    const text = draft.text.slice(0, mention.start) + inserted + draft.text.slice(caret)
+    const nextCaret = mention.start + inserted.length
+
+    const users = draft.users.some((user) => user.id === member.id)
+      ? draft.users
+      : [...draft.users, { id: member.id, display_name: member.display_name }]
+
+    update(text, users, nextCaret)
+    setMention(null)
+
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus()
+      textareaRef.current?.setSelectionRange(nextCaret, nextCaret)
+    })
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (isOpen) {
+      if (e.key === "ArrowDown") {
+        e.preventDefault()
+        setActiveIndex((index) => (index + 1) % suggestions.length)
+        return
+      }
+      if (e.key === "ArrowUp") {
+        e.preventDefault()
+        setActiveIndex((index) => (index - 1 + suggestions.length) % suggestions.length)
+        return
+      }
+      if (e.key === "Enter" || e.key === "Tab") {
+        e.preventDefault()
+        selectMember(suggestions[activeIndex])
+        return
+      }
+      if (e.key === "Escape") {
+        e.preventDefault()
+        setMention(null)
+        return
+      }
+    }
+
+    onKeyDown?.(e)
+  }
+
+  return (
+    <Popover open={isOpen} onOpenChange={(open) => !open && setMention(null)}>
+      <PopoverAnchor asChild>
+        <Textarea
+          ref={textareaRef}
+          value={draft.text}
+          onChange={(e) =>
+            update(e.target.value, draft.users, e.target.selectionStart)
+          }
+          onKeyDown={handleKeyDown}
+          onClick={(e) =>
+            setMention(getMentionQuery(draft.text, e.currentTarget.selectionStart))
+          }
+          className={className}
+          {...props}
+        />
+      </PopoverAnchor>
+      <PopoverContent
+        align="start"
+        className="w-64 p-1"
+        onOpenAutoFocus={(e) => e.preventDefault()}
+      >
+        <ul role="listbox" aria-label="멘션할 팀원">
+          {suggestions.map((member, index) => (
+            <li
+              key={member.id}
+              role="option"
+              aria-selected={index === activeIndex}
+              onMouseDown={(e) => {
+                // Keep focus in the textarea
+                e.preventDefault()
+                selectMember(member)
+              }}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={cn(
+                "flex cursor-pointer items-center gap-2 rounded-sm px-2 py-1.5 text-sm",
+                index === activeIndex && "bg-accent text-accent-foreground"
+              )}
+            >
+              <Avatar className="h-6 w-6">
+                <AvatarImage src={member.avatar_url || undefined} />
+                <AvatarFallback className="text-xs">
+                  {member.display_name.charAt(0).toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+              <span className="truncate">{member.display_name}</span>
+            </li>
+          ))}
+        </ul>
+      </PopoverContent>
+    </Popover>
+  )
+}
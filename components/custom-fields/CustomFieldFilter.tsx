@@ -0,0 +1,84 @@
+"use client"
+
+import { SlidersHorizontal } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { CustomFieldInput } from "./CustomFieldInput"
+import type { CustomField, CustomFieldFilter as Filter, User } from "@/types/models"
+
+interface CustomFieldFilterProps {
+  fields: CustomField[]
+  value: Filter[]
+  onChange: (filters: Filter[]) => void
+  members?: Pick<User, "id" | "display_name">[]
+}
+
+/**
+ * CustomFieldFilter Component
+ *
+ * Popover with one input per custom field for narrowing the board.
+ * Text fields match by substring, every other type by exact value.
+ */
+export function CustomFieldFilter({
+  fields,
+  value,
+  onChange,
+  members,
+}: CustomFieldFilterProps) {
+  if (fields.length === 0) return null
+
+  const activeCount = value.filter((filter) => filter.value).length
+
+  const setFieldFilter = (field: CustomField, input: string) => {
+    const others = value.filter((filter) => filter.field_id !== field.id)
+    onChange(
+      input
+        ? [
+            ...others,
+            {
+              field_id: field.id,
+              operator: field.field_type === "text" ? "contains" : "equals",
+              value: input,
+            },
+          ]
+        : others
+    )
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline">
+          <SlidersHorizontal className="mr-2 h-4 w-4" />
+          필드
+          {activeCount > 0 && (
+            <Badge variant="secondary" className="ml-2">
+              {activeCount}
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-3" align="end">
+        {fields.map((field) => (
+          <div key={field.id} className="space-y-1">
+            <Label htmlFor={`filter-${field.id}`}>{field.name}</Label>
+            <CustomFieldInput
+              id={`filter-${field.id}`}
+              field={field}
+              members={members}
+              value={value.find((filter) => filter.field_id === field.id)?.value ?? ""}
+              onChange={(input) => setFieldFilter(field, input)}
+            />
+          </div>
+        ))}
+        {activeCount > 0 && (
+          <Button variant="ghost" size="sm" className="w-full" onClick={() => onChange([])}>
+            필터 초기화
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,91 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import type { CustomField, User } from "@/types/models"
+
+const EMPTY = "none"
+
+interface CustomFieldInputProps {
+  field: CustomField
+  /**
+   * Input string; empty means no value
+   */
+  value: string
+  onChange: (value: string) => void
+  /**
+   * Fired when a text, number or date input loses focus
+   */
+  onBlur?: () => void
+  /**
+   * Candidates for user fields
+   */
+  members?: Pick<User, "id" | "display_name">[]
+  id?: string
+  disabled?: boolean
+}
+
+/**
+ * CustomFieldInput Component
+ *
+ * Renders the input matching a custom field's type.
+ */
+export function CustomFieldInput({
+  field,
+  value,
+  onChange,
+  onBlur,
+  members = [],
+  id,
+  disabled,
+}: CustomFieldInputProps) {
+  if (field.field_type === "select" || field.field_type === "user") {
+    const choices =
+      field.field_type === "select"
+        ? field.options.map((option) => ({ value: option, label: option }))
+        : members.map((member) => ({ value: member.id, label: member.display_name }))
+
+    return (
+      <Select
+        value={value || EMPTY}
+        onValueChange={(next) => onChange(next === EMPTY ? "" : next)}
+        disabled={disabled}
+      >
+        <SelectTrigger id={id}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={EMPTY}>
+            <span className="text-muted-foreground">선택 안 함</span>
+          </SelectItem>
+          {choices.map((choice) => (
+            <SelectItem key={choice.value} value={choice.value}>
+              {choice.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    )
+  }
+
+  return (
+    <Input
+      id={id}
+      type={
+        field.field_type === "number" ? "number" : field.field_type === "date" ? "date" : "text"
+      }
+      step={field.field_type === "number" ? "any" : undefined}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      onBlur={onBlur}
+      maxLength={field.field_type === "text" ? 500 : undefined}
+      disabled={disabled}
+    />
+  )
+}
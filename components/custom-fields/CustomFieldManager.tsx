@@ -0,0 +1,217 @@
+"use client"
+
+import { useState } from "react"
+import { Trash2 } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Spinner } from "@/components/ui/spinner"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { useCustomFields } from "@/hooks/use-custom-fields"
+import { useToast } from "@/hooks/use-toast"
+import {
+  CUSTOM_FIELD_TYPES,
+  CUSTOM_FIELD_TYPE_LABELS,
+  type CustomField,
+  type CustomFieldType,
+} from "@/types/models"
+
+interface CustomFieldManagerProps {
+  projectId: string
+}
+
+/**
+ * CustomFieldManager Component
+ *
+ * Lists a project's custom field definitions and lets admins add
+ * or remove them. Select fields take comma-separated options.
+ */
+export function CustomFieldManager({ projectId }: CustomFieldManagerProps) {
+  const { fields, loading, error, addField, editField, removeField } =
+    useCustomFields(projectId)
+  const { toast } = useToast()
+  const [name, setName] = useState("")
+  const [fieldType, setFieldType] = useState<CustomFieldType>("text")
+  const [options, setOptions] = useState("")
+  const [required, setRequired] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const parsedOptions = Array.from(
+      new Set(
+        options
+          .split(",")
+          .map((option) => option.trim())
+          .filter(Boolean)
+      )
+    )
+
+    if (fieldType === "select" && parsedOptions.length === 0) {
+      toast({
+        title: "선택지 필요",
+        description: "선택형 필드에는 하나 이상의 선택지가 필요합니다",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      await addField({
+        name: name.trim(),
+        field_type: fieldType,
+        options: parsedOptions,
+        required,
+      })
+      setName("")
+      setOptions("")
+      setRequired(false)
+    } catch (err) {
+      console.error("Error creating custom field:", err)
+      toast({
+        title: "추가 실패",
+        description: "필드를 추가하지 못했습니다. 이름이 중복되지 않았는지 확인하세요.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleToggleRequired = async (field: CustomField) => {
+    try {
+      await editField(field.id, { required: !field.required })
+    } catch (err) {
+      console.error("Error updating custom field:", err)
+    }
+  }
+
+  const handleRemove = async (field: CustomField) => {
+    if (!confirm(`"${field.name}" 필드와 저장된 값을 모두 삭제할까요?`)) return
+
+    try {
+      await removeField(field.id)
+    } catch (err) {
+      console.error("Error deleting custom field:", err)
+      toast({
+        title: "삭제 실패",
+        description: "필드를 삭제하지 못했습니다. 다시 시도해주세요.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Spinner className="h-8 w-8" />
+      </div>
+    )
+  }
+
+  if (error) {
+    return <p className="text-sm text-destructive">필드를 불러오지 못했습니다</p>
+  }
+
+  return (
+    <div className="space-y-6">
+      {fields.length > 0 ? (
+        <ul className="divide-y rounded-md border">
+          {fields.map((field) => (
+            <li key={field.id} className="flex items-center gap-3 px-4 py-3 text-sm">
+              <span className="font-medium">{field.name}</span>
+              <Badge variant="secondary">{CUSTOM_FIELD_TYPE_LABELS[field.field_type]}</Badge>
+              {field.field_type === "select" && (
+                <span className="truncate text-muted-foreground">
+                  {field.options.join(", ")}
+                </span>
+              )}
+              <label className="ml-auto flex items-center gap-2 text-muted-foreground">
+                <input
+                  type="checkbox"
+                  checked={field.required}
+                  onChange={() => handleToggleRequired(field)}
+                />
+                필수
+              </label>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleRemove(field)}
+                aria-label={`${field.name} 삭제`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-muted-foreground">아직 정의된 필드가 없습니다</p>
+      )}
+
+      <form onSubmit={handleAdd} className="grid gap-4 md:grid-cols-[1fr_160px_1fr_auto]">
+        <div className="space-y-2">
+          <Label htmlFor="custom-field-name">필드 이름</Label>
+          <Input
+            id="custom-field-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="예: 고객사"
+            maxLength={50}
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>유형</Label>
+          <Select
+            value={fieldType}
+            onValueChange={(value) => setFieldType(value as CustomFieldType)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CUSTOM_FIELD_TYPES.map((type) => (
+                <SelectItem key={type} value={type}>
+                  {CUSTOM_FIELD_TYPE_LABELS[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="custom-field-options">선택지</Label>
+          <Input
+            id="custom-field-options"
+            value={options}
+            onChange={(e) => setOptions(e.target.value)}
+            placeholder="쉼표로 구분 (예: dev, staging, production)"
+            disabled={fieldType !== "select"}
+          />
+        </div>
+        <div className="flex items-end gap-4">
+          <label className="flex h-10 items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={required}
+              onChange={(e) => setRequired(e.target.checked)}
+            />
+            필수
+          </label>
+          <Button type="submit" disabled={isSubmitting || !name.trim()}>
+            {isSubmitting ? "추가 중..." : "추가"}
+          </Button>
+        </div>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,109 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Spinner } from "@/components/ui/spinner"
+import { CustomFieldInput } from "./CustomFieldInput"
+import { useCustomFields, useIssueCustomValues } from "@/hooks/use-custom-fields"
+import { useProjectMembers } from "@/hooks/use-projects"
+import { useToast } from "@/hooks/use-toast"
+import { buildCustomValuesSchema, parseCustomFieldValue, toInputValue } from "@/utils/custom-fields"
+import type { CustomField } from "@/types/models"
+
+interface IssueCustomFieldsProps {
+  issueId: string
+  projectId: string
+}
+
+/**
+ * IssueCustomFields Component
+ *
+ * Shows and edits an issue's values for the project's custom fields.
+ * Select, user and date values save on change; text and number on blur.
+ */
+export function IssueCustomFields({ issueId, projectId }: IssueCustomFieldsProps) {
+  const { fields, loading: fieldsLoading } = useCustomFields(projectId)
+  const { values, loading: valuesLoading, error, setValue } = useIssueCustomValues(issueId)
+  const { members } = useProjectMembers(projectId)
+  const { toast } = useToast()
+  const [drafts, setDrafts] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    setDrafts(
+      Object.fromEntries(fields.map((field) => [field.id, toInputValue(values[field.id])]))
+    )
+  }, [fields, values])
+
+  const save = async (field: CustomField, input: string) => {
+    if (input === toInputValue(values[field.id])) return
+
+    const result = buildCustomValuesSchema([field]).safeParse({ [field.id]: input })
+    if (!result.success) {
+      toast({
+        title: "잘못된 값",
+        description: result.error.issues[0]?.message,
+        variant: "destructive",
+      })
+      setDrafts((prev) => ({ ...prev, [field.id]: toInputValue(values[field.id]) }))
+      return
+    }
+
+    try {
+      await setValue(field.id, parseCustomFieldValue(field, input))
+    } catch (err) {
+      console.error("Error saving custom field value:", err)
+      toast({
+        title: "수정 실패",
+        description: "필드 값을 저장하지 못했습니다. 다시 시도해주세요.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  if (fieldsLoading || valuesLoading) {
+    return <Spinner size="sm" />
+  }
+
+  if (error) {
+    return <p className="text-sm text-destructive">필드 값을 불러오지 못했습니다</p>
+  }
+
+  if (fields.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        프로젝트 설정에서 사용자 정의 필드를 추가할 수 있습니다
+      </p>
+    )
+  }
+
+  return (
+    <dl className="space-y-4 text-sm">
+      {fields.map((field) => {
+        const savesOnBlur = field.field_type === "text" || field.field_type === "number"
+
+        return (
+          <div key={field.id} className="space-y-1">
+            <dt className="text-muted-foreground">
+              <label htmlFor={`custom-field-${field.id}`}>
+                {field.name}
+                {field.required && <span className="text-destructive"> *</span>}
+              </label>
+            </dt>
+            <dd>
+              <CustomFieldInput
+                id={`custom-field-${field.id}`}
+                field={field}
+                members={members}
+                value={drafts[field.id] ?? ""}
+                onChange={(input) => {
+                  setDrafts((prev) => ({ ...prev, [field.id]: input }))
+                  if (!savesOnBlur) save(field, input)
+                }}
+                onBlur={() => savesOnBlur && save(field, drafts[field.id] ?? "")}
+              />
+            </dd>
+          </div>
+        )
+      })}
+    </dl>
+  )
+}
@@ -18,6 +18,9 @@ import { Button } from "@/components/ui/button"
 import { SimpleChart } from "./SimpleChart"
 import { Spinner } from "@/components/ui/spinner"
 import { createClient } from "@/lib/supabase/client"
+import { DueDateBadge } from "@/components/issues/DueDateBadge"
+import { daysUntil } from "@/utils/due-dates"
+import { formatIssueKey } from "@/utils/issue-key"
 import { PRIORITY_COLORS, PRIORITY_LABELS } from "@/types/models"
 import type { Tables } from "@/types/database.types"
 import { formatDistanceToNow } from "date-fns"
@@ -140,6 +143,17 @@ export function PersonalDashboard({ userId }: PersonalDashboardProps) {
       .filter((i) => i.priority === "urgent" && i.status.name.toLowerCase() !== "done")
       .slice(0, 5)
 
+    // Open issues due within the next week, overdue first
+    const dueSoonIssues = issues
+      .filter(
+        (i) =>
+          i.due_date &&
+          i.status.name.toLowerCase() !== "done" &&
+          daysUntil(i.due_date) <= 7
+      )
+      .sort((a, b) => a.due_date!.localeCompare(b.due_date!))
+      .slice(0, 5)
+
     // Recent issues
     const recentIssues = issues.slice(0, 5)
 
@@ -151,6 +165,7 @@ export function PersonalDashboard({ userId }: PersonalDashboardProps) {
       byPriority,
       byProject,
       urgentIssues,
+      dueSoonIssues,
       recentIssues,
     }
   }, [issues])
@@ -261,7 +276,7 @@ export function PersonalDashboard({ userId }: PersonalDashboardProps) {
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center gap-2 mb-1">
                       <span className="text-xs font-mono text-gray-500">
-                        {issue.project.key}
+                        {formatIssueKey(issue.project.key, issue.number)}
                       </span>
                       <Badge
                         className={PRIORITY_COLORS[issue.priority]}
@@ -289,6 +304,54 @@ export function PersonalDashboard({ userId }: PersonalDashboardProps) {
         </Card>
       )}
 
+      {/* Due Soon */}
+      {stats.dueSoonIssues.length > 0 && (
+        <Card className="p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900">
+              📅 Due Soon
+            </h3>
+            <Badge className="bg-amber-100 text-amber-700">
+              {stats.dueSoonIssues.length}
+            </Badge>
+          </div>
+          <div className="space-y-3">
+            {stats.dueSoonIssues.map((issue) => (
+              <Link
+                key={issue.id}
+                href={`/issues/${issue.id}`}
+                className="block p-4 rounded-lg border hover:border-gray-300 hover:shadow-sm transition-all"
+              >
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className="text-xs font-mono text-gray-500">
+                        {formatIssueKey(issue.project.key, issue.number)}
+                      </span>
+                      <DueDateBadge
+                        dueDate={issue.due_date}
+                        statusName={issue.status.name}
+                      />
+                    </div>
+                    <div className="font-medium text-gray-900 truncate">
+                      {issue.title}
+                    </div>
+                  </div>
+                  <Badge
+                    style={{
+                      backgroundColor: issue.status.color,
+                      color: "white",
+                    }}
+                  >
+                    {issue.status.name}
+                  </Badge>
+                </div>
+              </Link>
+            ))}
+          </div>
+        </Card>
+      )}
+
       {/* Recent Activity */}
       <Card className="p-6">
         <h3 className="text-lg font-semibold text-gray-900 mb-4">
@@ -306,7 +369,7 @@ export function PersonalDashboard({ userId }: PersonalDashboardProps) {
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center gap-2 mb-1">
                       <span className="text-xs font-mono text-gray-500">
-                        {issue.project.key}
+                        {formatIssueKey(issue.project.key, issue.number)}
                       </span>
                       <span className="text-xs text-gray-400">
                         {formatDistanceToNow(new Date(issue.created_at), {
@@ -0,0 +1,88 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { Upload } from "lucide-react"
+import { Spinner } from "@/components/ui/spinner"
+import { cn } from "@/lib/utils"
+import {
+  ALLOWED_ATTACHMENT_TYPES,
+  MAX_ATTACHMENT_SIZE,
+  formatFileSize,
+} from "@/utils/attachments"
+
+interface AttachmentDropzoneProps {
+  onFiles: (files: File[]) => void
+  uploading?: boolean
+}
+
+/**
+ * AttachmentDropzone Component
+ *
+ * Drop target for files, falling back to a file picker on click.
+ */
+export function AttachmentDropzone({ onFiles, uploading = false }: AttachmentDropzoneProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [isDragOver, setIsDragOver] = useState(false)
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault()
+    setIsDragOver(false)
+    if (uploading) return
+
+    const files = Array.from(e.dataTransfer.files)
+    if (files.length > 0) onFiles(files)
+  }
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? [])
+    if (files.length > 0) onFiles(files)
+
+    // Allow picking the same file again
+    e.target.value = ""
+  }
+
+  return (
+    <div
+      role="button"
+      tabIndex={0}
+      onClick={() => !uploading && inputRef.current?.click()}
+      onKeyDown={(e) => {
+        if ((e.key === "Enter" || e.key === " ") && !uploading) {
+          e.preventDefault()
+          inputRef.current?.click()
+        }
+      }}
+      onDragOver={(e) => {
+        e.preventDefault()
+        setIsDragOver(true)
+      }}
+      onDragLeave={() => setIsDragOver(false)}
+      onDrop={handleDrop}
+      className={cn(
+        "flex cursor-pointer flex-col items-center justify-center gap-1 rounded-md border-2 border-dashed p-6 text-center text-sm transition-colors",
+        isDragOver ? "border-primary bg-primary/5" : "border-muted hover:bg-muted/50",
+        uploading && "cursor-not-allowed opacity-60"
+      )}
+    >
+      {uploading ? (
+        <Spinner size="sm" />
+      ) : (
+        <Upload className="h-5 w-5 text-muted-foreground" />
+      )}
+      <span className="font-medium">
+        {uploading ? "업로드 중..." : "파일을 끌어다 놓거나 클릭하여 선택하세요"}
+      </span>
+      <span className="text-xs text-muted-foreground">
+        최대 {formatFileSize(MAX_ATTACHMENT_SIZE)} · 이미지, PDF, 문서, 스프레드시트, ZIP
+      </span>
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        accept={ALLOWED_ATTACHMENT_TYPES.join(",")}
+        onChange={handleChange}
+        className="hidden"
+      />
+    </div>
+  )
+}
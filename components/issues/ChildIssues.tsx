@@ -0,0 +1,78 @@
+"use client"
+
+import Link from "next/link"
+import { Badge } from "@/components/ui/badge"
+import { Spinner } from "@/components/ui/spinner"
+import { EpicProgress } from "./EpicProgress"
+import { IssueTypeIcon } from "./IssueTypeIcon"
+import { useChildIssues } from "@/hooks/use-issues"
+import { formatIssueKey } from "@/utils/issue-key"
+import { getRollup } from "@/utils/issue-hierarchy"
+
+interface ChildIssuesProps {
+  parentId: string
+}
+
+/**
+ * ChildIssues Component
+ *
+ * Lists the issues under an epic with their rolled-up progress.
+ */
+export function ChildIssues({ parentId }: ChildIssuesProps) {
+  const { children, loading, error } = useChildIssues(parentId)
+
+  if (loading) {
+    return <Spinner size="sm" />
+  }
+
+  if (error) {
+    return <p className="text-sm text-destructive">하위 이슈를 불러오지 못했습니다</p>
+  }
+
+  if (children.length === 0) {
+    return <p className="text-sm text-muted-foreground">하위 이슈 없음</p>
+  }
+
+  const rollup = getRollup(children)
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <EpicProgress rollup={rollup} />
+        <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+          {rollup.byStatus.map((status) => (
+            <span key={status.name} className="flex items-center gap-1">
+              <span
+                className="h-2 w-2 rounded-full"
+                style={{ backgroundColor: status.color }}
+              />
+              {status.name} {status.count}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        {children.map((child) => (
+          <Link
+            key={child.id}
+            href={`/issues/${child.id}`}
+            className="flex items-center gap-2 rounded-md px-2 py-1.5 text-sm hover:bg-muted"
+          >
+            <IssueTypeIcon type={child.type} />
+            <span className="text-xs font-medium text-muted-foreground">
+              {formatIssueKey(child.project.key, child.number)}
+            </span>
+            <span className="flex-1 truncate">{child.title}</span>
+            <Badge
+              variant="outline"
+              style={{ borderColor: child.status.color, color: child.status.color }}
+            >
+              {child.status.name}
+            </Badge>
+          </Link>
+        ))}
+      </div>
+    </div>
+  )
+}
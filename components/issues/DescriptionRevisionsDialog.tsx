@@ -0,0 +1,182 @@
+"use client"
+
+import { useState } from "react"
+import { format, parseISO } from "date-fns"
+import { History, RotateCcw } from "lucide-react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Spinner } from "@/components/ui/spinner"
+import { TextDiff } from "@/components/ui/text-diff"
+import { useDescriptionRevisions } from "@/hooks/use-description-revisions"
+import { useToast } from "@/hooks/use-toast"
+import { cn } from "@/lib/utils"
+
+interface DescriptionRevisionsDialogProps {
+  issueId: string
+  /**
+   * Description currently saved on the issue
+   */
+  currentDescription: string | null
+  onRestore: (description: string | null) => Promise<unknown>
+}
+
+/**
+ * DescriptionRevisionsDialog Component
+ *
+ * History of an issue's description. Each revision is compared with the
+ * one before it, inline or side by side, and can be restored; restoring
+ * saves the old text as a new revision.
+ */
+export function DescriptionRevisionsDialog({
+  issueId,
+  currentDescription,
+  onRestore,
+}: DescriptionRevisionsDialogProps) {
+  const { revisions, loading, error } = useDescriptionRevisions(issueId)
+  const { toast } = useToast()
+  const [open, setOpen] = useState(false)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [layout, setLayout] = useState<"inline" | "split">("inline")
+  const [isRestoring, setIsRestoring] = useState(false)
+
+  // Newest first; the one after the selected revision is its predecessor
+  const selectedIndex = Math.max(
+    0,
+    revisions.findIndex((revision) => revision.id === selectedId)
+  )
+  const selected = revisions[selectedIndex]
+  const previous = revisions[selectedIndex + 1]
+  const isCurrent = (selected?.description ?? null) === currentDescription
+
+  const handleRestore = async () => {
+    if (!selected) return
+
+    setIsRestoring(true)
+    try {
+      await onRestore(selected.description)
+      setSelectedId(null)
+      toast({
+        title: "설명 복원",
+        description: `${format(parseISO(selected.created_at), "yyyy-MM-dd HH:mm")} 버전으로 복원했습니다`,
+      })
+    } catch (err) {
+      console.error("Error restoring description:", err)
+      toast({
+        title: "복원 실패",
+        description: "설명을 복원하지 못했습니다. 다시 시도해주세요.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsRestoring(false)
+    }
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        setOpen(nextOpen)
+        setSelectedId(null)
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-1 text-muted-foreground">
+          <History className="h-4 w-4" />
+          설명 기록{revisions.length > 0 && ` (${revisions.length})`}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[900px]">
+        <DialogHeader>
+          <DialogTitle>설명 변경 기록</DialogTitle>
+          <DialogDescription>
+            버전을 선택하면 바로 이전 버전과 비교한 변경 내용을 볼 수 있습니다.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Spinner />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">설명 기록을 불러오지 못했습니다</p>
+        ) : revisions.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            아직 저장된 설명 변경 기록이 없습니다
+          </p>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-[200px_1fr]">
+            <ul className="max-h-[60vh] space-y-1 overflow-y-auto">
+              {revisions.map((revision, index) => (
+                <li key={revision.id}>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedId(revision.id)}
+                    className={cn(
+                      "w-full rounded-md px-2 py-1.5 text-left text-sm hover:bg-muted",
+                      index === selectedIndex && "bg-muted font-medium"
+                    )}
+                  >
+                    <span className="block truncate">
+                      {revision.author?.display_name ?? "이전 설명"}
+                    </span>
+                    <span className="block text-xs text-muted-foreground">
+                      {format(parseISO(revision.created_at), "yyyy-MM-dd HH:mm")}
+                      {index === 0 && " · 최신"}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            <div className="min-w-0 space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex gap-1">
+                  <Button
+                    variant={layout === "inline" ? "secondary" : "ghost"}
+                    size="sm"
+                    onClick={() => setLayout("inline")}
+                  >
+                    한 줄 보기
+                  </Button>
+                  <Button
+                    variant={layout === "split" ? "secondary" : "ghost"}
+                    size="sm"
+                    onClick={() => setLayout("split")}
+                  >
+                    나란히 보기
+                  </Button>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="gap-1"
+                  onClick={handleRestore}
+                  disabled={isRestoring || isCurrent}
+                >
+                  <RotateCcw className="h-4 w-4" />
+                  {isRestoring ? "복원 중..." : "이 버전으로 복원"}
+                </Button>
+              </div>
+
+              <div className="max-h-[55vh] overflow-y-auto">
+                <TextDiff
+                  before={previous?.description ?? ""}
+                  after={selected?.description ?? ""}
+                  layout={layout}
+                  className={layout === "inline" ? "rounded-md border p-3" : undefined}
+                />
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,35 @@
+import { CalendarClock } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { DUE_STATE_STYLES, formatDueDate, getDueState } from "@/utils/due-dates"
+
+interface DueDateBadgeProps {
+  dueDate: string | null
+  statusName?: string
+  className?: string
+}
+
+/**
+ * DueDateBadge Component
+ *
+ * Compact due date, highlighted when overdue or due soon.
+ * Renders nothing when the issue has no due date.
+ */
+export function DueDateBadge({ dueDate, statusName, className }: DueDateBadgeProps) {
+  if (!dueDate) return null
+
+  const state = getDueState(dueDate, statusName)
+
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-1 rounded px-1.5 py-0.5 text-xs",
+        state ? DUE_STATE_STYLES[state] : "text-muted-foreground",
+        className
+      )}
+      title={state === "overdue" ? "Overdue" : state === "due_soon" ? "Due soon" : "Due date"}
+    >
+      <CalendarClock className="h-3 w-3" />
+      {formatDueDate(dueDate)}
+    </span>
+  )
+}
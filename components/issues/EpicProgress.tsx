@@ -0,0 +1,38 @@
+import { cn } from "@/lib/utils"
+import type { IssueRollup } from "@/utils/issue-hierarchy"
+
+interface EpicProgressProps {
+  rollup: IssueRollup
+  className?: string
+}
+
+/**
+ * EpicProgress Component
+ *
+ * Stacked bar of child issue statuses with the share of finished children.
+ * Renders nothing when the epic has no children.
+ */
+export function EpicProgress({ rollup, className }: EpicProgressProps) {
+  if (rollup.total === 0) return null
+
+  return (
+    <div
+      className={cn("flex items-center gap-2 text-xs text-muted-foreground", className)}
+      title={`${rollup.done} of ${rollup.total} child issues done`}
+    >
+      <div className="flex h-1.5 flex-1 overflow-hidden rounded-full bg-muted">
+        {rollup.byStatus.map((status) => (
+          <div
+            key={status.name}
+            className="h-full transition-all duration-300"
+            style={{
+              width: `${(status.count / rollup.total) * 100}%`,
+              backgroundColor: status.color,
+            }}
+          />
+        ))}
+      </div>
+      <span>{rollup.percent}%</span>
+    </div>
+  )
+}
@@ -0,0 +1,167 @@
+"use client"
+
+import { useState } from "react"
+import Image from "next/image"
+import { format, parseISO } from "date-fns"
+import {
+  File as FileIcon,
+  FileArchive,
+  FileSpreadsheet,
+  FileText,
+  X,
+} from "lucide-react"
+import { Spinner } from "@/components/ui/spinner"
+import { AttachmentDropzone } from "./AttachmentDropzone"
+import { useAttachments } from "@/hooks/use-attachments"
+import { useToast } from "@/hooks/use-toast"
+import {
+  formatFileSize,
+  getAttachmentKind,
+  validateAttachment,
+  type AttachmentKind,
+} from "@/utils/attachments"
+import type { AttachmentWithUser } from "@/types/models"
+
+const KIND_ICONS: Record<Exclude<AttachmentKind, "image">, typeof FileIcon> = {
+  pdf: FileText,
+  spreadsheet: FileSpreadsheet,
+  archive: FileArchive,
+  text: FileText,
+  file: FileIcon,
+}
+
+interface IssueAttachmentsProps {
+  issueId: string
+  currentUserId: string
+}
+
+/**
+ * IssueAttachments Component
+ *
+ * Files attached to an issue with an upload drop zone.
+ * Images show a thumbnail; uploaders can delete their own files.
+ */
+export function IssueAttachments({ issueId, currentUserId }: IssueAttachmentsProps) {
+  const { attachments, loading, error, upload, remove } = useAttachments(issueId)
+  const { toast } = useToast()
+  const [uploading, setUploading] = useState(false)
+
+  const handleFiles = async (files: File[]) => {
+    const accepted: File[] = []
+    for (const file of files) {
+      const message = validateAttachment(file)
+      if (message) {
+        toast({ title: "업로드할 수 없는 파일", description: message, variant: "destructive" })
+      } else {
+        accepted.push(file)
+      }
+    }
+    if (accepted.length === 0) return
+
+    setUploading(true)
+    let failed = 0
+    for (const file of accepted) {
+      try {
+        await upload(currentUserId, file)
+      } catch (err) {
+        console.error("Error uploading attachment:", err)
+        failed++
+      }
+    }
+    setUploading(false)
+
+    if (failed > 0) {
+      toast({
+        title: "업로드 실패",
+        description: `${failed}개 파일을 업로드하지 못했습니다. 다시 시도해주세요.`,
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleRemove = async (attachment: AttachmentWithUser) => {
+    if (!confirm(`"${attachment.filename}" 파일을 삭제하시겠습니까?`)) return
+
+    try {
+      await remove(attachment)
+    } catch (err) {
+      console.error("Failed to delete attachment:", err)
+      toast({
+        title: "삭제 실패",
+        description: "첨부 파일을 삭제하지 못했습니다.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <AttachmentDropzone onFiles={handleFiles} uploading={uploading} />
+
+      {loading ? (
+        <Spinner size="sm" />
+      ) : error ? (
+        <p className="text-sm text-destructive">첨부 파일을 불러오지 못했습니다</p>
+      ) : attachments.length === 0 ? (
+        <p className="text-sm text-muted-foreground">첨부 파일 없음</p>
+      ) : (
+        <ul className="grid gap-3 sm:grid-cols-2">
+          {attachments.map((attachment) => {
+            const kind = getAttachmentKind(attachment.mime_type)
+            const Icon = kind === "image" ? null : KIND_ICONS[kind]
+
+            return (
+              <li
+                key={attachment.id}
+                className="group flex items-center gap-3 rounded-md border p-2"
+              >
+                <a
+                  href={attachment.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex h-12 w-12 shrink-0 items-center justify-center overflow-hidden rounded bg-muted"
+                >
+                  {Icon ? (
+                    <Icon className="h-6 w-6 text-muted-foreground" />
+                  ) : (
+                    <Image
+                      src={attachment.url}
+                      alt={attachment.filename}
+                      width={48}
+                      height={48}
+                      className="h-12 w-12 object-cover"
+                    />
+                  )}
+                </a>
+                <div className="min-w-0 flex-1 text-sm">
+                  <a
+                    href={attachment.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="block truncate font-medium hover:underline"
+                  >
+                    {attachment.filename}
+                  </a>
+                  <p className="truncate text-xs text-muted-foreground">
+                    {formatFileSize(attachment.file_size)} · {attachment.user.display_name} ·{" "}
+                    {format(parseISO(attachment.created_at), "MMM d")}
+                  </p>
+                </div>
+                {attachment.user_id === currentUserId && (
+                  <button
+                    type="button"
+                    onClick={() => handleRemove(attachment)}
+                    className="opacity-0 transition-opacity group-hover:opacity-100"
+                    aria-label="첨부 파일 삭제"
+                  >
+                    <X className="h-4 w-4 text-muted-foreground" />
+                  </button>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
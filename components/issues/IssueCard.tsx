@@ -1,7 +1,13 @@
 import Link from "next/link"
+import { Paperclip } from "lucide-react"
 import { Card } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Avatar } from "@/components/ui/avatar"
+import { DueDateBadge } from "./DueDateBadge"
+import { IssueTypeIcon } from "./IssueTypeIcon"
+import { SubtaskProgress } from "./SubtaskProgress"
+import { TimeTrackingBar } from "./TimeTrackingBar"
+import { formatIssueKey } from "@/utils/issue-key"
 import type { IssueWithDetails } from "@/types/models"
 
 interface IssueCardProps {
@@ -28,14 +34,24 @@ export function IssueCard({ issue, showProject = false }: IssueCardProps) {
         {/* Header */}
         <div className="mb-2 flex items-start justify-between">
           <div className="flex items-center gap-2">
+            <IssueTypeIcon type={issue.type} />
             <span className="text-sm font-medium text-muted-foreground">
-              {issue.project.key}-{issue.id.slice(-6).toUpperCase()}
+              {formatIssueKey(issue.project.key, issue.number)}
             </span>
             <Badge variant="outline" className={priorityColors[issue.priority]}>
               {issue.priority}
             </Badge>
           </div>
-          <Badge variant="secondary">{issue.status.name}</Badge>
+          <div className="flex items-center gap-2">
+            {!!issue.attachment_count && (
+              <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                <Paperclip className="h-3 w-3" />
+                {issue.attachment_count}
+              </span>
+            )}
+            <DueDateBadge dueDate={issue.due_date} statusName={issue.status.name} />
+            <Badge variant="secondary">{issue.status.name}</Badge>
+          </div>
         </div>
 
         {/* Title */}
@@ -48,6 +64,14 @@ export function IssueCard({ issue, showProject = false }: IssueCardProps) {
           </p>
         )}
 
+        {/* Subtasks */}
+        <SubtaskProgress subtasks={issue.subtasks} className="mb-3" />
+        <TimeTrackingBar
+          estimate={issue.original_estimate_hours}
+          worklogs={issue.worklogs}
+          className="mb-3"
+        />
+
         {/* Footer */}
         <div className="flex items-center justify-between">
           {showProject && (
@@ -0,0 +1,310 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Markdown, MarkdownWriteTabs } from "@/components/ui/markdown"
+import { Spinner } from "@/components/ui/spinner"
+import { Textarea } from "@/components/ui/textarea"
+import { CommentList } from "@/components/comments/comment-list"
+import { IssueCustomFields } from "@/components/custom-fields/IssueCustomFields"
+import { IssueLabels } from "@/components/labels/IssueLabels"
+import { ChildIssues } from "./ChildIssues"
+import { DescriptionRevisionsDialog } from "./DescriptionRevisionsDialog"
+import { IssueAttachments } from "./IssueAttachments"
+import { IssueHistory } from "./IssueHistory"
+import { IssueLinks } from "./IssueLinks"
+import { IssueSidebar } from "./IssueSidebar"
+import { IssueTypeIcon } from "./IssueTypeIcon"
+import { IssueWatchers } from "./IssueWatchers"
+import { SubtaskList } from "./SubtaskList"
+import { TimeTracking } from "./TimeTracking"
+import { useIssue } from "@/hooks/use-issues"
+import { useRecentItems } from "@/hooks/use-recent-items"
+import { useToast } from "@/hooks/use-toast"
+import { formatIssueKey } from "@/utils/issue-key"
+import { toggleTaskListItem } from "@/utils/markdown"
+
+interface IssueDetailProps {
+  issueId: string
+  currentUserId: string
+}
+
+/**
+ * IssueDetail Component
+ *
+ * Full issue view with inline editing, watchers, subtasks, attachments,
+ * comments, activity history, time tracking and the field sidebar.
+ */
+export function IssueDetail({ issueId, currentUserId }: IssueDetailProps) {
+  const { issue, loading, error, updateIssue, assignIssue } = useIssue(issueId)
+  const { toast } = useToast()
+  const [isEditing, setIsEditing] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [title, setTitle] = useState("")
+  const [description, setDescription] = useState("")
+  const { addItem: addRecentItem } = useRecentItems(currentUserId)
+
+  // Record visits and renames, not every field update
+  const visitedId = issue?.id
+  const visitedTitle = issue?.title
+  const visitedKey = issue ? formatIssueKey(issue.project.key, issue.number) : undefined
+  useEffect(() => {
+    if (!visitedId || !visitedTitle) return
+    addRecentItem({
+      type: "issue",
+      id: visitedId,
+      title: visitedTitle,
+      subtitle: visitedKey,
+      href: `/issues/${visitedId}`,
+    })
+  }, [visitedId, visitedTitle, visitedKey, addRecentItem])
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Spinner className="h-8 w-8" />
+      </div>
+    )
+  }
+
+  if (error || !issue) {
+    return (
+      <div className="py-12 text-center text-sm text-destructive">
+        이슈를 불러오지 못했습니다{error ? `: ${error.message}` : ""}
+      </div>
+    )
+  }
+
+  const reportUpdateError = (err: unknown) => {
+    console.error("Error updating issue:", err)
+    toast({
+      title: "수정 실패",
+      description: "이슈를 수정하지 못했습니다. 다시 시도해주세요.",
+      variant: "destructive",
+    })
+  }
+
+  const handleUpdate = async (updates: Parameters<typeof updateIssue>[0]) => {
+    try {
+      await updateIssue(updates)
+    } catch (err) {
+      reportUpdateError(err)
+    }
+  }
+
+  const handleAssign = async (assigneeId: string | null) => {
+    try {
+      await assignIssue(assigneeId)
+    } catch (err) {
+      reportUpdateError(err)
+    }
+  }
+
+  const startEditing = () => {
+    setTitle(issue.title)
+    setDescription(issue.description ?? "")
+    setIsEditing(true)
+  }
+
+  const handleSave = async () => {
+    if (title.trim().length < 5) {
+      toast({
+        title: "제목이 너무 짧습니다",
+        description: "제목은 최소 5자 이상이어야 합니다",
+        variant: "destructive",
+      })
+      return
+    }
+
+    // Only send what changed; watchers are told about every field sent
+    const updates: Parameters<typeof updateIssue>[0] = {}
+    if (title.trim() !== issue.title) updates.title = title.trim()
+    if ((description.trim() || null) !== issue.description) {
+      updates.description = description.trim() || null
+    }
+
+    if (Object.keys(updates).length === 0) {
+      setIsEditing(false)
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      await updateIssue(updates)
+      setIsEditing(false)
+    } catch (err) {
+      // Keep the editor open so nothing typed is lost
+      reportUpdateError(err)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="grid gap-6 md:grid-cols-3">
+      {/* Issue Detail */}
+      <div className="space-y-6 md:col-span-2">
+        <Card className="p-6">
+          <div className="mb-4 flex items-center justify-between gap-4">
+            <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+              {issue.parent && (
+                <>
+                  <Link href={`/issues/${issue.parent.id}`} className="hover:underline">
+                    {formatIssueKey(issue.project.key, issue.parent.number)}
+                  </Link>
+                  <span>/</span>
+                </>
+              )}
+              <IssueTypeIcon type={issue.type} />
+              {formatIssueKey(issue.project.key, issue.number)}
+            </div>
+            <div className="flex items-center gap-2">
+              <IssueWatchers issueId={issue.id} currentUserId={currentUserId} />
+              {!isEditing && (
+                <Button variant="outline" size="sm" onClick={startEditing}>
+                  이슈 수정
+                </Button>
+              )}
+            </div>
+          </div>
+
+          {isEditing ? (
+            <div className="space-y-4">
+              <Input
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                maxLength={200}
+                autoFocus
+              />
+              <MarkdownWriteTabs value={description}>
+                <Textarea
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  placeholder="이슈에 대한 설명을 입력하세요 (Markdown 지원)"
+                  className="min-h-[160px]"
+                />
+              </MarkdownWriteTabs>
+              <div className="flex justify-end gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => setIsEditing(false)}
+                  disabled={isSaving}
+                >
+                  취소
+                </Button>
+                <Button onClick={handleSave} disabled={isSaving}>
+                  {isSaving ? "저장 중..." : "저장"}
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <h1
+                className="cursor-text text-2xl font-bold"
+                onClick={startEditing}
+              >
+                {issue.title}
+              </h1>
+              <div className="flex justify-end">
+                <DescriptionRevisionsDialog
+                  issueId={issue.id}
+                  currentDescription={issue.description}
+                  onRestore={(description) => handleUpdate({ description })}
+                />
+              </div>
+              {issue.description ? (
+                <Markdown
+                  source={issue.description}
+                  className="cursor-text"
+                  onClick={startEditing}
+                  onTaskToggle={(index, checked) =>
+                    handleUpdate({
+                      description: toggleTaskListItem(issue.description ?? "", index, checked),
+                    })
+                  }
+                />
+              ) : (
+                <div className="cursor-text text-sm" onClick={startEditing}>
+                  <span className="text-muted-foreground">설명이 없습니다</span>
+                </div>
+              )}
+            </div>
+          )}
+        </Card>
+
+        {/* Epic children */}
+        {issue.type === "epic" && (
+          <Card className="p-6">
+            <h2 className="mb-4 text-xl font-semibold">하위 이슈</h2>
+            <ChildIssues parentId={issue.id} />
+          </Card>
+        )}
+
+        {/* Linked issues */}
+        <Card className="p-6">
+          <h2 className="mb-4 text-xl font-semibold">연결된 이슈</h2>
+          <IssueLinks
+            issueId={issue.id}
+            projectId={issue.project_id}
+            projectKey={issue.project.key}
+            currentUserId={currentUserId}
+          />
+        </Card>
+
+        <SubtaskList issueId={issue.id} currentUserId={currentUserId} />
+
+        {/* Attachments */}
+        <Card className="p-6">
+          <h2 className="mb-4 text-xl font-semibold">첨부 파일</h2>
+          <IssueAttachments issueId={issue.id} currentUserId={currentUserId} />
+        </Card>
+
+        {/* Comments */}
+        <Card className="p-6">
+          <h2 className="mb-4 text-xl font-semibold">댓글</h2>
+          <CommentList
+            issueId={issue.id}
+            currentUserId={currentUserId}
+            teamId={issue.project.team_id}
+          />
+        </Card>
+
+        <IssueHistory issueId={issue.id} />
+      </div>
+
+      {/* Sidebar */}
+      <div className="space-y-6">
+        <IssueSidebar
+          issue={issue}
+          onUpdate={handleUpdate}
+          onAssign={handleAssign}
+        />
+
+        <Card className="p-6">
+          <h3 className="mb-4 font-semibold">라벨</h3>
+          <IssueLabels issueId={issue.id} projectId={issue.project_id} />
+        </Card>
+
+        <Card className="p-6">
+          <h3 className="mb-4 font-semibold">사용자 정의 필드</h3>
+          <IssueCustomFields issueId={issue.id} projectId={issue.project_id} />
+        </Card>
+
+        <Card className="p-6">
+          <h3 className="mb-4 font-semibold">시간 추적</h3>
+          <TimeTracking
+            issueId={issue.id}
+            estimate={issue.original_estimate_hours}
+            currentUserId={currentUserId}
+            onEstimateChange={(estimate) =>
+              handleUpdate({ original_estimate_hours: estimate })
+            }
+          />
+        </Card>
+      </div>
+    </div>
+  )
+}
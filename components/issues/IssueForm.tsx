@@ -1,12 +1,13 @@
 "use client"
 
-import { useState } from "react"
+import { useMemo, useState } from "react"
 import { useForm } from "react-hook-form"
 import { zodResolver } from "@hookform/resolvers/zod"
 import { z } from "zod"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
+import { MarkdownWriteTabs } from "@/components/ui/markdown"
 import { Textarea } from "@/components/ui/textarea"
 import {
   Select,
@@ -16,24 +17,68 @@ import {
   SelectValue,
 } from "@/components/ui/select"
 import { Spinner } from "@/components/ui/spinner"
+import { Sparkles } from "lucide-react"
+import { IssueTypeIcon } from "./IssueTypeIcon"
+import { LabelChip } from "@/components/labels/LabelChip"
+import { LabelPicker } from "@/components/labels/LabelPicker"
+import { CustomFieldInput } from "@/components/custom-fields/CustomFieldInput"
+import { useAI } from "@/hooks/use-ai"
+import { useCustomFields } from "@/hooks/use-custom-fields"
+import { useProjectEpics } from "@/hooks/use-issues"
+import { useProjectLabels } from "@/hooks/use-labels"
+import { useProjectMembers } from "@/hooks/use-projects"
+import { useToast } from "@/hooks/use-toast"
+import { buildCustomValuesSchema, parseCustomFieldValue } from "@/utils/custom-fields"
+import {
+  ISSUE_TYPES,
+  ISSUE_TYPE_LABELS,
+  type CustomField,
+  type CustomFieldValue,
+  type IssueType,
+} from "@/types/models"
 
 // Issue form validation schema
-const issueSchema = z.object({
+const issueFieldsSchema = z.object({
   title: z
     .string()
     .min(5, "제목은 최소 5자 이상이어야 합니다")
     .max(200, "제목은 최대 200자까지 입력 가능합니다"),
   description: z.string().optional(),
   priority: z.enum(["low", "medium", "high", "urgent"]),
+  type: z.enum(["bug", "story", "task", "epic"]),
   assignee_id: z.string().optional(),
+  parent_id: z.string().optional(),
+  start_date: z.string().optional(),
+  due_date: z.string().optional(),
+  original_estimate_hours: z
+    .string()
+    .optional()
+    .refine((value) => !value || Number(value) >= 0, "예상 시간은 0 이상이어야 합니다"),
+  label_ids: z.array(z.string()),
 })
 
-type IssueFormData = z.infer<typeof issueSchema>
+// Custom field inputs are validated against the project's field definitions
+function createIssueSchema(customFields: CustomField[]) {
+  return issueFieldsSchema
+    .extend({ custom_values: buildCustomValuesSchema(customFields) })
+    .refine(
+      (data) => !data.start_date || !data.due_date || data.start_date <= data.due_date,
+      { message: "마감일은 시작일 이후여야 합니다", path: ["due_date"] }
+    )
+}
+
+type IssueFormData = z.infer<ReturnType<typeof createIssueSchema>>
+
+// Estimate and custom field inputs are text; they are submitted as stored values
+type IssueFormSubmitData = Omit<IssueFormData, "original_estimate_hours" | "custom_values"> & {
+  original_estimate_hours?: number
+  custom_values: Record<string, CustomFieldValue>
+}
 
 interface IssueFormProps {
   projectId: string
   statusId: string
-  onSubmit: (data: IssueFormData) => Promise<void>
+  onSubmit: (data: IssueFormSubmitData) => Promise<void>
   onCancel?: () => void
 }
 
@@ -50,6 +95,13 @@ export function IssueForm({
 }: IssueFormProps) {
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const { analyzeIssue, isLoading: isAnalyzing } = useAI()
+  const { toast } = useToast()
+  const { labels, addLabel } = useProjectLabels(projectId)
+  const { epics } = useProjectEpics(projectId)
+  const { fields: customFields } = useCustomFields(projectId)
+  const { members } = useProjectMembers(projectId)
+  const issueSchema = useMemo(() => createIssueSchema(customFields), [customFields])
 
   const {
     register,
@@ -61,17 +113,79 @@ export function IssueForm({
     resolver: zodResolver(issueSchema),
     defaultValues: {
       priority: "medium",
+      type: "task",
+      label_ids: [],
+      custom_values: {},
     },
   })
 
   const selectedPriority = watch("priority")
+  const selectedType = watch("type")
+  const selectedLabelIds = watch("label_ids")
+  const selectedParentId = watch("parent_id")
+  const customValues = watch("custom_values")
+  const title = watch("title") || ""
+
+  // Apply the AI analyzer's suggested type, priority and estimate to the form
+  const handleAnalyze = async () => {
+    try {
+      const result = await analyzeIssue({
+        title,
+        description: watch("description") || "",
+      })
+
+      if (!result) return
+
+      setValue("type", result.type)
+      // The analyzer speaks in "critical", which the schema stores as "urgent"
+      setValue("priority", result.priority === "critical" ? "urgent" : result.priority)
+      setValue("original_estimate_hours", String(result.estimated_hours))
+
+      // Select suggested labels that already exist in the project catalog
+      const suggested = result.labels.map((name) => name.toLowerCase())
+      const matchedIds = labels
+        .filter((label) => suggested.includes(label.name.toLowerCase()))
+        .map((label) => label.id)
+      setValue("label_ids", Array.from(new Set([...selectedLabelIds, ...matchedIds])))
+
+      toast({
+        title: "AI 분석 완료",
+        description: result.reasoning,
+      })
+    } catch (err) {
+      console.error("Issue analysis error:", err)
+      toast({
+        title: "AI 분석 실패",
+        description: "이슈를 분석하지 못했습니다. 다시 시도해주세요.",
+        variant: "destructive",
+      })
+    }
+  }
 
   const handleFormSubmit = async (formData: IssueFormData) => {
     setIsLoading(true)
     setError(null)
 
     try {
-      await onSubmit(formData)
+      await onSubmit({
+        ...formData,
+        // Epics sit at the top of the hierarchy
+        parent_id: formData.type === "epic" ? undefined : formData.parent_id,
+        // Cleared date inputs submit empty strings
+        start_date: formData.start_date || undefined,
+        due_date: formData.due_date || undefined,
+        original_estimate_hours: formData.original_estimate_hours
+          ? Number(formData.original_estimate_hours)
+          : undefined,
+        custom_values: Object.fromEntries(
+          customFields
+            .map((field) => [
+              field.id,
+              parseCustomFieldValue(field, formData.custom_values[field.id] ?? ""),
+            ])
+            .filter(([, value]) => value !== null)
+        ),
+      })
     } catch (err) {
       console.error("Issue form submission error:", err)
       setError(
@@ -109,13 +223,15 @@ export function IssueForm({
       {/* Description */}
       <div className="space-y-2">
         <Label htmlFor="description">설명</Label>
-        <Textarea
-          id="description"
-          placeholder="이슈에 대한 자세한 설명을 입력하세요"
-          rows={6}
-          disabled={isLoading}
-          {...register("description")}
-        />
+        <MarkdownWriteTabs value={watch("description") || ""}>
+          <Textarea
+            id="description"
+            placeholder="이슈에 대한 자세한 설명을 입력하세요 (Markdown 지원)"
+            rows={6}
+            disabled={isLoading}
+            {...register("description")}
+          />
+        </MarkdownWriteTabs>
         {errors.description && (
           <p className="text-sm text-destructive">
             {errors.description.message}
@@ -123,6 +239,48 @@ export function IssueForm({
         )}
       </div>
 
+      {/* Type */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="type">
+            유형 <span className="text-destructive">*</span>
+          </Label>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={handleAnalyze}
+            disabled={isLoading || isAnalyzing || !title.trim()}
+            className="gap-2"
+          >
+            <Sparkles className="h-4 w-4" />
+            {isAnalyzing ? "분석 중..." : "AI 추천"}
+          </Button>
+        </div>
+        <Select
+          value={selectedType}
+          onValueChange={(value) => setValue("type", value as IssueType)}
+          disabled={isLoading}
+        >
+          <SelectTrigger id="type">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ISSUE_TYPES.map((type) => (
+              <SelectItem key={type} value={type}>
+                <div className="flex items-center gap-2">
+                  <IssueTypeIcon type={type} />
+                  {ISSUE_TYPE_LABELS[type]}
+                </div>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {errors.type && (
+          <p className="text-sm text-destructive">{errors.type.message}</p>
+        )}
+      </div>
+
       {/* Priority */}
       <div className="space-y-2">
         <Label htmlFor="priority">
@@ -150,6 +308,132 @@ export function IssueForm({
         )}
       </div>
 
+      {/* Dates */}
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="start_date">시작일</Label>
+          <Input
+            id="start_date"
+            type="date"
+            disabled={isLoading}
+            {...register("start_date")}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="due_date">마감일</Label>
+          <Input
+            id="due_date"
+            type="date"
+            disabled={isLoading}
+            {...register("due_date")}
+          />
+          {errors.due_date && (
+            <p className="text-sm text-destructive">{errors.due_date.message}</p>
+          )}
+        </div>
+      </div>
+
+      {/* Original estimate */}
+      <div className="space-y-2">
+        <Label htmlFor="original_estimate_hours">최초 예상 (시간)</Label>
+        <Input
+          id="original_estimate_hours"
+          type="number"
+          min={0}
+          step={0.5}
+          placeholder="예: 4"
+          disabled={isLoading}
+          {...register("original_estimate_hours")}
+        />
+        {errors.original_estimate_hours && (
+          <p className="text-sm text-destructive">
+            {errors.original_estimate_hours.message}
+          </p>
+        )}
+      </div>
+
+      {/* Parent epic */}
+      {selectedType !== "epic" && (
+        <div className="space-y-2">
+          <Label htmlFor="parent_id">상위 에픽</Label>
+          <Select
+            value={selectedParentId ?? "none"}
+            onValueChange={(value) =>
+              setValue("parent_id", value === "none" ? undefined : value)
+            }
+            disabled={isLoading}
+          >
+            <SelectTrigger id="parent_id">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">에픽 없음</SelectItem>
+              {epics.map((epic) => (
+                <SelectItem key={epic.id} value={epic.id}>
+                  <div className="flex items-center gap-2">
+                    <IssueTypeIcon type="epic" />
+                    {epic.title}
+                  </div>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {/* Labels */}
+      <div className="space-y-2">
+        <Label>라벨</Label>
+        <div className="flex flex-wrap items-center gap-2">
+          {labels
+            .filter((label) => selectedLabelIds.includes(label.id))
+            .map((label) => (
+              <LabelChip
+                key={label.id}
+                label={label}
+                onRemove={() =>
+                  setValue(
+                    "label_ids",
+                    selectedLabelIds.filter((id) => id !== label.id)
+                  )
+                }
+              />
+            ))}
+          <LabelPicker
+            labels={labels}
+            selectedIds={selectedLabelIds}
+            onChange={(labelIds) => setValue("label_ids", labelIds)}
+            onCreate={addLabel}
+            disabled={isLoading}
+          />
+        </div>
+      </div>
+
+      {/* Custom fields */}
+      {customFields.map((field) => (
+        <div key={field.id} className="space-y-2">
+          <Label htmlFor={`custom_values.${field.id}`}>
+            {field.name}
+            {field.required && <span className="text-destructive"> *</span>}
+          </Label>
+          <CustomFieldInput
+            id={`custom_values.${field.id}`}
+            field={field}
+            members={members}
+            value={customValues?.[field.id] ?? ""}
+            onChange={(value) =>
+              setValue(`custom_values.${field.id}`, value, { shouldValidate: true })
+            }
+            disabled={isLoading}
+          />
+          {errors.custom_values?.[field.id] && (
+            <p className="text-sm text-destructive">
+              {errors.custom_values[field.id]?.message}
+            </p>
+          )}
+        </div>
+      ))}
+
       {/* Form Actions */}
       <div className="flex justify-end gap-3">
         {onCancel && (
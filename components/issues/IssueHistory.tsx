@@ -13,12 +13,27 @@
 
 import React, { useEffect, useState } from "react"
 import { formatDistanceToNow } from "date-fns"
+import type { RealtimePostgresInsertPayload } from "@supabase/supabase-js"
 import { Card } from "@/components/ui/card"
 import { Avatar } from "@/components/ui/avatar"
 import { Badge } from "@/components/ui/badge"
 import { Spinner } from "@/components/ui/spinner"
+import { Button } from "@/components/ui/button"
 import { createClient } from "@/lib/supabase/client"
-import { PRIORITY_LABELS } from "@/types/models"
+import { getIssueEvents } from "@/utils/supabase/queries"
+import {
+  createRealtimeChannel,
+  subscribeToChanges,
+  cleanupChannel,
+} from "@/utils/supabase/realtime"
+import { formatIssueKey } from "@/utils/issue-key"
+import { deserializeMentions } from "@/utils/mentions"
+import {
+  PRIORITY_LABELS,
+  type IssueEvent,
+  type IssueEventWithActor,
+  type Priority,
+} from "@/types/models"
 
 interface HistoryEntry {
   id: string
@@ -39,12 +54,92 @@ interface IssueHistoryProps {
   issueId: string
 }
 
+const EVENTS_PAGE_SIZE = 20
+
+const SYSTEM_USER: HistoryEntry["user"] = {
+  id: "system",
+  display_name: "System",
+  avatar_url: null,
+}
+
+const EVENT_ENTRY_TYPES = {
+  status: "status_change",
+  assignee: "assignee_change",
+  priority: "priority_change",
+} as const
+
+/**
+ * Turns raw issue events into timeline entries, resolving
+ * status and user IDs to display names
+ */
+async function resolveEventEntries(
+  events: IssueEventWithActor[]
+): Promise<HistoryEntry[]> {
+  const supabase = createClient()
+
+  const idsFor = (field: IssueEventWithActor["field"]) => [
+    ...new Set(
+      events
+        .filter((event) => event.field === field)
+        .flatMap((event) => [event.old_value, event.new_value])
+        .filter((value): value is string => !!value)
+    ),
+  ]
+
+  const statusIds = idsFor("status")
+  const userIds = idsFor("assignee")
+
+  const [{ data: statuses }, { data: users }] = await Promise.all([
+    statusIds.length > 0
+      ? supabase.from("statuses").select("id, name").in("id", statusIds)
+      : Promise.resolve({ data: [] as { id: string; name: string }[] }),
+    userIds.length > 0
+      ? supabase.from("users").select("id, display_name").in("id", userIds)
+      : Promise.resolve({ data: [] as { id: string; display_name: string }[] }),
+  ])
+
+  const statusNames = new Map(statuses?.map((status) => [status.id, status.name]))
+  const userNames = new Map(users?.map((user) => [user.id, user.display_name]))
+
+  const displayValue = (
+    field: IssueEventWithActor["field"],
+    value: string | null
+  ) => {
+    if (!value) return undefined
+    switch (field) {
+      case "status":
+        return statusNames.get(value) ?? "Unknown status"
+      case "assignee":
+        return userNames.get(value) ?? "Unknown user"
+      case "priority":
+        return PRIORITY_LABELS[value as Priority] ?? value
+    }
+  }
+
+  return events.map((event) => ({
+    id: event.id,
+    type: EVENT_ENTRY_TYPES[event.field],
+    user: event.actor ?? SYSTEM_USER,
+    timestamp: event.created_at,
+    old_value: displayValue(event.field, event.old_value),
+    new_value: displayValue(event.field, event.new_value),
+  }))
+}
+
+const byTimestamp = (a: HistoryEntry, b: HistoryEntry) =>
+  new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+
 export function IssueHistory({ issueId }: IssueHistoryProps) {
   const [history, setHistory] = useState<HistoryEntry[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<Error | null>(null)
+  const [eventsPage, setEventsPage] = useState(0)
+  const [hasMoreEvents, setHasMoreEvents] = useState(false)
+  const [loadingMore, setLoadingMore] = useState(false)
 
   useEffect(() => {
+    const supabase = createClient()
+
     async function fetchHistory() {
       try {
         setLoading(true)
@@ -55,7 +150,11 @@ export function IssueHistory({ issueId }: IssueHistoryProps) {
           .from("issues")
           .select(
             `
+            number,
             created_at,
+            project:projects (
+              key
+            ),
             reporter:users!issues_reporter_id_fkey (
               id,
               display_name,
@@ -64,7 +163,12 @@ export function IssueHistory({ issueId }: IssueHistoryProps) {
           `
           )
           .eq("id", issueId)
-          .single()
+          .single<{
+            number: number
+            created_at: string
+            project: { key: string }
+            reporter: HistoryEntry["user"]
+          }>()
 
         // Fetch comments
         const { data: comments } = await supabase
@@ -102,6 +206,15 @@ export function IssueHistory({ issueId }: IssueHistoryProps) {
           .eq("issue_id", issueId)
           .order("created_at", { ascending: true })
 
+        // Fetch the most recent field changes
+        const {
+          data: events,
+          count,
+          error: eventsError,
+        } = await getIssueEvents(issueId, 0, EVENTS_PAGE_SIZE)
+
+        if (eventsError) throw eventsError
+
         // Build timeline
         const timeline: HistoryEntry[] = []
 
@@ -110,8 +223,11 @@ export function IssueHistory({ issueId }: IssueHistoryProps) {
           timeline.push({
             id: "created",
             type: "created",
-            user: issue.reporter as any,
+            user: issue.reporter,
             timestamp: issue.created_at,
+            metadata: {
+              issue_key: formatIssueKey(issue.project.key, issue.number),
+            },
           })
         }
 
@@ -122,7 +238,7 @@ export function IssueHistory({ issueId }: IssueHistoryProps) {
             type: "comment",
             user: comment.user,
             timestamp: comment.created_at,
-            content: comment.content,
+            content: deserializeMentions(comment.content).text,
           })
         })
 
@@ -137,13 +253,15 @@ export function IssueHistory({ issueId }: IssueHistoryProps) {
           })
         })
 
+        // Add field changes
+        timeline.push(...(await resolveEventEntries(events)))
+
         // Sort by timestamp
-        timeline.sort(
-          (a, b) =>
-            new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-        )
+        timeline.sort(byTimestamp)
 
         setHistory(timeline)
+        setEventsPage(1)
+        setHasMoreEvents(count > EVENTS_PAGE_SIZE)
       } catch (err) {
         setError(err as Error)
       } finally {
@@ -152,8 +270,79 @@ export function IssueHistory({ issueId }: IssueHistoryProps) {
     }
 
     fetchHistory()
+
+    // Subscribe to new field changes
+    const channel = createRealtimeChannel(supabase, `issue_events:issue_id=eq.${issueId}`)
+
+    subscribeToChanges(
+      channel,
+      {
+        schema: "public",
+        table: "issue_events",
+        filter: `issue_id=eq.${issueId}`,
+        event: "INSERT",
+      },
+      async (payload: RealtimePostgresInsertPayload<IssueEvent>) => {
+        // Fetch the event with its actor
+        const { data: event } = await supabase
+          .from("issue_events")
+          .select(
+            `
+            *,
+            actor:users (
+              id,
+              display_name,
+              avatar_url
+            )
+          `
+          )
+          .eq("id", payload.new.id)
+          .single()
+
+        if (!event) return
+
+        const [entry] = await resolveEventEntries([event as IssueEventWithActor])
+        setHistory((prev) =>
+          prev.some((e) => e.id === entry.id) ? prev : [...prev, entry].sort(byTimestamp)
+        )
+      }
+    )
+
+    channel.subscribe()
+
+    return () => {
+      cleanupChannel(supabase, channel)
+    }
   }, [issueId])
 
+  const loadMoreEvents = async () => {
+    try {
+      setLoadingMore(true)
+
+      const { data: events, count, error } = await getIssueEvents(
+        issueId,
+        eventsPage,
+        EVENTS_PAGE_SIZE
+      )
+
+      if (error) throw error
+
+      const entries = await resolveEventEntries(events)
+      setHistory((prev) =>
+        [
+          ...prev,
+          ...entries.filter((entry) => !prev.some((e) => e.id === entry.id)),
+        ].sort(byTimestamp)
+      )
+      setEventsPage((page) => page + 1)
+      setHasMoreEvents(count > (eventsPage + 1) * EVENTS_PAGE_SIZE)
+    } catch (err) {
+      console.error("Error loading issue events:", err)
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
   const getActivityIcon = (type: HistoryEntry["type"]) => {
     switch (type) {
       case "created":
@@ -281,7 +470,8 @@ export function IssueHistory({ issueId }: IssueHistoryProps) {
         return (
           <div>
             <span className="font-medium">{entry.user.display_name}</span>{" "}
-            <span className="text-gray-600">created this issue</span>
+            <span className="text-gray-600">created</span>{" "}
+            <Badge variant="outline">{entry.metadata?.issue_key}</Badge>
           </div>
         )
       case "status_change":
@@ -366,6 +556,19 @@ export function IssueHistory({ issueId }: IssueHistoryProps) {
     <Card className="p-6">
       <h3 className="text-lg font-semibold text-gray-900 mb-4">Activity</h3>
 
+      {hasMoreEvents && (
+        <div className="mb-4 flex justify-center">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={loadMoreEvents}
+            disabled={loadingMore}
+          >
+            {loadingMore ? "Loading..." : "Load older changes"}
+          </Button>
+        </div>
+      )}
+
       <div className="space-y-4">
         {history.map((entry, index) => (
           <div key={entry.id} className="flex gap-3">
@@ -0,0 +1,142 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Link2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Spinner } from "@/components/ui/spinner"
+import { searchIssues } from "@/utils/supabase/queries"
+import { formatIssueKey } from "@/utils/issue-key"
+import {
+  ISSUE_LINK_KINDS,
+  ISSUE_LINK_KIND_LABELS,
+  type Issue,
+  type IssueLinkKind,
+} from "@/types/models"
+
+type SearchResult = Pick<Issue, "id" | "number" | "title">
+
+interface IssueLinkPickerProps {
+  projectId: string
+  projectKey: string
+  excludeIds: string[]
+  onSelect: (kind: IssueLinkKind, issueId: string) => Promise<void>
+}
+
+const SEARCH_DEBOUNCE_MS = 300
+
+/**
+ * IssueLinkPicker Component
+ *
+ * Popover for choosing a link kind and searching the project
+ * for the issue to link.
+ */
+export function IssueLinkPicker({
+  projectId,
+  projectKey,
+  excludeIds,
+  onSelect,
+}: IssueLinkPickerProps) {
+  const [open, setOpen] = useState(false)
+  const [kind, setKind] = useState<IssueLinkKind>("relates_to")
+  const [search, setSearch] = useState("")
+  const [results, setResults] = useState<SearchResult[]>([])
+  const [searching, setSearching] = useState(false)
+
+  useEffect(() => {
+    const query = search.trim()
+    if (!query) {
+      setResults([])
+      return
+    }
+
+    const timeout = setTimeout(async () => {
+      setSearching(true)
+      const { data } = await searchIssues(projectId, query)
+      setResults((data || []) as SearchResult[])
+      setSearching(false)
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => clearTimeout(timeout)
+  }, [projectId, search])
+
+  const handleSelect = async (issueId: string) => {
+    try {
+      await onSelect(kind, issueId)
+      setSearch("")
+      setOpen(false)
+    } catch (error) {
+      console.error("Failed to link issue:", error)
+    }
+  }
+
+  const visibleResults = results.filter((issue) => !excludeIds.includes(issue.id))
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" size="sm" className="gap-2">
+          <Link2 className="h-4 w-4" />
+          이슈 연결
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-2 p-2" align="start">
+        <Select value={kind} onValueChange={(value) => setKind(value as IssueLinkKind)}>
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ISSUE_LINK_KINDS.map((linkKind) => (
+              <SelectItem key={linkKind} value={linkKind}>
+                {ISSUE_LINK_KIND_LABELS[linkKind]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Input
+          placeholder="이슈 검색..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="h-8"
+        />
+
+        <div className="max-h-60 space-y-1 overflow-y-auto">
+          {searching ? (
+            <div className="flex justify-center py-4">
+              <Spinner size="sm" />
+            </div>
+          ) : (
+            visibleResults.map((issue) => (
+              <button
+                key={issue.id}
+                type="button"
+                onClick={() => handleSelect(issue.id)}
+                className="flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-sm hover:bg-muted"
+              >
+                <span className="text-xs font-medium text-muted-foreground">
+                  {formatIssueKey(projectKey, issue.number)}
+                </span>
+                <span className="flex-1 truncate text-left">{issue.title}</span>
+              </button>
+            ))
+          )}
+
+          {!searching && search.trim() && visibleResults.length === 0 && (
+            <p className="px-2 py-4 text-center text-sm text-muted-foreground">
+              검색 결과가 없습니다
+            </p>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
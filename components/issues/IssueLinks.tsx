@@ -0,0 +1,112 @@
+"use client"
+
+import Link from "next/link"
+import { X } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Spinner } from "@/components/ui/spinner"
+import { IssueLinkPicker } from "./IssueLinkPicker"
+import { useIssueLinks } from "@/hooks/use-issue-links"
+import { formatIssueKey } from "@/utils/issue-key"
+import { describeLink } from "@/utils/issue-links"
+import { ISSUE_LINK_KINDS, ISSUE_LINK_KIND_LABELS } from "@/types/models"
+
+interface IssueLinksProps {
+  issueId: string
+  projectId: string
+  projectKey: string
+  currentUserId: string
+}
+
+/**
+ * IssueLinks Component
+ *
+ * Lists an issue's linked issues grouped by link kind
+ * and lets members add or remove links.
+ */
+export function IssueLinks({
+  issueId,
+  projectId,
+  projectKey,
+  currentUserId,
+}: IssueLinksProps) {
+  const { links, loading, error, addLink, removeLink } = useIssueLinks(issueId)
+
+  const handleRemove = async (linkId: string) => {
+    try {
+      await removeLink(linkId)
+    } catch (err) {
+      console.error("Failed to remove issue link:", err)
+    }
+  }
+
+  if (loading) {
+    return <Spinner size="sm" />
+  }
+
+  if (error) {
+    return <p className="text-sm text-destructive">연결된 이슈를 불러오지 못했습니다</p>
+  }
+
+  const described = links.map((link) => ({ link, ...describeLink(link, issueId) }))
+  const linkedIds = [issueId, ...described.map(({ issue }) => issue.id)]
+
+  return (
+    <div className="space-y-4">
+      {ISSUE_LINK_KINDS.map((kind) => {
+        const group = described.filter((entry) => entry.kind === kind)
+        if (group.length === 0) return null
+
+        return (
+          <div key={kind} className="space-y-1">
+            <h4 className="text-xs font-medium uppercase text-muted-foreground">
+              {ISSUE_LINK_KIND_LABELS[kind]}
+            </h4>
+            {group.map(({ link, issue }) => (
+              <div
+                key={link.id}
+                className="group flex items-center gap-2 rounded-md px-2 py-1.5 text-sm hover:bg-muted"
+              >
+                <Link
+                  href={`/issues/${issue.id}`}
+                  className="flex min-w-0 flex-1 items-center gap-2"
+                >
+                  <span className="text-xs font-medium text-muted-foreground">
+                    {formatIssueKey(issue.project.key, issue.number)}
+                  </span>
+                  <span className="truncate">{issue.title}</span>
+                </Link>
+                <Badge
+                  variant="outline"
+                  style={{ borderColor: issue.status.color, color: issue.status.color }}
+                >
+                  {issue.status.name}
+                </Badge>
+                <button
+                  type="button"
+                  onClick={() => handleRemove(link.id)}
+                  className="opacity-0 transition-opacity group-hover:opacity-100"
+                  aria-label="연결 해제"
+                >
+                  <X className="h-4 w-4 text-muted-foreground" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )
+      })}
+
+      {links.length === 0 && (
+        <p className="text-sm text-muted-foreground">연결된 이슈 없음</p>
+      )}
+
+      <IssueLinkPicker
+        projectId={projectId}
+        projectKey={projectKey}
+        excludeIds={linkedIds}
+        onSelect={async (kind, otherIssueId) => {
+          await addLink(kind, otherIssueId, currentUserId)
+        }}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,210 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { Search, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Popover, PopoverAnchor, PopoverContent } from "@/components/ui/popover"
+import { cn } from "@/lib/utils"
+import {
+  getIssueQuerySuggestions,
+  runIssueQuery,
+  type CompiledIssueQuery,
+  type IssueQueryContext,
+  type IssueQueryError,
+} from "@/utils/issue-query"
+
+interface IssueQueryBarProps {
+  context: IssueQueryContext
+  /**
+   * Called with the compiled query and its text when Enter is pressed
+   */
+  onApply: (result: CompiledIssueQuery, query: string) => void
+  defaultValue?: string
+  className?: string
+}
+
+/**
+ * IssueQueryBar Component
+ *
+ * Input for issue queries such as `assignee = me AND status != Done`, with
+ * autocomplete of fields, operators and values. Enter applies the query;
+ * errors are shown under the input and their range is selected.
+ */
+export function IssueQueryBar({
+  context,
+  onApply,
+  defaultValue = "",
+  className,
+}: IssueQueryBarProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [value, setValue] = useState(defaultValue)
+  const [caret, setCaret] = useState<number | null>(null)
+  const [activeIndex, setActiveIndex] = useState(0)
+  const [error, setError] = useState<IssueQueryError | null>(null)
+
+  const suggestions =
+    caret === null ? null : getIssueQuerySuggestions(value, caret, context)
+  const isOpen = !!suggestions && suggestions.items.length > 0
+
+  const updateCaret = (input: HTMLInputElement) => {
+    setCaret(input.selectionStart ?? input.value.length)
+    setActiveIndex(0)
+  }
+
+  const apply = (query: string) => {
+    const { data, error: queryError } = runIssueQuery(query, context)
+    setCaret(null)
+
+    if (queryError) {
+      setError(queryError)
+      requestAnimationFrame(() => {
+        inputRef.current?.focus()
+        inputRef.current?.setSelectionRange(queryError.start, queryError.end)
+      })
+      return
+    }
+
+    setError(null)
+    onApply(data, query.trim())
+  }
+
+  const selectSuggestion = (index: number) => {
+    if (!suggestions) return
+
+    const { from, to, items } = suggestions
+    const next = value.slice(0, from) + items[index].insertText + value.slice(to)
+    const nextCaret = from + items[index].insertText.length
+
+    setValue(next)
+    setCaret(nextCaret)
+    setActiveIndex(0)
+    setError(null)
+
+    requestAnimationFrame(() => {
+      inputRef.current?.focus()
+      inputRef.current?.setSelectionRange(nextCaret, nextCaret)
+    })
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (isOpen) {
+      const count = suggestions.items.length
+      if (e.key === "ArrowDown") {
+        e.preventDefault()
+        setActiveIndex((index) => (index + 1) % count)
+        return
+      }
+      if (e.key === "ArrowUp") {
+        e.preventDefault()
+        setActiveIndex((index) => (index - 1 + count) % count)
+        return
+      }
+      if (e.key === "Tab") {
+        e.preventDefault()
+        selectSuggestion(activeIndex)
+        return
+      }
+      if (e.key === "Escape") {
+        e.preventDefault()
+        setCaret(null)
+        return
+      }
+    }
+
+    // Enter always runs the query; Tab picks a suggestion
+    if (e.key === "Enter") {
+      e.preventDefault()
+      apply(value)
+    }
+  }
+
+  const handleClear = () => {
+    setValue("")
+    apply("")
+  }
+
+  return (
+    <div className={cn("space-y-1", className)}>
+      <Popover open={isOpen} onOpenChange={(open) => !open && setCaret(null)}>
+        <PopoverAnchor asChild>
+          <div className="relative">
+            <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              ref={inputRef}
+              value={value}
+              onChange={(e) => {
+                setValue(e.target.value)
+                setError(null)
+                updateCaret(e.target)
+              }}
+              onKeyDown={handleKeyDown}
+              onClick={(e) => updateCaret(e.currentTarget)}
+              onFocus={(e) => updateCaret(e.currentTarget)}
+              onBlur={() => setCaret(null)}
+              placeholder="assignee = me AND status != Done ORDER BY updated DESC"
+              aria-invalid={!!error}
+              aria-describedby={error ? "issue-query-error" : undefined}
+              className={cn(
+                "pl-8 pr-8 font-mono",
+                error && "border-destructive focus-visible:ring-destructive"
+              )}
+              spellCheck={false}
+              autoComplete="off"
+            />
+            {value && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="absolute right-0.5 top-0.5 h-8 w-8"
+                onClick={handleClear}
+              >
+                <X className="h-4 w-4" />
+                <span className="sr-only">검색어 지우기</span>
+              </Button>
+            )}
+          </div>
+        </PopoverAnchor>
+        <PopoverContent
+          align="start"
+          className="w-64 p-1"
+          onOpenAutoFocus={(e) => e.preventDefault()}
+        >
+          <ul role="listbox" aria-label="검색어 추천">
+            {suggestions?.items.map((item, index) => (
+              <li
+                key={`${item.label}-${item.detail ?? ""}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                onMouseDown={(e) => {
+                  // Keep focus in the input
+                  e.preventDefault()
+                  selectSuggestion(index)
+                }}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={cn(
+                  "flex cursor-pointer items-center justify-between gap-2 rounded-sm px-2 py-1.5 font-mono text-sm",
+                  index === activeIndex && "bg-accent text-accent-foreground"
+                )}
+              >
+                <span className="truncate">{item.label}</span>
+                {item.detail && (
+                  <span className="shrink-0 font-sans text-xs text-muted-foreground">
+                    {item.detail}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </PopoverContent>
+      </Popover>
+
+      {error && (
+        <p id="issue-query-error" className="text-xs text-destructive">
+          {error.message} ({error.start + 1}번째 글자)
+        </p>
+      )}
+    </div>
+  )
+}
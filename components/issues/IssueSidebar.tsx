@@ -0,0 +1,250 @@
+"use client"
+
+import { format } from "date-fns"
+import { Card } from "@/components/ui/card"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { IssueTypeIcon } from "./IssueTypeIcon"
+import { DueDateBadge } from "./DueDateBadge"
+import { formatIssueKey } from "@/utils/issue-key"
+import { useProjectEpics } from "@/hooks/use-issues"
+import { useProjectStatuses } from "@/hooks/use-projects"
+import { useTeamMembers } from "@/hooks/use-teams"
+import {
+  ISSUE_TYPES,
+  ISSUE_TYPE_LABELS,
+  PRIORITIES,
+  PRIORITY_LABELS,
+  type IssueType,
+  type Priority,
+} from "@/types/models"
+import type { Tables } from "@/types/database.types"
+
+type Issue = Tables<"issues"> & {
+  reporter: Pick<Tables<"users">, "id" | "display_name" | "avatar_url">
+  project: Pick<Tables<"projects">, "id" | "key" | "team_id">
+}
+
+type IssueUpdates = Partial<
+  Pick<
+    Tables<"issues">,
+    | "status_id"
+    | "priority"
+    | "type"
+    | "parent_id"
+    | "start_date"
+    | "due_date"
+  >
+>
+
+interface IssueSidebarProps {
+  issue: Issue
+  onUpdate: (updates: IssueUpdates) => Promise<void>
+  onAssign: (assigneeId: string | null) => Promise<void>
+}
+
+const UNASSIGNED = "unassigned"
+const NO_PARENT = "none"
+
+/**
+ * IssueSidebar Component
+ *
+ * Editable issue fields (status, priority, type, assignee, parent epic,
+ * start and due dates)
+ * plus reporter and timestamps.
+ */
+export function IssueSidebar({ issue, onUpdate, onAssign }: IssueSidebarProps) {
+  const { statuses } = useProjectStatuses(issue.project_id)
+  const { members } = useTeamMembers(issue.project.team_id)
+  const { epics } = useProjectEpics(issue.project_id)
+
+  return (
+    <Card className="p-6">
+      <h3 className="mb-4 font-semibold">상세 정보</h3>
+
+      <dl className="space-y-4 text-sm">
+        <div className="space-y-1">
+          <dt className="text-muted-foreground">상태</dt>
+          <dd>
+            <Select
+              value={issue.status_id}
+              onValueChange={(value) => onUpdate({ status_id: value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {statuses.map((status) => (
+                  <SelectItem key={status.id} value={status.id}>
+                    <div className="flex items-center gap-2">
+                      <span
+                        className="h-3 w-3 rounded-full"
+                        style={{ backgroundColor: status.color }}
+                      />
+                      {status.name}
+                    </div>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </dd>
+        </div>
+
+        <div className="space-y-1">
+          <dt className="text-muted-foreground">우선순위</dt>
+          <dd>
+            <Select
+              value={issue.priority}
+              onValueChange={(value) => onUpdate({ priority: value as Priority })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PRIORITIES.map((priority) => (
+                  <SelectItem key={priority} value={priority}>
+                    {PRIORITY_LABELS[priority]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </dd>
+        </div>
+
+        <div className="space-y-1">
+          <dt className="text-muted-foreground">유형</dt>
+          <dd>
+            <Select
+              value={issue.type}
+              onValueChange={(value) => onUpdate({ type: value as IssueType })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ISSUE_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    <div className="flex items-center gap-2">
+                      <IssueTypeIcon type={type} />
+                      {ISSUE_TYPE_LABELS[type]}
+                    </div>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </dd>
+        </div>
+
+        <div className="space-y-1">
+          <dt className="text-muted-foreground">담당자</dt>
+          <dd>
+            <Select
+              value={issue.assignee_id ?? UNASSIGNED}
+              onValueChange={(value) =>
+                onAssign(value === UNASSIGNED ? null : value)
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNASSIGNED}>담당자 없음</SelectItem>
+                {members.map((member) => (
+                  <SelectItem key={member.user.id} value={member.user.id}>
+                    {member.user.display_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </dd>
+        </div>
+
+        {issue.type !== "epic" && (
+          <div className="space-y-1">
+            <dt className="text-muted-foreground">상위 에픽</dt>
+            <dd>
+              <Select
+                value={issue.parent_id ?? NO_PARENT}
+                onValueChange={(value) =>
+                  onUpdate({ parent_id: value === NO_PARENT ? null : value })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_PARENT}>에픽 없음</SelectItem>
+                  {epics.map((epic) => (
+                    <SelectItem key={epic.id} value={epic.id}>
+                      {formatIssueKey(issue.project.key, epic.number)} {epic.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </dd>
+          </div>
+        )}
+
+        <div className="space-y-1">
+          <dt className="text-muted-foreground">시작일</dt>
+          <dd>
+            <Input
+              type="date"
+              value={issue.start_date ?? ""}
+              max={issue.due_date ?? undefined}
+              onChange={(e) => onUpdate({ start_date: e.target.value || null })}
+            />
+          </dd>
+        </div>
+
+        <div className="space-y-1">
+          <dt className="flex items-center justify-between text-muted-foreground">
+            마감일
+            <DueDateBadge
+              dueDate={issue.due_date}
+              statusName={statuses.find((status) => status.id === issue.status_id)?.name}
+            />
+          </dt>
+          <dd>
+            <Input
+              type="date"
+              value={issue.due_date ?? ""}
+              min={issue.start_date ?? undefined}
+              onChange={(e) => onUpdate({ due_date: e.target.value || null })}
+            />
+          </dd>
+        </div>
+
+        <div className="space-y-1">
+          <dt className="text-muted-foreground">보고자</dt>
+          <dd className="flex items-center gap-2">
+            <Avatar className="h-6 w-6">
+              <AvatarImage src={issue.reporter.avatar_url || undefined} />
+              <AvatarFallback className="text-xs">
+                {issue.reporter.display_name.charAt(0).toUpperCase()}
+              </AvatarFallback>
+            </Avatar>
+            <span>{issue.reporter.display_name}</span>
+          </dd>
+        </div>
+
+        <div className="space-y-1">
+          <dt className="text-muted-foreground">생성일</dt>
+          <dd>{format(new Date(issue.created_at), "yyyy-MM-dd HH:mm")}</dd>
+        </div>
+
+        <div className="space-y-1">
+          <dt className="text-muted-foreground">수정일</dt>
+          <dd>{format(new Date(issue.updated_at), "yyyy-MM-dd HH:mm")}</dd>
+        </div>
+      </dl>
+    </Card>
+  )
+}
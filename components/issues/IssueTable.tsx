@@ -0,0 +1,146 @@
+"use client"
+
+import { format, parseISO } from "date-fns"
+import { ArrowDown, ArrowUp } from "lucide-react"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Badge } from "@/components/ui/badge"
+import { DueDateBadge } from "./DueDateBadge"
+import { IssueTypeIcon } from "./IssueTypeIcon"
+import { formatIssueKey } from "@/utils/issue-key"
+import {
+  PRIORITY_COLORS,
+  PRIORITY_LABELS,
+  type IssueSortOptions,
+} from "@/types/models"
+import type { Tables } from "@/types/database.types"
+
+type Issue = Pick<
+  Tables<"issues">,
+  "id" | "number" | "title" | "type" | "priority" | "due_date" | "updated_at"
+> & {
+  status: Pick<Tables<"statuses">, "name" | "color">
+  assignee: Pick<Tables<"users">, "id" | "display_name" | "avatar_url"> | null
+  project?: Pick<Tables<"projects">, "key">
+}
+
+interface IssueTableProps<T extends Issue> {
+  /**
+   * Issues in display order
+   */
+  issues: T[]
+  sort: IssueSortOptions
+  onSortChange: (sort: IssueSortOptions) => void
+  onIssueClick: (issue: T) => void
+}
+
+/**
+ * IssueTable Component
+ *
+ * List layout of the project board. Clicking a sortable column header
+ * sorts by it, clicking again flips the direction.
+ */
+export function IssueTable<T extends Issue>({
+  issues,
+  sort,
+  onSortChange,
+  onIssueClick,
+}: IssueTableProps<T>) {
+  if (issues.length === 0) {
+    return (
+      <div className="rounded-lg border border-dashed p-12 text-center">
+        <p className="text-sm text-muted-foreground">조건에 맞는 이슈가 없습니다</p>
+      </div>
+    )
+  }
+
+  const header = (field: IssueSortOptions["field"], label: string) => {
+    const active = sort.field === field
+    const SortIcon = sort.direction === "asc" ? ArrowUp : ArrowDown
+
+    return (
+      <button
+        type="button"
+        className="inline-flex items-center gap-1 hover:text-foreground"
+        onClick={() =>
+          onSortChange({
+            field,
+            direction: active && sort.direction === "asc" ? "desc" : "asc",
+          })
+        }
+      >
+        {label}
+        {active && <SortIcon className="h-3 w-3" />}
+      </button>
+    )
+  }
+
+  return (
+    <div className="overflow-x-auto rounded-lg border">
+      <table className="w-full text-sm">
+        <thead className="bg-muted/50 text-left text-xs text-muted-foreground">
+          <tr>
+            <th className="px-3 py-2 font-medium">키</th>
+            <th className="px-3 py-2 font-medium">{header("title", "제목")}</th>
+            <th className="px-3 py-2 font-medium">상태</th>
+            <th className="px-3 py-2 font-medium">{header("priority", "우선순위")}</th>
+            <th className="px-3 py-2 font-medium">담당자</th>
+            <th className="px-3 py-2 font-medium">기한</th>
+            <th className="px-3 py-2 font-medium">{header("updated_at", "수정일")}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {issues.map((issue) => (
+            <tr
+              key={issue.id}
+              onClick={() => onIssueClick(issue)}
+              className="cursor-pointer border-t hover:bg-muted/50"
+            >
+              <td className="whitespace-nowrap px-3 py-2 text-muted-foreground">
+                <span className="inline-flex items-center gap-2">
+                  <IssueTypeIcon type={issue.type} />
+                  {issue.project ? formatIssueKey(issue.project.key, issue.number) : issue.number}
+                </span>
+              </td>
+              <td className="max-w-md truncate px-3 py-2 font-medium">{issue.title}</td>
+              <td className="whitespace-nowrap px-3 py-2">
+                <span className="inline-flex items-center gap-1.5">
+                  <span
+                    className="h-2 w-2 rounded-full"
+                    style={{ backgroundColor: issue.status.color }}
+                  />
+                  {issue.status.name}
+                </span>
+              </td>
+              <td className="px-3 py-2">
+                <Badge variant="secondary" className={PRIORITY_COLORS[issue.priority]}>
+                  {PRIORITY_LABELS[issue.priority]}
+                </Badge>
+              </td>
+              <td className="whitespace-nowrap px-3 py-2">
+                {issue.assignee ? (
+                  <span className="inline-flex items-center gap-2">
+                    <Avatar className="h-5 w-5">
+                      <AvatarImage src={issue.assignee.avatar_url || undefined} />
+                      <AvatarFallback className="text-[10px]">
+                        {issue.assignee.display_name.charAt(0).toUpperCase()}
+                      </AvatarFallback>
+                    </Avatar>
+                    {issue.assignee.display_name}
+                  </span>
+                ) : (
+                  <span className="text-muted-foreground">미지정</span>
+                )}
+              </td>
+              <td className="px-3 py-2">
+                <DueDateBadge dueDate={issue.due_date} statusName={issue.status.name} />
+              </td>
+              <td className="whitespace-nowrap px-3 py-2 text-muted-foreground">
+                {format(parseISO(issue.updated_at), "yyyy-MM-dd")}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -0,0 +1,31 @@
+import { Bug, BookOpen, CheckSquare, Zap, type LucideIcon } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { ISSUE_TYPE_COLORS, ISSUE_TYPE_LABELS, type IssueType } from "@/types/models"
+
+const ISSUE_TYPE_ICONS: Record<IssueType, LucideIcon> = {
+  bug: Bug,
+  story: BookOpen,
+  task: CheckSquare,
+  epic: Zap,
+}
+
+interface IssueTypeIconProps {
+  type: IssueType
+  className?: string
+}
+
+/**
+ * IssueTypeIcon Component
+ *
+ * Colored icon for an issue type (bug, story, task, epic).
+ */
+export function IssueTypeIcon({ type, className }: IssueTypeIconProps) {
+  const Icon = ISSUE_TYPE_ICONS[type]
+
+  return (
+    <Icon
+      className={cn("h-4 w-4 flex-shrink-0", ISSUE_TYPE_COLORS[type], className)}
+      aria-label={ISSUE_TYPE_LABELS[type]}
+    />
+  )
+}
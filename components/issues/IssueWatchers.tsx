@@ -0,0 +1,97 @@
+"use client"
+
+import { useState } from "react"
+import { Eye, EyeOff } from "lucide-react"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Button } from "@/components/ui/button"
+import { useIssueWatchers } from "@/hooks/use-watchers"
+import { useToast } from "@/hooks/use-toast"
+
+// Avatars shown before collapsing the rest into a "+N" bubble
+const MAX_AVATARS = 5
+
+interface IssueWatchersProps {
+  issueId: string
+  currentUserId: string
+}
+
+/**
+ * IssueWatchers Component
+ *
+ * Watch/unwatch toggle with the avatars of everyone watching the issue.
+ * Watchers are notified about comments and field changes.
+ */
+export function IssueWatchers({ issueId, currentUserId }: IssueWatchersProps) {
+  const { watchers, loading, isWatching, watch, unwatch } = useIssueWatchers(issueId)
+  const { toast } = useToast()
+  const [isToggling, setIsToggling] = useState(false)
+
+  const watching = isWatching(currentUserId)
+
+  const handleToggle = async () => {
+    setIsToggling(true)
+    try {
+      if (watching) {
+        await unwatch(currentUserId)
+      } else {
+        await watch(currentUserId)
+      }
+    } catch (err) {
+      console.error("Error toggling watch:", err)
+      toast({
+        title: "변경 실패",
+        description: "관찰 상태를 변경하지 못했습니다. 다시 시도해주세요.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsToggling(false)
+    }
+  }
+
+  const visible = watchers.slice(0, MAX_AVATARS)
+  const hiddenCount = watchers.length - visible.length
+
+  return (
+    <div className="flex items-center gap-2">
+      {watchers.length > 0 && (
+        <div
+          className="flex -space-x-2"
+          title={watchers.map((watcher) => watcher.user.display_name).join(", ")}
+        >
+          {visible.map((watcher) => (
+            <Avatar key={watcher.user_id} className="h-7 w-7 border-2 border-background">
+              <AvatarImage src={watcher.user.avatar_url || undefined} />
+              <AvatarFallback className="text-xs">
+                {watcher.user.display_name.charAt(0).toUpperCase()}
+              </AvatarFallback>
+            </Avatar>
+          ))}
+          {hiddenCount > 0 && (
+            <div className="flex h-7 w-7 items-center justify-center rounded-full border-2 border-background bg-muted text-xs">
+              +{hiddenCount}
+            </div>
+          )}
+        </div>
+      )}
+      <Button
+        variant={watching ? "secondary" : "outline"}
+        size="sm"
+        onClick={handleToggle}
+        disabled={loading || isToggling}
+      >
+        {watching ? (
+          <>
+            <EyeOff className="mr-2 h-4 w-4" />
+            관찰 중지
+          </>
+        ) : (
+          <>
+            <Eye className="mr-2 h-4 w-4" />
+            관찰하기
+          </>
+        )}
+        <span className="ml-2 text-muted-foreground">{watchers.length}</span>
+      </Button>
+    </div>
+  )
+}
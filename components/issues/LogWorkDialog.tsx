@@ -0,0 +1,166 @@
+"use client"
+
+import { useState } from "react"
+import { format } from "date-fns"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { useToast } from "@/hooks/use-toast"
+
+interface LogWorkDialogProps {
+  /**
+   * Called with the hours, work date (YYYY-MM-DD) and optional note
+   */
+  onSubmit: (hours: number, workDate: string, note?: string) => Promise<unknown>
+  /**
+   * Custom trigger button (optional)
+   */
+  trigger?: React.ReactNode
+}
+
+/**
+ * LogWorkDialog Component
+ *
+ * Modal dialog for logging time spent on an issue.
+ *
+ * @example
+ * ```tsx
+ * <LogWorkDialog onSubmit={(hours, date, note) => logWork(userId, hours, date, note)} />
+ * ```
+ */
+export function LogWorkDialog({ onSubmit, trigger }: LogWorkDialogProps) {
+  const { toast } = useToast()
+  const [open, setOpen] = useState(false)
+  const [hours, setHours] = useState("")
+  const [workDate, setWorkDate] = useState(() => format(new Date(), "yyyy-MM-dd"))
+  const [note, setNote] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen)
+    if (nextOpen) {
+      setHours("")
+      setWorkDate(format(new Date(), "yyyy-MM-dd"))
+      setNote("")
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const parsedHours = Number(hours)
+    if (!Number.isFinite(parsedHours) || parsedHours <= 0 || parsedHours > 24) {
+      toast({
+        title: "잘못된 작업 시간",
+        description: "작업 시간은 0보다 크고 24시간 이하여야 합니다",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      await onSubmit(parsedHours, workDate, note.trim() || undefined)
+      toast({
+        title: "작업 기록 완료",
+        description: `${parsedHours}시간을 기록했습니다`,
+      })
+      setOpen(false)
+    } catch (err) {
+      console.error("Error logging work:", err)
+      toast({
+        title: "기록 실패",
+        description: "작업 시간을 기록하지 못했습니다. 다시 시도해주세요.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {trigger || (
+          <Button variant="outline" size="sm" className="w-full">
+            작업 기록
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[425px]">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>작업 기록</DialogTitle>
+            <DialogDescription>
+              이 이슈에 사용한 시간을 기록하세요.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="worklog-hours">작업 시간 (시간)</Label>
+                <Input
+                  id="worklog-hours"
+                  type="number"
+                  min={0.25}
+                  max={24}
+                  step={0.25}
+                  value={hours}
+                  onChange={(e) => setHours(e.target.value)}
+                  placeholder="예: 1.5"
+                  required
+                  autoFocus
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="worklog-date">작업일</Label>
+                <Input
+                  id="worklog-date"
+                  type="date"
+                  value={workDate}
+                  onChange={(e) => setWorkDate(e.target.value)}
+                  required
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="worklog-note">메모 (선택)</Label>
+              <Textarea
+                id="worklog-note"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="어떤 작업을 했는지 적어주세요"
+                maxLength={500}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setOpen(false)}
+              disabled={isSubmitting}
+            >
+              취소
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? "기록 중..." : "기록"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,83 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { useRouter, useSearchParams } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Spinner } from "@/components/ui/spinner"
+import { IssueForm } from "./IssueForm"
+import { useIssues } from "@/hooks/use-issues"
+import { useProjectStatuses } from "@/hooks/use-projects"
+import { createClient } from "@/lib/supabase/client"
+
+/**
+ * NewIssueForm Component
+ *
+ * Creates an issue in the project given by the `project` search param.
+ * New issues start in the project's first status; the signed-in user
+ * is the reporter.
+ */
+export function NewIssueForm() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const projectId = searchParams.get("project") ?? undefined
+  const { createIssue } = useIssues(projectId)
+  const { statuses, loading: statusesLoading } = useProjectStatuses(projectId)
+  const [userId, setUserId] = useState<string | null>(null)
+
+  useEffect(() => {
+    const supabase = createClient()
+    supabase.auth.getUser().then(({ data }) => {
+      if (data.user) {
+        setUserId(data.user.id)
+      }
+    })
+  }, [])
+
+  if (!projectId) {
+    return (
+      <div className="space-y-4 py-8 text-center">
+        <p className="text-sm text-muted-foreground">
+          이슈를 추가할 프로젝트의 보드에서 새 이슈를 만들어주세요
+        </p>
+        <Button variant="outline" asChild>
+          <Link href="/projects">프로젝트 보기</Link>
+        </Button>
+      </div>
+    )
+  }
+
+  if (statusesLoading || !userId) {
+    return (
+      <div className="flex justify-center py-12">
+        <Spinner className="h-8 w-8" />
+      </div>
+    )
+  }
+
+  const firstStatus = statuses[0]
+  if (!firstStatus) {
+    return (
+      <p className="py-8 text-center text-sm text-destructive">
+        프로젝트에 상태가 없어 이슈를 만들 수 없습니다
+      </p>
+    )
+  }
+
+  return (
+    <IssueForm
+      projectId={projectId}
+      statusId={firstStatus.id}
+      onSubmit={async (data) => {
+        const issue = await createIssue({
+          ...data,
+          status_id: firstStatus.id,
+          reporter_id: userId,
+          assignee_id: data.assignee_id || null,
+        })
+        router.push(`/issues/${issue.id}`)
+      }}
+      onCancel={() => router.push(`/projects/${projectId}/board`)}
+    />
+  )
+}
@@ -0,0 +1,233 @@
+"use client"
+
+import { useState } from "react"
+import { Check, ChevronDown, Link2, Save, Trash2, Users } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { useToast } from "@/hooks/use-toast"
+import type { SavedView } from "@/types/models"
+
+interface SavedViewMenuProps {
+  views: SavedView[]
+  /**
+   * Selected saved view, or null for the built-in view
+   */
+  activeViewId: string | null
+  defaultViewId: string | null
+  currentUserId: string | null
+  /**
+   * Whether the board differs from the selected view
+   */
+  modified: boolean
+  onSelect: (viewId: string | null) => void
+  onSaveAs: (name: string, shared: boolean) => Promise<unknown>
+  onSave: () => Promise<unknown>
+  onDelete: (viewId: string) => Promise<unknown>
+  /**
+   * Path and search that reopen the board exactly as shown
+   */
+  sharePath: string
+}
+
+/**
+ * SavedViewMenu Component
+ *
+ * Switches between the built-in board view, the user's own views and
+ * views shared with the project, and saves or shares the current one.
+ */
+export function SavedViewMenu({
+  views,
+  activeViewId,
+  defaultViewId,
+  currentUserId,
+  modified,
+  onSelect,
+  onSaveAs,
+  onSave,
+  onDelete,
+  sharePath,
+}: SavedViewMenuProps) {
+  const { toast } = useToast()
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [name, setName] = useState("")
+  const [shared, setShared] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const activeView = views.find((view) => view.id === activeViewId)
+  const isOwner = !!activeView && activeView.owner_id === currentUserId
+  const myViews = views.filter((view) => view.owner_id === currentUserId)
+  const sharedViews = views.filter((view) => view.owner_id !== currentUserId)
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setIsSaving(true)
+    try {
+      await action()
+      return true
+    } catch (error) {
+      console.error("Error saving view:", error)
+      toast({ title: failure, description: "다시 시도해주세요.", variant: "destructive" })
+      return false
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleSaveAs = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const saved = await run(() => onSaveAs(name.trim(), shared), "보기 저장 실패")
+    if (saved) {
+      setDialogOpen(false)
+      setName("")
+      setShared(false)
+      toast({ title: "보기 저장", description: `"${name.trim()}" 보기를 저장했습니다` })
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!activeView || !confirm(`"${activeView.name}" 보기를 삭제할까요?`)) return
+    await run(() => onDelete(activeView.id), "보기 삭제 실패")
+  }
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(new URL(sharePath, window.location.origin).toString())
+      toast({ title: "링크 복사", description: "현재 보기로 열리는 링크를 복사했습니다" })
+    } catch (error) {
+      console.error("Error copying view link:", error)
+      toast({ title: "링크 복사 실패", variant: "destructive" })
+    }
+  }
+
+  const renderItem = (view: SavedView) => (
+    <DropdownMenuItem key={view.id} onClick={() => onSelect(view.id)} className="gap-2">
+      <Check className={view.id === activeViewId ? "h-4 w-4" : "h-4 w-4 opacity-0"} />
+      <span className="flex-1 truncate">{view.name}</span>
+      {view.shared && <Users className="h-3 w-3 text-muted-foreground" />}
+      {view.id === defaultViewId && (
+        <span className="text-xs text-muted-foreground">기본</span>
+      )}
+    </DropdownMenuItem>
+  )
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="max-w-56 gap-1">
+            <span className="truncate">{activeView?.name ?? "기본 보기"}</span>
+            {modified && <span className="text-xs text-muted-foreground">(수정됨)</span>}
+            <ChevronDown className="h-4 w-4 shrink-0" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-64">
+          <DropdownMenuItem onClick={() => onSelect(null)} className="gap-2">
+            <Check className={activeViewId === null ? "h-4 w-4" : "h-4 w-4 opacity-0"} />
+            기본 보기
+          </DropdownMenuItem>
+
+          {myViews.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>내 보기</DropdownMenuLabel>
+              {myViews.map(renderItem)}
+            </>
+          )}
+
+          {sharedViews.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>공유된 보기</DropdownMenuLabel>
+              {sharedViews.map(renderItem)}
+            </>
+          )}
+
+          <DropdownMenuSeparator />
+          {isOwner && modified && (
+            <DropdownMenuItem onClick={() => run(onSave, "보기 저장 실패")} className="gap-2">
+              <Save className="h-4 w-4" />
+              현재 보기에 덮어쓰기
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem
+            onClick={() => setDialogOpen(true)}
+            disabled={!currentUserId}
+            className="gap-2"
+          >
+            <Save className="h-4 w-4" />
+            새 보기로 저장...
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={handleCopyLink} className="gap-2">
+            <Link2 className="h-4 w-4" />
+            보기 링크 복사
+          </DropdownMenuItem>
+          {isOwner && (
+            <DropdownMenuItem onClick={handleDelete} className="gap-2 text-destructive">
+              <Trash2 className="h-4 w-4" />
+              보기 삭제
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <form onSubmit={handleSaveAs}>
+            <DialogHeader>
+              <DialogTitle>보기 저장</DialogTitle>
+              <DialogDescription>
+                현재 필터, 그룹, 정렬과 레이아웃을 이름을 붙여 저장합니다.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="saved-view-name">이름</Label>
+                <Input
+                  id="saved-view-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="예: 내 버그"
+                  maxLength={50}
+                  autoFocus
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={shared}
+                  onChange={(e) => setShared(e.target.checked)}
+                />
+                프로젝트 멤버와 공유
+              </label>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                취소
+              </Button>
+              <Button type="submit" disabled={isSaving || !name.trim()}>
+                {isSaving ? "저장 중..." : "저장"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -7,32 +7,66 @@
  * - Add new subtasks
  * - Toggle subtask completion
  * - Delete subtasks
+ * - Drag to reorder
  * - Progress indicator
  */
 
 import React, { useState } from "react"
+import {
+  DndContext,
+  closestCenter,
+  KeyboardSensor,
+  PointerSensor,
+  useSensor,
+  useSensors,
+  DragEndEvent,
+} from "@dnd-kit/core"
+import {
+  SortableContext,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy,
+} from "@dnd-kit/sortable"
+import { CSS } from "@dnd-kit/utilities"
+import { GripVertical } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card } from "@/components/ui/card"
 import { Spinner } from "@/components/ui/spinner"
+import { useSubtasks } from "@/hooks/use-subtasks"
+import type { Tables } from "@/types/database.types"
 
-interface Subtask {
-  id: string
-  title: string
-  completed: boolean
-  order: number
-}
+type Subtask = Tables<"subtasks">
 
 interface SubtaskListProps {
   issueId: string
-  initialSubtasks?: Subtask[]
+  currentUserId: string
 }
 
-export function SubtaskList({ issueId, initialSubtasks = [] }: SubtaskListProps) {
-  const [subtasks, setSubtasks] = useState<Subtask[]>(initialSubtasks)
+export function SubtaskList({ issueId, currentUserId }: SubtaskListProps) {
+  const {
+    subtasks,
+    loading: subtasksLoading,
+    error,
+    createSubtask,
+    toggleSubtask,
+    reorderSubtask,
+    removeSubtask,
+  } = useSubtasks(issueId)
   const [newSubtask, setNewSubtask] = useState("")
   const [loading, setLoading] = useState(false)
 
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 8,
+      },
+    }),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  )
+
   const completedCount = subtasks.filter((s) => s.completed).length
   const totalCount = subtasks.length
   const progress = totalCount > 0 ? (completedCount / totalCount) * 100 : 0
@@ -43,17 +77,7 @@ export function SubtaskList({ issueId, initialSubtasks = [] }: SubtaskListProps)
 
     try {
       setLoading(true)
-
-      // In a real implementation, this would call a Supabase function
-      // For now, we'll just add it to local state
-      const newTask: Subtask = {
-        id: `temp-${Date.now()}`,
-        title: newSubtask.trim(),
-        completed: false,
-        order: subtasks.length,
-      }
-
-      setSubtasks([...subtasks, newTask])
+      await createSubtask(currentUserId, newSubtask.trim())
       setNewSubtask("")
     } catch (error) {
       console.error("Failed to add subtask:", error)
@@ -64,11 +88,7 @@ export function SubtaskList({ issueId, initialSubtasks = [] }: SubtaskListProps)
 
   const handleToggleSubtask = async (id: string) => {
     try {
-      setSubtasks(
-        subtasks.map((task) =>
-          task.id === id ? { ...task, completed: !task.completed } : task
-        )
-      )
+      await toggleSubtask(id)
     } catch (error) {
       console.error("Failed to toggle subtask:", error)
     }
@@ -76,12 +96,26 @@ export function SubtaskList({ issueId, initialSubtasks = [] }: SubtaskListProps)
 
   const handleDeleteSubtask = async (id: string) => {
     try {
-      setSubtasks(subtasks.filter((task) => task.id !== id))
+      await removeSubtask(id)
     } catch (error) {
       console.error("Failed to delete subtask:", error)
     }
   }
 
+  const handleDragEnd = async (event: DragEndEvent) => {
+    const { active, over } = event
+    if (!over || active.id === over.id) return
+
+    const newIndex = subtasks.findIndex((task) => task.id === over.id)
+    if (newIndex === -1) return
+
+    try {
+      await reorderSubtask(active.id as string, newIndex)
+    } catch (error) {
+      console.error("Failed to reorder subtask:", error)
+    }
+  }
+
   return (
     <Card className="p-6">
       <div className="flex items-center justify-between mb-4">
@@ -123,77 +157,39 @@ export function SubtaskList({ issueId, initialSubtasks = [] }: SubtaskListProps)
       </form>
 
       {/* Subtask List */}
-      <div className="space-y-2">
-        {subtasks.map((subtask) => (
-          <div
-            key={subtask.id}
-            className="flex items-center gap-3 p-3 rounded-lg border hover:bg-gray-50 transition-colors group"
+      {subtasksLoading ? (
+        <div className="flex justify-center py-8">
+          <Spinner />
+        </div>
+      ) : error ? (
+        <div className="text-center py-8 text-sm text-red-600">
+          Failed to load subtasks: {error.message}
+        </div>
+      ) : (
+        <DndContext
+          sensors={sensors}
+          collisionDetection={closestCenter}
+          onDragEnd={handleDragEnd}
+        >
+          <SortableContext
+            items={subtasks.map((subtask) => subtask.id)}
+            strategy={verticalListSortingStrategy}
           >
-            {/* Checkbox */}
-            <button
-              onClick={() => handleToggleSubtask(subtask.id)}
-              className={`w-5 h-5 rounded border-2 flex items-center justify-center transition-colors ${
-                subtask.completed
-                  ? "bg-green-500 border-green-500"
-                  : "border-gray-300 hover:border-gray-400"
-              }`}
-              aria-label={subtask.completed ? "Mark as incomplete" : "Mark as complete"}
-            >
-              {subtask.completed && (
-                <svg
-                  xmlns="http://www.w3.org/2000/svg"
-                  fill="none"
-                  viewBox="0 0 24 24"
-                  strokeWidth={3}
-                  stroke="white"
-                  className="w-3 h-3"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    d="M4.5 12.75l6 6 9-13.5"
-                  />
-                </svg>
-              )}
-            </button>
-
-            {/* Title */}
-            <span
-              className={`flex-1 text-sm ${
-                subtask.completed
-                  ? "line-through text-gray-500"
-                  : "text-gray-900"
-              }`}
-            >
-              {subtask.title}
-            </span>
-
-            {/* Delete Button */}
-            <button
-              onClick={() => handleDeleteSubtask(subtask.id)}
-              className="opacity-0 group-hover:opacity-100 transition-opacity text-gray-400 hover:text-red-600"
-              aria-label="Delete subtask"
-            >
-              <svg
-                xmlns="http://www.w3.org/2000/svg"
-                fill="none"
-                viewBox="0 0 24 24"
-                strokeWidth={1.5}
-                stroke="currentColor"
-                className="w-4 h-4"
-              >
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  d="M14.74 9l-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 01-2.244 2.077H8.084a2.25 2.25 0 01-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 00-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 013.478-.397m7.5 0v-.916c0-1.18-.91-2.164-2.09-2.201a51.964 51.964 0 00-3.32 0c-1.18.037-2.09 1.022-2.09 2.201v.916m7.5 0a48.667 48.667 0 00-7.5 0"
+            <div className="space-y-2">
+              {subtasks.map((subtask) => (
+                <SortableSubtaskItem
+                  key={subtask.id}
+                  subtask={subtask}
+                  onToggle={() => handleToggleSubtask(subtask.id)}
+                  onDelete={() => handleDeleteSubtask(subtask.id)}
                 />
-              </svg>
-            </button>
-          </div>
-        ))}
-      </div>
+              ))}
+            </div>
+          </SortableContext>
+        </DndContext>
+      )}
 
-      {subtasks.length === 0 && (
+      {!subtasksLoading && !error && subtasks.length === 0 && (
         <div className="text-center py-8 text-gray-500 text-sm">
           No subtasks yet. Add one above to get started.
         </div>
@@ -201,3 +197,99 @@ export function SubtaskList({ issueId, initialSubtasks = [] }: SubtaskListProps)
     </Card>
   )
 }
+
+interface SortableSubtaskItemProps {
+  subtask: Subtask
+  onToggle: () => void
+  onDelete: () => void
+}
+
+function SortableSubtaskItem({ subtask, onToggle, onDelete }: SortableSubtaskItemProps) {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } =
+    useSortable({ id: subtask.id })
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    opacity: isDragging ? 0.5 : 1,
+  }
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      className="flex items-center gap-3 p-3 rounded-lg border bg-white hover:bg-gray-50 transition-colors group"
+    >
+      {/* Drag Handle */}
+      <button
+        className="cursor-grab active:cursor-grabbing text-gray-400"
+        aria-label="Reorder subtask"
+        {...attributes}
+        {...listeners}
+      >
+        <GripVertical className="w-4 h-4" />
+      </button>
+
+      {/* Checkbox */}
+      <button
+        onClick={onToggle}
+        className={`w-5 h-5 rounded border-2 flex items-center justify-center transition-colors ${
+          subtask.completed
+            ? "bg-green-500 border-green-500"
+            : "border-gray-300 hover:border-gray-400"
+        }`}
+        aria-label={subtask.completed ? "Mark as incomplete" : "Mark as complete"}
+      >
+        {subtask.completed && (
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            fill="none"
+            viewBox="0 0 24 24"
+            strokeWidth={3}
+            stroke="white"
+            className="w-3 h-3"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              d="M4.5 12.75l6 6 9-13.5"
+            />
+          </svg>
+        )}
+      </button>
+
+      {/* Title */}
+      <span
+        className={`flex-1 text-sm ${
+          subtask.completed
+            ? "line-through text-gray-500"
+            : "text-gray-900"
+        }`}
+      >
+        {subtask.title}
+      </span>
+
+      {/* Delete Button */}
+      <button
+        onClick={onDelete}
+        className="opacity-0 group-hover:opacity-100 transition-opacity text-gray-400 hover:text-red-600"
+        aria-label="Delete subtask"
+      >
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          fill="none"
+          viewBox="0 0 24 24"
+          strokeWidth={1.5}
+          stroke="currentColor"
+          className="w-4 h-4"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            d="M14.74 9l-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 01-2.244 2.077H8.084a2.25 2.25 0 01-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 00-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 013.478-.397m7.5 0v-.916c0-1.18-.91-2.164-2.09-2.201a51.964 51.964 0 00-3.32 0c-1.18.037-2.09 1.022-2.09 2.201v.916m7.5 0a48.667 48.667 0 00-7.5 0"
+          />
+        </svg>
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,42 @@
+import { CheckSquare } from "lucide-react"
+import { cn } from "@/lib/utils"
+import type { Subtask } from "@/types/models"
+
+interface SubtaskProgressProps {
+  subtasks?: Pick<Subtask, "id" | "completed">[]
+  className?: string
+}
+
+/**
+ * SubtaskProgress Component
+ *
+ * Compact completion indicator for issue cards.
+ * Renders nothing when the issue has no subtasks.
+ */
+export function SubtaskProgress({ subtasks, className }: SubtaskProgressProps) {
+  if (!subtasks || subtasks.length === 0) return null
+
+  const completedCount = subtasks.filter((s) => s.completed).length
+  const progress = (completedCount / subtasks.length) * 100
+
+  return (
+    <div
+      className={cn("flex items-center gap-2 text-xs text-muted-foreground", className)}
+      title={`${completedCount} of ${subtasks.length} subtasks completed`}
+    >
+      <CheckSquare className="h-3.5 w-3.5" />
+      <div className="h-1.5 flex-1 overflow-hidden rounded-full bg-muted">
+        <div
+          className={cn(
+            "h-full transition-all duration-300",
+            completedCount === subtasks.length ? "bg-green-500" : "bg-blue-500"
+          )}
+          style={{ width: `${progress}%` }}
+        />
+      </div>
+      <span>
+        {completedCount}/{subtasks.length}
+      </span>
+    </div>
+  )
+}
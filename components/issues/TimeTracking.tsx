@@ -0,0 +1,146 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { format, parseISO } from "date-fns"
+import { X } from "lucide-react"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Input } from "@/components/ui/input"
+import { Spinner } from "@/components/ui/spinner"
+import { LogWorkDialog } from "./LogWorkDialog"
+import { TimeTrackingBar } from "./TimeTrackingBar"
+import { useWorklogs } from "@/hooks/use-worklogs"
+import { formatHours, getTimeTracking } from "@/utils/time-tracking"
+
+interface TimeTrackingProps {
+  issueId: string
+  estimate: number | null
+  currentUserId: string
+  onEstimateChange: (estimate: number | null) => Promise<void>
+}
+
+/**
+ * TimeTracking Component
+ *
+ * Original estimate, spent/remaining summary and the issue's worklogs.
+ * Members log work through the dialog and can delete their own entries.
+ */
+export function TimeTracking({
+  issueId,
+  estimate,
+  currentUserId,
+  onEstimateChange,
+}: TimeTrackingProps) {
+  const { worklogs, loading, error, logWork, removeWorklog } = useWorklogs(issueId)
+  const [estimateInput, setEstimateInput] = useState(estimate?.toString() ?? "")
+
+  useEffect(() => {
+    setEstimateInput(estimate?.toString() ?? "")
+  }, [estimate])
+
+  const tracking = getTimeTracking(estimate, worklogs)
+
+  const handleEstimateBlur = async () => {
+    const trimmed = estimateInput.trim()
+    const next = trimmed === "" ? null : Number(trimmed)
+
+    if (next !== null && (!Number.isFinite(next) || next < 0)) {
+      setEstimateInput(estimate?.toString() ?? "")
+      return
+    }
+    if (next === estimate) return
+
+    await onEstimateChange(next)
+  }
+
+  const handleRemove = async (worklogId: string) => {
+    try {
+      await removeWorklog(worklogId)
+    } catch (err) {
+      console.error("Failed to delete worklog:", err)
+    }
+  }
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="space-y-1">
+        <label htmlFor="original-estimate" className="text-muted-foreground">
+          최초 예상 (시간)
+        </label>
+        <Input
+          id="original-estimate"
+          type="number"
+          min={0}
+          step={0.5}
+          value={estimateInput}
+          onChange={(e) => setEstimateInput(e.target.value)}
+          onBlur={handleEstimateBlur}
+          placeholder="예상 시간 없음"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <TimeTrackingBar estimate={estimate} worklogs={worklogs} />
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <span>사용 {formatHours(tracking.spent)}</span>
+          {tracking.remaining !== null && (
+            <span className={tracking.overrun > 0 ? "text-red-600" : undefined}>
+              {tracking.overrun > 0
+                ? `초과 ${formatHours(tracking.overrun)}`
+                : `남음 ${formatHours(tracking.remaining)}`}
+            </span>
+          )}
+        </div>
+      </div>
+
+      <LogWorkDialog
+        onSubmit={(hours, workDate, note) =>
+          logWork(currentUserId, hours, workDate, note)
+        }
+      />
+
+      {loading ? (
+        <Spinner size="sm" />
+      ) : error ? (
+        <p className="text-destructive">작업 기록을 불러오지 못했습니다</p>
+      ) : (
+        worklogs.length > 0 && (
+          <ul className="space-y-2">
+            {worklogs.map((worklog) => (
+              <li key={worklog.id} className="group flex items-start gap-2">
+                <Avatar className="h-6 w-6">
+                  <AvatarImage src={worklog.user.avatar_url || undefined} />
+                  <AvatarFallback>
+                    {worklog.user.display_name.charAt(0).toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="truncate font-medium">
+                      {worklog.user.display_name}
+                    </span>
+                    <span className="text-xs text-muted-foreground">
+                      {formatHours(worklog.hours)} · {format(parseISO(worklog.work_date), "MMM d")}
+                    </span>
+                  </div>
+                  {worklog.note && (
+                    <p className="text-xs text-muted-foreground">{worklog.note}</p>
+                  )}
+                </div>
+                {worklog.user_id === currentUserId && (
+                  <button
+                    type="button"
+                    onClick={() => handleRemove(worklog.id)}
+                    className="opacity-0 transition-opacity group-hover:opacity-100"
+                    aria-label="작업 기록 삭제"
+                  >
+                    <X className="h-4 w-4 text-muted-foreground" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+    </div>
+  )
+}
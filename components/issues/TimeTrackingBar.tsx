@@ -0,0 +1,50 @@
+import { Clock } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { formatHours, getTimeTracking } from "@/utils/time-tracking"
+
+interface TimeTrackingBarProps {
+  estimate: number | null
+  worklogs?: { hours: number }[]
+  className?: string
+}
+
+/**
+ * TimeTrackingBar Component
+ *
+ * Spent vs. remaining hours for issue cards; turns red past the estimate.
+ * Renders nothing when there is neither an estimate nor logged work.
+ */
+export function TimeTrackingBar({ estimate, worklogs, className }: TimeTrackingBarProps) {
+  const tracking = getTimeTracking(estimate, worklogs)
+
+  if (tracking.estimate === null && tracking.spent === 0) return null
+
+  const total = Math.max(tracking.estimate ?? 0, tracking.spent)
+  const spentPercent = total > 0 ? (tracking.spent / total) * 100 : 0
+
+  return (
+    <div
+      className={cn("flex items-center gap-2 text-xs text-muted-foreground", className)}
+      title={
+        tracking.remaining === null
+          ? `${formatHours(tracking.spent)} logged`
+          : `${formatHours(tracking.spent)} logged, ${formatHours(tracking.remaining)} remaining`
+      }
+    >
+      <Clock className="h-3.5 w-3.5" />
+      <div className="h-1.5 flex-1 overflow-hidden rounded-full bg-muted">
+        <div
+          className={cn(
+            "h-full transition-all duration-300",
+            tracking.overrun > 0 ? "bg-red-500" : "bg-blue-500"
+          )}
+          style={{ width: `${spentPercent}%` }}
+        />
+      </div>
+      <span>
+        {formatHours(tracking.spent)}
+        {tracking.estimate !== null && ` / ${formatHours(tracking.estimate)}`}
+      </span>
+    </div>
+  )
+}
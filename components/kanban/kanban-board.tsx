@@ -1,6 +1,6 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import {
   DndContext,
   DragOverlay,
@@ -19,23 +19,78 @@ import {
   sortableKeyboardCoordinates,
   verticalListSortingStrategy,
 } from "@dnd-kit/sortable"
-import { KanbanColumn } from "./kanban-column"
+import { ChevronDown, ChevronRight } from "lucide-react"
+import { ColumnCount, KanbanColumn, isOverWipLimit } from "./kanban-column"
 import { KanbanCard } from "./kanban-card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import { compareRanks, getLastRank, getRankBetween, repairRanks } from "@/utils/lexorank"
+import type { IncomingIssueLink } from "@/types/models"
 import type { Tables } from "@/types/database.types"
 
 type Issue = Tables<"issues"> & {
   status: Tables<"statuses">
   assignee: Pick<Tables<"users">, "id" | "display_name" | "avatar_url"> | null
   reporter: Pick<Tables<"users">, "id" | "display_name" | "avatar_url">
+  subtasks?: Pick<Tables<"subtasks">, "id" | "completed">[]
+  worklogs?: Pick<Tables<"worklogs">, "hours">[]
+  attachment_count?: number
+  labels?: Pick<Tables<"labels">, "id" | "name" | "color">[]
+  project?: Pick<Tables<"projects">, "id" | "key">
+  incoming_links?: IncomingIssueLink[]
 }
 
 type Status = Tables<"statuses">
 
+export interface KanbanLane {
+  id: string
+  header: React.ReactNode
+}
+
 interface KanbanBoardProps {
   statuses: Status[]
   issues: Issue[]
-  onIssueMove: (issueId: string, statusId: string, order: string) => void
+  onIssueMove: (issueId: string, statusId: string, order: string) => void | Promise<void>
   onIssueClick: (issue: Issue) => void
+  /**
+   * Horizontal swimlanes, each with its own row of status columns. Every
+   * ID `getLaneId` returns needs a lane, or those issues are not shown.
+   */
+  lanes?: KanbanLane[]
+  getLaneId?: (issue: Issue) => string
+  /**
+   * Called when an issue is dropped into another lane, and awaited before
+   * `onIssueMove` so the two updates reach the issue in order
+   */
+  onLaneChange?: (issueId: string, laneId: string) => void | Promise<void>
+  /**
+   * Issues per status for the WIP counters, e.g. including ones hidden by
+   * filters. Defaults to the issues on the board.
+   */
+  statusCounts?: Record<string, number>
+  /**
+   * Asked before an issue is dropped into another status; returning false
+   * puts it back
+   */
+  canMoveIssue?: (issueId: string, statusId: string) => boolean
+  /**
+   * Orders cards by something other than rank, e.g. a query's ORDER BY.
+   * Cards can then only be moved between columns, landing at the bottom
+   * of the target column's rank order.
+   */
+  compareIssues?: (a: Issue, b: Issue) => number
+}
+
+const NO_LANE = ""
+
+// Column droppables are `status-<statusId>`, suffixed with `@<laneId>` in swimlanes
+const columnId = (statusId: string, laneId: string) =>
+  laneId === NO_LANE ? `status-${statusId}` : `status-${statusId}@${laneId}`
+
+function parseColumnId(id: string) {
+  const [statusId, laneId = NO_LANE] = id.replace("status-", "").split("@")
+  return { statusId, laneId }
 }
 
 export function KanbanBoard({
@@ -43,9 +98,28 @@ export function KanbanBoard({
   issues: initialIssues,
   onIssueMove,
   onIssueClick,
+  lanes,
+  getLaneId,
+  onLaneChange,
+  statusCounts,
+  canMoveIssue,
+  compareIssues,
 }: KanbanBoardProps) {
   const [issues, setIssues] = useState(initialIssues)
   const [activeId, setActiveId] = useState<string | null>(null)
+  // Lanes issues were dragged into, until the parent passes updated issues
+  const [laneOverrides, setLaneOverrides] = useState<Record<string, string>>({})
+  const [collapsedLanes, setCollapsedLanes] = useState<Set<string>>(new Set())
+
+  // Keep local board state in sync with realtime updates from the parent
+  useEffect(() => {
+    setIssues(initialIssues)
+    setLaneOverrides({})
+  }, [initialIssues])
+
+  const originalLaneOf = (issue: Issue) => (lanes && getLaneId ? getLaneId(issue) : NO_LANE)
+  const laneOf = (issue: Issue) => laneOverrides[issue.id] ?? originalLaneOf(issue)
+  const columnOf = (issue: Issue) => columnId(issue.status_id, laneOf(issue))
 
   // Configure sensors for drag detection
   const sensors = useSensors(
@@ -59,17 +133,110 @@ export function KanbanBoard({
     })
   )
 
-  // Group issues by status
-  const issuesByStatus = issues.reduce(
-    (acc, issue) => {
-      if (!acc[issue.status_id]) {
-        acc[issue.status_id] = []
+  // Group issues by column (status, and lane when there are swimlanes), ordered by rank
+  const issuesByColumn = [...issues]
+    .sort(compareIssues ?? ((a, b) => compareRanks(a.order, b.order)))
+    .reduce(
+      (acc, issue) => {
+        const column = columnOf(issue)
+        if (!acc[column]) {
+          acc[column] = []
+        }
+        acc[column].push(issue)
+        return acc
+      },
+      {} as Record<string, Issue[]>
+    )
+
+  // Show the dragged issue in another column while it is over it
+  const moveLocally = (issueId: string, statusId: string, laneId: string) => {
+    setIssues((prevIssues) =>
+      prevIssues.map((issue) =>
+        issue.id === issueId ? { ...issue, status_id: statusId } : issue
+      )
+    )
+    setLaneOverrides((prev) => ({ ...prev, [issueId]: laneId }))
+  }
+
+  // Place the dragged issue at the given index of a column and persist its new rank
+  const placeIssue = async (
+    issueId: string,
+    statusId: string,
+    laneId: string,
+    columnIssues: Issue[],
+    index: number
+  ) => {
+    const originalIssue = initialIssues.find((issue) => issue.id === issueId)
+    if (
+      originalIssue &&
+      originalIssue.status_id !== statusId &&
+      canMoveIssue &&
+      !canMoveIssue(issueId, statusId)
+    ) {
+      setIssues(initialIssues)
+      setLaneOverrides({})
+      return
+    }
+
+    // Legacy and duplicate ranks leave no room between neighbours, so the
+    // target column is re-ranked first. Sorted columns only need their last rank.
+    const repairs = compareIssues ? new Map<string, string>() : repairRanks(columnIssues)
+    const withRepairs = (issue: Issue) =>
+      repairs.has(issue.id) ? { ...issue, order: repairs.get(issue.id)! } : issue
+    const rankedIssues = columnIssues.map(withRepairs)
+
+    const before = rankedIssues[index - 1]
+    const after = rankedIssues[index]
+    let newOrder: string
+    try {
+      // Positions in a sorted column say nothing about rank
+      newOrder = compareIssues
+        ? getRankBetween(getLastRank(rankedIssues.map((issue) => issue.order)), null)
+        : getRankBetween(before?.order, after?.order)
+    } catch (error) {
+      console.error("Error ranking issue:", error)
+      setIssues(initialIssues)
+      setLaneOverrides({})
+      return
+    }
+
+    setIssues((prevIssues) =>
+      prevIssues.map((issue) =>
+        issue.id === issueId
+          ? { ...issue, status_id: statusId, order: newOrder }
+          : withRepairs(issue)
+      )
+    )
+    setLaneOverrides((prev) => ({ ...prev, [issueId]: laneId }))
+
+    try {
+      for (const [repairedId, order] of repairs) {
+        await onIssueMove(repairedId, statusId, order)
       }
-      acc[issue.status_id].push(issue)
-      return acc
-    },
-    {} as Record<string, Issue[]>
-  )
+
+      if (originalIssue && originalLaneOf(originalIssue) !== laneId) {
+        await onLaneChange?.(issueId, laneId)
+      }
+
+      await onIssueMove(issueId, statusId, newOrder)
+    } catch (error) {
+      console.error("Error moving issue:", error)
+      setIssues(initialIssues)
+      setLaneOverrides({})
+    }
+  }
+
+  const toggleLane = (laneId: string) => {
+    setCollapsedLanes((prev) => {
+      const next = new Set(prev)
+      if (next.has(laneId)) {
+        next.delete(laneId)
+      } else {
+        next.add(laneId)
+      }
+      return next
+    })
+  }
 
   // Handle drag start
   const handleDragStart = (event: DragStartEvent) => {
@@ -93,32 +260,21 @@ export function KanbanBoard({
 
     // If dragging over a status column (not an issue)
     if (overId.startsWith("status-")) {
-      const newStatusId = overId.replace("status-", "")
-
-      if (activeIssue.status_id !== newStatusId) {
-        setIssues((prevIssues) =>
-          prevIssues.map((issue) =>
-            issue.id === activeId ? { ...issue, status_id: newStatusId } : issue
-          )
-        )
+      if (columnOf(activeIssue) !== overId) {
+        const { statusId, laneId } = parseColumnId(overId)
+        moveLocally(activeId, statusId, laneId)
       }
       return
     }
 
     // If dragging over another issue
-    if (overIssue && activeIssue.status_id !== overIssue.status_id) {
-      setIssues((prevIssues) =>
-        prevIssues.map((issue) =>
-          issue.id === activeId
-            ? { ...issue, status_id: overIssue.status_id }
-            : issue
-        )
-      )
+    if (overIssue && columnOf(activeIssue) !== columnOf(overIssue)) {
+      moveLocally(activeId, overIssue.status_id, laneOf(overIssue))
     }
   }
 
   // Handle drag end
-  const handleDragEnd = (event: DragEndEvent) => {
+  const handleDragEnd = async (event: DragEndEvent) => {
     const { active, over } = event
 
     setActiveId(null)
@@ -132,13 +288,14 @@ export function KanbanBoard({
 
     if (!activeIssue) return
 
-    // If dropped on a status column
+    // If dropped on a status column, append to the bottom
     if (overId.startsWith("status-")) {
-      const newStatusId = overId.replace("status-", "")
-      const newStatusIssues = issuesByStatus[newStatusId] || []
-      const newOrder = (newStatusIssues.length + 1).toString()
+      const { statusId, laneId } = parseColumnId(overId)
+      const columnIssues = (issuesByColumn[overId] || []).filter(
+        (issue) => issue.id !== activeId
+      )
 
-      onIssueMove(activeId, newStatusId, newOrder)
+      await placeIssue(activeId, statusId, laneId, columnIssues, columnIssues.length)
       return
     }
 
@@ -147,40 +304,57 @@ export function KanbanBoard({
 
     if (!overIssue) return
 
-    const activeStatusId = activeIssue.status_id
-    const overStatusId = overIssue.status_id
+    // Dropped back onto itself: only persist if handleDragOver changed its column.
+    // Sorted columns have no manual order to change either.
+    if (overIssue.id === activeId || compareIssues) {
+      const originalIssue = initialIssues.find((issue) => issue.id === activeId)
+      if (
+        originalIssue?.status_id === activeIssue.status_id &&
+        originalLaneOf(originalIssue) === laneOf(activeIssue)
+      ) {
+        return
+      }
+    }
 
-    // If within the same status, reorder
-    if (activeStatusId === overStatusId) {
-      const statusIssues = issuesByStatus[activeStatusId] || []
-      const oldIndex = statusIssues.findIndex((issue) => issue.id === activeId)
-      const newIndex = statusIssues.findIndex((issue) => issue.id === overId)
+    // handleDragOver has already moved the active issue into the target column,
+    // so both issues share a column here and the drop is a reorder within it
+    const laneId = laneOf(overIssue)
+    const statusIssues = issuesByColumn[columnOf(overIssue)] || []
+    const oldIndex = statusIssues.findIndex((issue) => issue.id === activeId)
+    const newIndex = statusIssues.findIndex((issue) => issue.id === overId)
 
-      if (oldIndex !== newIndex) {
-        const reorderedIssues = arrayMove(statusIssues, oldIndex, newIndex)
+    const reorderedIssues =
+      oldIndex === -1 ? statusIssues : arrayMove(statusIssues, oldIndex, newIndex)
+    const columnIssues = reorderedIssues.filter((issue) => issue.id !== activeId)
 
-        setIssues((prevIssues) => {
-          const otherIssues = prevIssues.filter(
-            (issue) => issue.status_id !== activeStatusId
-          )
-          return [...otherIssues, ...reorderedIssues]
-        })
+    await placeIssue(activeId, overIssue.status_id, laneId, columnIssues, newIndex)
+  }
 
-        // Update order in backend
-        const newOrder = (newIndex + 1).toString()
-        onIssueMove(activeId, activeStatusId, newOrder)
-      }
-    } else {
-      // Moving to a different status
-      const newStatusIssues = issuesByStatus[overStatusId] || []
-      const overIndex = newStatusIssues.findIndex(
-        (issue) => issue.id === overId
+  const countOf = (statusId: string) =>
+    statusCounts?.[statusId] ?? issues.filter((issue) => issue.status_id === statusId).length
+
+  const renderColumns = (laneId: string) =>
+    statuses.map((status) => {
+      const id = columnId(status.id, laneId)
+
+      return (
+        <SortableContext
+          key={id}
+          id={id}
+          items={issuesByColumn[id]?.map((issue) => issue.id) || []}
+          strategy={verticalListSortingStrategy}
+        >
+          <KanbanColumn
+            status={status}
+            issues={issuesByColumn[id] || []}
+            onIssueClick={onIssueClick}
+            count={countOf(status.id)}
+            droppableId={id}
+            compact={laneId !== NO_LANE}
+          />
+        </SortableContext>
       )
-      const newOrder = (overIndex + 1).toString()
-
-      onIssueMove(activeId, overStatusId, newOrder)
-    }
-  }
+    })
 
   // Get the active issue for drag overlay
   const activeIssue = activeId
@@ -195,22 +369,71 @@ export function KanbanBoard({
       onDragOver={handleDragOver}
       onDragEnd={handleDragEnd}
     >
-      <div className="flex gap-4 overflow-x-auto pb-4">
-        {statuses.map((status) => (
-          <SortableContext
-            key={status.id}
-            id={`status-${status.id}`}
-            items={issuesByStatus[status.id]?.map((issue) => issue.id) || []}
-            strategy={verticalListSortingStrategy}
-          >
-            <KanbanColumn
-              status={status}
-              issues={issuesByStatus[status.id] || []}
-              onIssueClick={onIssueClick}
-            />
-          </SortableContext>
-        ))}
-      </div>
+      {lanes ? (
+        <div className="overflow-x-auto pb-4">
+          <div className="inline-flex min-w-full flex-col gap-4">
+            {/* Status headers shared by every lane */}
+            <div className="flex gap-4">
+              {statuses.map((status) => (
+                <div
+                  key={status.id}
+                  className="flex w-80 flex-shrink-0 items-center justify-between px-3"
+                >
+                  <div className="flex items-center gap-2">
+                    <div
+                      className="h-3 w-3 rounded-full"
+                      style={{ backgroundColor: status.color }}
+                    />
+                    <h3
+                      className={cn(
+                        "font-semibold",
+                        isOverWipLimit(status, countOf(status.id)) && "text-destructive"
+                      )}
+                    >
+                      {status.name}
+                    </h3>
+                  </div>
+                  <ColumnCount status={status} count={countOf(status.id)} />
+                </div>
+              ))}
+            </div>
+
+            {lanes.map((lane) => {
+              const collapsed = collapsedLanes.has(lane.id)
+
+              return (
+                <section key={lane.id} className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => toggleLane(lane.id)}
+                      aria-expanded={!collapsed}
+                    >
+                      {collapsed ? (
+                        <ChevronRight className="h-4 w-4" />
+                      ) : (
+                        <ChevronDown className="h-4 w-4" />
+                      )}
+                      <span className="sr-only">{collapsed ? "Expand lane" : "Collapse lane"}</span>
+                    </Button>
+                    <div className="flex min-w-0 items-center gap-3">{lane.header}</div>
+                    <Badge variant="secondary">
+                      {issues.filter((issue) => laneOf(issue) === lane.id).length}
+                    </Badge>
+                  </div>
+                  {!collapsed && (
+                    <div className="flex gap-4">{renderColumns(lane.id)}</div>
+                  )}
+                </section>
+              )
+            })}
+          </div>
+        </div>
+      ) : (
+        <div className="flex gap-4 overflow-x-auto pb-4">{renderColumns(NO_LANE)}</div>
+      )}
 
       <DragOverlay>
         {activeIssue ? (
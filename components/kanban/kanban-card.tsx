@@ -5,13 +5,27 @@ import { CSS } from "@dnd-kit/utilities"
 import { Card, CardContent } from "@/components/ui/card"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Badge } from "@/components/ui/badge"
-import { GripVertical } from "lucide-react"
+import { Ban, GripVertical, Paperclip } from "lucide-react"
+import { DueDateBadge } from "@/components/issues/DueDateBadge"
+import { IssueTypeIcon } from "@/components/issues/IssueTypeIcon"
+import { SubtaskProgress } from "@/components/issues/SubtaskProgress"
+import { TimeTrackingBar } from "@/components/issues/TimeTrackingBar"
+import { LabelChip } from "@/components/labels/LabelChip"
+import { formatIssueKey } from "@/utils/issue-key"
+import { isIssueBlocked } from "@/utils/issue-links"
+import type { IncomingIssueLink } from "@/types/models"
 import type { Tables } from "@/types/database.types"
 
 type Issue = Tables<"issues"> & {
   status: Tables<"statuses">
   assignee: Pick<Tables<"users">, "id" | "display_name" | "avatar_url"> | null
   reporter: Pick<Tables<"users">, "id" | "display_name" | "avatar_url">
+  subtasks?: Pick<Tables<"subtasks">, "id" | "completed">[]
+  worklogs?: Pick<Tables<"worklogs">, "hours">[]
+  attachment_count?: number
+  labels?: Pick<Tables<"labels">, "id" | "name" | "color">[]
+  project?: Pick<Tables<"projects">, "id" | "key">
+  incoming_links?: IncomingIssueLink[]
 }
 
 interface KanbanCardProps {
@@ -61,9 +75,18 @@ export function KanbanCard({ issue, onClick }: KanbanCardProps) {
           </button>
 
           <div className="flex-1 space-y-2">
-            <h4 className="text-sm font-medium leading-snug line-clamp-2">
-              {issue.title}
-            </h4>
+            {issue.project && (
+              <span className="text-xs font-medium text-muted-foreground">
+                {formatIssueKey(issue.project.key, issue.number)}
+              </span>
+            )}
+
+            <div className="flex items-start gap-2">
+              <IssueTypeIcon type={issue.type} className="mt-0.5" />
+              <h4 className="text-sm font-medium leading-snug line-clamp-2">
+                {issue.title}
+              </h4>
+            </div>
 
             {issue.description && (
               <p className="text-xs text-muted-foreground line-clamp-2">
@@ -71,13 +94,42 @@ export function KanbanCard({ issue, onClick }: KanbanCardProps) {
               </p>
             )}
 
+            {issue.labels && issue.labels.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {issue.labels.map((label) => (
+                  <LabelChip key={label.id} label={label} />
+                ))}
+              </div>
+            )}
+
+            <SubtaskProgress subtasks={issue.subtasks} />
+            <TimeTrackingBar
+              estimate={issue.original_estimate_hours}
+              worklogs={issue.worklogs}
+            />
+
             <div className="flex items-center justify-between">
-              <Badge
-                variant="secondary"
-                className={priorityColors[issue.priority]}
-              >
-                {issue.priority}
-              </Badge>
+              <div className="flex items-center gap-1">
+                <Badge
+                  variant="secondary"
+                  className={priorityColors[issue.priority]}
+                >
+                  {issue.priority}
+                </Badge>
+                <DueDateBadge dueDate={issue.due_date} statusName={issue.status.name} />
+                {!!issue.attachment_count && (
+                  <span className="flex items-center gap-0.5 text-xs text-muted-foreground">
+                    <Paperclip className="h-3 w-3" />
+                    {issue.attachment_count}
+                  </span>
+                )}
+                {isIssueBlocked(issue.incoming_links) && (
+                  <Badge variant="destructive" className="gap-1">
+                    <Ban className="h-3 w-3" />
+                    Blocked
+                  </Badge>
+                )}
+              </div>
 
               {issue.assignee && (
                 <Avatar className="h-6 w-6">
@@ -5,47 +5,97 @@ import { SortableContext, verticalListSortingStrategy } from "@dnd-kit/sortable"
 import { KanbanCard } from "./kanban-card"
 import { Card, CardContent, CardHeader } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
+import { cn } from "@/lib/utils"
+import type { IncomingIssueLink } from "@/types/models"
 import type { Tables } from "@/types/database.types"
 
 type Issue = Tables<"issues"> & {
   status: Tables<"statuses">
   assignee: Pick<Tables<"users">, "id" | "display_name" | "avatar_url"> | null
   reporter: Pick<Tables<"users">, "id" | "display_name" | "avatar_url">
+  subtasks?: Pick<Tables<"subtasks">, "id" | "completed">[]
+  worklogs?: Pick<Tables<"worklogs">, "hours">[]
+  attachment_count?: number
+  labels?: Pick<Tables<"labels">, "id" | "name" | "color">[]
+  project?: Pick<Tables<"projects">, "id" | "key">
+  incoming_links?: IncomingIssueLink[]
 }
 
 type Status = Tables<"statuses">
 
+// A column at its limit is full, not breached
+export const isOverWipLimit = (status: Status, count: number) =>
+  status.wip_limit !== null && count > status.wip_limit
+
+/**
+ * Issue count of a status, shown as "count/limit" when it has a WIP limit
+ */
+export function ColumnCount({ status, count }: { status: Status; count: number }) {
+  return (
+    <Badge
+      variant={isOverWipLimit(status, count) ? "destructive" : "secondary"}
+      title={status.wip_limit !== null ? `WIP limit ${status.wip_limit}` : undefined}
+    >
+      {status.wip_limit !== null ? `${count}/${status.wip_limit}` : count}
+    </Badge>
+  )
+}
+
 interface KanbanColumnProps {
   status: Status
   issues: Issue[]
   onIssueClick: (issue: Issue) => void
+  /**
+   * Issues in the status for the WIP counter, defaults to this column's
+   */
+  count?: number
+  /**
+   * Defaults to `status-<id>`; swimlanes give each lane's column its own
+   */
+  droppableId?: string
+  /**
+   * Leaves out the status header, which swimlanes show once above all lanes
+   */
+  compact?: boolean
 }
 
-export function KanbanColumn({ status, issues, onIssueClick }: KanbanColumnProps) {
+export function KanbanColumn({
+  status,
+  issues,
+  onIssueClick,
+  count = issues.length,
+  droppableId = `status-${status.id}`,
+  compact = false,
+}: KanbanColumnProps) {
   const { setNodeRef } = useDroppable({
-    id: `status-${status.id}`,
+    id: droppableId,
   })
 
   return (
-    <Card className="w-80 flex-shrink-0">
-      <CardHeader className="pb-3">
-        <div className="flex items-center justify-between">
-          <div className="flex items-center gap-2">
-            <div
-              className="h-3 w-3 rounded-full"
-              style={{ backgroundColor: status.color }}
-            />
-            <h3 className="font-semibold">{status.name}</h3>
+    <Card
+      className={cn(
+        "w-80 flex-shrink-0",
+        isOverWipLimit(status, count) && "border-destructive bg-destructive/5"
+      )}
+    >
+      {!compact && (
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <div
+                className="h-3 w-3 rounded-full"
+                style={{ backgroundColor: status.color }}
+              />
+              <h3 className="font-semibold">{status.name}</h3>
+            </div>
+            <ColumnCount status={status} count={count} />
           </div>
-          <Badge variant="secondary" className="ml-2">
-            {issues.length}
-          </Badge>
-        </div>
-      </CardHeader>
-      <CardContent>
+        </CardHeader>
+      )}
+      <CardContent className={compact ? "p-3" : undefined}>
         <div
           ref={setNodeRef}
-          className="min-h-[200px] space-y-2"
+          className={cn("space-y-2", compact ? "min-h-[80px]" : "min-h-[200px]")}
         >
           <SortableContext
             items={issues.map((issue) => issue.id)}
@@ -61,7 +111,12 @@ export function KanbanColumn({ status, issues, onIssueClick }: KanbanColumnProps
           </SortableContext>
 
           {issues.length === 0 && (
-            <div className="flex h-32 items-center justify-center rounded-lg border-2 border-dashed border-muted-foreground/25 text-sm text-muted-foreground">
+            <div
+              className={cn(
+                "flex items-center justify-center rounded-lg border-2 border-dashed border-muted-foreground/25 text-sm text-muted-foreground",
+                compact ? "h-16" : "h-32"
+              )}
+            >
               Drop issues here
             </div>
           )}
@@ -0,0 +1,75 @@
+"use client"
+
+import { LabelChip } from "./LabelChip"
+import { LabelPicker } from "./LabelPicker"
+import { Spinner } from "@/components/ui/spinner"
+import { useIssueLabels, useProjectLabels } from "@/hooks/use-labels"
+
+interface IssueLabelsProps {
+  issueId: string
+  projectId: string
+}
+
+/**
+ * IssueLabels Component
+ *
+ * Shows an issue's labels and lets members change them
+ * from the project label catalog.
+ */
+export function IssueLabels({ issueId, projectId }: IssueLabelsProps) {
+  const { labels: catalog, loading: catalogLoading, addLabel } = useProjectLabels(projectId)
+  const { labels, loading, error, updateLabels } = useIssueLabels(issueId)
+
+  const selectedIds = labels.map((label) => label.id)
+
+  const handleChange = async (labelIds: string[]) => {
+    try {
+      await updateLabels(labelIds, catalog)
+    } catch (err) {
+      console.error("Failed to update labels:", err)
+    }
+  }
+
+  const handleCreate = async (name: string, color: string) => {
+    const label = await addLabel(name, color)
+    // Attach it here rather than through the picker: `catalog` does not
+    // contain the new label until the next render
+    if (label) {
+      await updateLabels([...selectedIds, label.id], [...catalog, label])
+    }
+    return null
+  }
+
+  if (loading || catalogLoading) {
+    return <Spinner size="sm" />
+  }
+
+  if (error) {
+    return <p className="text-sm text-destructive">라벨을 불러오지 못했습니다</p>
+  }
+
+  return (
+    <div className="space-y-2">
+      {labels.length > 0 ? (
+        <div className="flex flex-wrap gap-1">
+          {labels.map((label) => (
+            <LabelChip
+              key={label.id}
+              label={label}
+              onRemove={() => handleChange(selectedIds.filter((id) => id !== label.id))}
+            />
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">라벨 없음</p>
+      )}
+
+      <LabelPicker
+        labels={catalog}
+        selectedIds={selectedIds}
+        onChange={handleChange}
+        onCreate={handleCreate}
+      />
+    </div>
+  )
+}
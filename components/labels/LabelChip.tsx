@@ -0,0 +1,42 @@
+import { X } from "lucide-react"
+import { cn } from "@/lib/utils"
+import type { Label } from "@/types/models"
+
+interface LabelChipProps {
+  label: Pick<Label, "id" | "name" | "color">
+  onRemove?: () => void
+  className?: string
+}
+
+/**
+ * LabelChip Component
+ *
+ * Small colored chip for a project label.
+ */
+export function LabelChip({ label, onRemove, className }: LabelChipProps) {
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs font-medium",
+        className
+      )}
+      style={{
+        backgroundColor: `${label.color}1a`,
+        borderColor: `${label.color}66`,
+        color: label.color,
+      }}
+    >
+      {label.name}
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          className="rounded-full hover:bg-black/10"
+          aria-label={`Remove label ${label.name}`}
+        >
+          <X className="h-3 w-3" />
+        </button>
+      )}
+    </span>
+  )
+}
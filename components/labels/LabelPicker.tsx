@@ -0,0 +1,119 @@
+"use client"
+
+import { useState } from "react"
+import { Check, Plus, Tag } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { LABEL_COLORS, type Label } from "@/types/models"
+
+type PickerLabel = Pick<Label, "id" | "name" | "color">
+
+interface LabelPickerProps {
+  labels: PickerLabel[]
+  selectedIds: string[]
+  onChange: (labelIds: string[]) => void
+  onCreate?: (name: string, color: string) => Promise<PickerLabel | null>
+  disabled?: boolean
+}
+
+/**
+ * LabelPicker Component
+ *
+ * Popover for selecting labels from the project catalog.
+ * When `onCreate` is given, unknown names can be added as new labels.
+ */
+export function LabelPicker({
+  labels,
+  selectedIds,
+  onChange,
+  onCreate,
+  disabled,
+}: LabelPickerProps) {
+  const [search, setSearch] = useState("")
+  const [isCreating, setIsCreating] = useState(false)
+
+  const query = search.trim().toLowerCase()
+  const filteredLabels = labels.filter((label) => label.name.toLowerCase().includes(query))
+  const canCreate =
+    onCreate && query.length > 0 && !labels.some((label) => label.name.toLowerCase() === query)
+
+  const toggleLabel = (labelId: string) => {
+    onChange(
+      selectedIds.includes(labelId)
+        ? selectedIds.filter((id) => id !== labelId)
+        : [...selectedIds, labelId]
+    )
+  }
+
+  const handleCreate = async () => {
+    if (!onCreate) return
+
+    try {
+      setIsCreating(true)
+      const color = LABEL_COLORS[labels.length % LABEL_COLORS.length]
+      const label = await onCreate(search.trim(), color)
+
+      if (label) {
+        onChange([...selectedIds, label.id])
+      }
+      setSearch("")
+    } catch (error) {
+      console.error("Failed to create label:", error)
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" size="sm" className="gap-2" disabled={disabled}>
+          <Tag className="h-4 w-4" />
+          라벨
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-2" align="start">
+        <Input
+          placeholder="라벨 검색..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="mb-2 h-8"
+        />
+
+        <div className="max-h-60 space-y-1 overflow-y-auto">
+          {filteredLabels.map((label) => (
+            <button
+              key={label.id}
+              type="button"
+              onClick={() => toggleLabel(label.id)}
+              className="flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-sm hover:bg-muted"
+            >
+              <span className="h-3 w-3 rounded-full" style={{ backgroundColor: label.color }} />
+              <span className="flex-1 truncate text-left">{label.name}</span>
+              {selectedIds.includes(label.id) && <Check className="h-4 w-4" />}
+            </button>
+          ))}
+
+          {filteredLabels.length === 0 && !canCreate && (
+            <p className="px-2 py-4 text-center text-sm text-muted-foreground">
+              라벨이 없습니다
+            </p>
+          )}
+
+          {canCreate && (
+            <button
+              type="button"
+              onClick={handleCreate}
+              disabled={isCreating}
+              className="flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-sm text-muted-foreground hover:bg-muted disabled:opacity-50"
+            >
+              <Plus className="h-4 w-4" />
+              &quot;{search.trim()}&quot; 라벨 만들기
+            </button>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
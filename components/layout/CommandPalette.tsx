@@ -0,0 +1,378 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import { usePathname, useRouter } from "next/navigation"
+import {
+  Clock,
+  FolderKanban,
+  KanbanSquare,
+  LayoutDashboard,
+  Plus,
+  Search,
+  UserCheck,
+  Users,
+  type LucideIcon,
+} from "lucide-react"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog"
+import { Spinner } from "@/components/ui/spinner"
+import { IssueTypeIcon } from "@/components/issues/IssueTypeIcon"
+import { useRecentItems } from "@/hooks/use-recent-items"
+import { useToast } from "@/hooks/use-toast"
+import { cn } from "@/lib/utils"
+import { formatIssueKey } from "@/utils/issue-key"
+import { assignIssue, getIssueById, searchWorkspace } from "@/utils/supabase/queries"
+import type { WorkspaceSearchResults } from "@/types/models"
+
+interface CommandPaletteProps {
+  userId: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+interface PaletteItem {
+  key: string
+  group: string
+  label: string
+  detail?: string
+  icon: React.ReactNode
+  run: () => void | Promise<void>
+}
+
+const SEARCH_DELAY_MS = 200
+
+const icon = (Icon: LucideIcon) => <Icon className="h-4 w-4 text-muted-foreground" />
+
+/**
+ * CommandPalette Component
+ *
+ * Ctrl/Cmd+K dialog for jumping to issues, projects, teams and people
+ * across all of the user's teams, and for running common actions on the
+ * current page. Shows recently visited items before anything is typed.
+ */
+export function CommandPalette({ userId, open, onOpenChange }: CommandPaletteProps) {
+  const router = useRouter()
+  const pathname = usePathname()
+  const { toast } = useToast()
+  const { items: recentItems } = useRecentItems(userId)
+  const [term, setTerm] = useState("")
+  const [results, setResults] = useState<WorkspaceSearchResults | null>(null)
+  const [searching, setSearching] = useState(false)
+  const [activeIndex, setActiveIndex] = useState(0)
+  const [currentIssue, setCurrentIssue] = useState<{
+    id: string
+    projectId: string
+    assigneeId: string | null
+  } | null>(null)
+  const listRef = useRef<HTMLUListElement>(null)
+  const searchId = useRef(0)
+
+  const routeProjectId = pathname.match(/^\/projects\/([^/]+)/)?.[1]
+  const routeIssueId = pathname.match(/^\/issues\/([^/]+)/)?.[1]
+  const issueId = routeIssueId === "new" ? undefined : routeIssueId
+  const projectId = routeProjectId ?? currentIssue?.projectId
+
+  // Global shortcut
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === "k") {
+        e.preventDefault()
+        onOpenChange(!open)
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [open, onOpenChange])
+
+  // Start fresh every time the palette opens
+  useEffect(() => {
+    if (open) {
+      setTerm("")
+      setResults(null)
+      setActiveIndex(0)
+    }
+  }, [open])
+
+  // The issue page's project and assignee drive "Go to board" and "Assign to me"
+  useEffect(() => {
+    if (!open || !issueId) {
+      setCurrentIssue(null)
+      return
+    }
+
+    let cancelled = false
+    getIssueById(issueId).then(({ data }) => {
+      if (!cancelled && data) {
+        setCurrentIssue({
+          id: data.id,
+          projectId: data.project_id,
+          assigneeId: data.assignee_id,
+        })
+      }
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [open, issueId])
+
+  useEffect(() => {
+    const search = term.trim()
+    if (!search) {
+      searchId.current++
+      setResults(null)
+      setSearching(false)
+      return
+    }
+
+    setSearching(true)
+    const id = ++searchId.current
+    const timer = setTimeout(async () => {
+      const { data } = await searchWorkspace(userId, search)
+      // Ignore responses to terms typed over since
+      if (id !== searchId.current) return
+      setResults(data)
+      setSearching(false)
+    }, SEARCH_DELAY_MS)
+
+    return () => clearTimeout(timer)
+  }, [term, userId])
+
+  const go = useCallback(
+    (href: string) => {
+      onOpenChange(false)
+      router.push(href)
+    },
+    [onOpenChange, router]
+  )
+
+  const items = useMemo<PaletteItem[]>(() => {
+    const search = term.trim().toLowerCase()
+
+    const actions: PaletteItem[] = [
+      {
+        key: "action:create-issue",
+        group: "Actions",
+        label: "Create issue",
+        icon: icon(Plus),
+        run: () => go(projectId ? `/issues/new?project=${projectId}` : "/issues/new"),
+      },
+      ...(projectId
+        ? [
+            {
+              key: "action:board",
+              group: "Actions",
+              label: "Go to board",
+              icon: icon(KanbanSquare),
+              run: () => go(`/projects/${projectId}/board`),
+            },
+          ]
+        : []),
+      ...(currentIssue && currentIssue.assigneeId !== userId
+        ? [
+            {
+              key: "action:assign-to-me",
+              group: "Actions",
+              label: "Assign to me",
+              icon: icon(UserCheck),
+              run: async () => {
+                onOpenChange(false)
+                const { error } = await assignIssue(currentIssue.id, userId)
+                if (error) {
+                  toast({
+                    title: "Could not assign issue",
+                    description: "Please try again.",
+                    variant: "destructive",
+                  })
+                  return
+                }
+                setCurrentIssue({ ...currentIssue, assigneeId: userId })
+                toast({ title: "Assigned to you" })
+              },
+            },
+          ]
+        : []),
+      {
+        key: "action:dashboard",
+        group: "Actions",
+        label: "Go to Dashboard",
+        icon: icon(LayoutDashboard),
+        run: () => go("/dashboard"),
+      },
+      {
+        key: "action:projects",
+        group: "Actions",
+        label: "Go to Projects",
+        icon: icon(FolderKanban),
+        run: () => go("/projects"),
+      },
+      {
+        key: "action:teams",
+        group: "Actions",
+        label: "Go to Teams",
+        icon: icon(Users),
+        run: () => go("/teams"),
+      },
+      {
+        key: "action:timesheet",
+        group: "Actions",
+        label: "Go to Timesheet",
+        icon: icon(Clock),
+        run: () => go("/timesheet"),
+      },
+    ]
+
+    if (!search) {
+      const recent = recentItems.map<PaletteItem>((item) => ({
+        key: `recent:${item.type}:${item.id}`,
+        group: "Recent",
+        label: item.title,
+        detail: item.subtitle,
+        icon: icon(item.type === "issue" ? Clock : FolderKanban),
+        run: () => go(item.href),
+      }))
+      return [...recent, ...actions]
+    }
+
+    return [
+      ...actions.filter((action) => action.label.toLowerCase().includes(search)),
+      ...(results?.issues ?? []).map<PaletteItem>((issue) => ({
+        key: `issue:${issue.id}`,
+        group: "Issues",
+        label: issue.title,
+        detail: `${formatIssueKey(issue.project.key, issue.number)} · ${issue.status.name}`,
+        icon: <IssueTypeIcon type={issue.type} />,
+        run: () => go(`/issues/${issue.id}`),
+      })),
+      ...(results?.projects ?? []).map<PaletteItem>((project) => ({
+        key: `project:${project.id}`,
+        group: "Projects",
+        label: project.name,
+        detail: project.key,
+        icon: icon(FolderKanban),
+        run: () => go(`/projects/${project.id}`),
+      })),
+      ...(results?.teams ?? []).map<PaletteItem>((team) => ({
+        key: `team:${team.id}`,
+        group: "Teams",
+        label: team.name,
+        icon: icon(Users),
+        run: () => go(`/teams/${team.id}`),
+      })),
+      ...(results?.people ?? []).map<PaletteItem>((person) => ({
+        key: `person:${person.id}`,
+        group: "People",
+        label: person.display_name,
+        detail: person.email,
+        icon: (
+          <Avatar className="h-4 w-4">
+            <AvatarImage src={person.avatar_url || undefined} />
+            <AvatarFallback className="text-[8px]">
+              {person.display_name.charAt(0).toUpperCase()}
+            </AvatarFallback>
+          </Avatar>
+        ),
+        run: () => go(`/teams/${person.team_id}`),
+      })),
+    ]
+  }, [term, results, recentItems, projectId, currentIssue, userId, go, onOpenChange, toast])
+
+  // Keep the highlighted item in range and in view
+  useEffect(() => {
+    setActiveIndex((index) => Math.min(index, Math.max(items.length - 1, 0)))
+  }, [items.length])
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: "nearest" })
+  }, [activeIndex])
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (items.length === 0) return
+
+    if (e.key === "ArrowDown") {
+      e.preventDefault()
+      setActiveIndex((index) => (index + 1) % items.length)
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault()
+      setActiveIndex((index) => (index - 1 + items.length) % items.length)
+    } else if (e.key === "Enter") {
+      e.preventDefault()
+      items[activeIndex]?.run()
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="top-[20%] translate-y-0 gap-0 p-0 sm:max-w-[560px]"
+        aria-describedby={undefined}
+      >
+        <DialogTitle className="sr-only">Search</DialogTitle>
+        <div className="flex items-center gap-2 border-b pl-3 pr-10">
+          <Search className="h-4 w-4 shrink-0 text-muted-foreground" />
+          <input
+            value={term}
+            onChange={(e) => {
+              setTerm(e.target.value)
+              setActiveIndex(0)
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder="Search issues, projects, teams and people..."
+            className="h-12 flex-1 bg-transparent text-sm outline-none placeholder:text-muted-foreground"
+            role="combobox"
+            aria-expanded={items.length > 0}
+            aria-controls="command-palette-list"
+            aria-activedescendant={items[activeIndex] ? `command-palette-${activeIndex}` : undefined}
+            autoComplete="off"
+            spellCheck={false}
+          />
+          {searching && <Spinner className="h-4 w-4" />}
+        </div>
+
+        <ul
+          ref={listRef}
+          id="command-palette-list"
+          role="listbox"
+          className="max-h-[360px] overflow-y-auto p-1"
+        >
+          {items.map((item, index) => (
+            <li key={item.key} role="presentation">
+              {item.group !== items[index - 1]?.group && (
+                <div className="px-2 pb-1 pt-2 text-xs font-medium text-muted-foreground">
+                  {item.group}
+                </div>
+              )}
+              <div
+                id={`command-palette-${index}`}
+                data-index={index}
+                role="option"
+                aria-selected={index === activeIndex}
+                onClick={() => item.run()}
+                onMouseMove={() => setActiveIndex(index)}
+                className={cn(
+                  "flex cursor-pointer items-center gap-2 rounded-sm px-2 py-1.5 text-sm",
+                  index === activeIndex && "bg-accent text-accent-foreground"
+                )}
+              >
+                <span className="flex h-4 w-4 shrink-0 items-center justify-center">
+                  {item.icon}
+                </span>
+                <span className="flex-1 truncate">{item.label}</span>
+                {item.detail && (
+                  <span className="shrink-0 text-xs text-muted-foreground">{item.detail}</span>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        {term.trim() && !searching && items.length === 0 && (
+          <p className="py-8 text-center text-sm text-muted-foreground">No results found</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
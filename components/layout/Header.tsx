@@ -1,5 +1,6 @@
 "use client"
 
+import { useEffect, useState } from "react"
 import { User } from "@supabase/supabase-js"
 import {
   DropdownMenu,
@@ -12,7 +13,8 @@ import {
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Button } from "@/components/ui/button"
 import { NotificationBell } from "@/components/notifications/NotificationBell"
-import { LogOut, Settings, User as UserIcon } from "lucide-react"
+import { CommandPalette } from "./CommandPalette"
+import { LogOut, Search, Settings, User as UserIcon } from "lucide-react"
 import { signOut } from "@/utils/supabase/auth"
 import { useRouter } from "next/navigation"
 
@@ -22,6 +24,13 @@ interface HeaderProps {
 
 export function Header({ user }: HeaderProps) {
   const router = useRouter()
+  const [paletteOpen, setPaletteOpen] = useState(false)
+  const [isMac, setIsMac] = useState(false)
+
+  // Only known in the browser
+  useEffect(() => {
+    setIsMac(/Mac|iPhone|iPad/.test(navigator.userAgent))
+  }, [])
 
   const handleSignOut = async () => {
     await signOut()
@@ -49,6 +58,18 @@ export function Header({ user }: HeaderProps) {
         </div>
 
         <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            className="h-8 w-56 justify-start gap-2 px-3 text-sm font-normal text-muted-foreground"
+            onClick={() => setPaletteOpen(true)}
+          >
+            <Search className="h-4 w-4" />
+            <span className="flex-1 text-left">Search...</span>
+            <kbd className="rounded border bg-muted px-1.5 font-mono text-[10px]">
+              {isMac ? "⌘K" : "Ctrl K"}
+            </kbd>
+          </Button>
+          <CommandPalette userId={user.id} open={paletteOpen} onOpenChange={setPaletteOpen} />
           <NotificationBell userId={user.id} />
 
           <DropdownMenu>
@@ -10,6 +10,7 @@ import {
   Users,
   Settings,
   Plus,
+  Clock,
 } from "lucide-react"
 
 interface SidebarProps {
@@ -27,6 +28,11 @@ const navigation = [
     href: "/projects",
     icon: FolderKanban,
   },
+  {
+    name: "Timesheet",
+    href: "/timesheet",
+    icon: Clock,
+  },
   {
     name: "Teams",
     href: "/teams",
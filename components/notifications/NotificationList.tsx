@@ -16,6 +16,7 @@ import { formatDistanceToNow } from "date-fns"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { useNotifications, type NotificationWithDetails } from "@/hooks/use-notifications"
+import { formatIssueKey } from "@/utils/issue-key"
 
 interface NotificationListProps {
   notifications: NotificationWithDetails[]
@@ -67,6 +68,7 @@ export function NotificationList({ notifications, userId }: NotificationListProp
           </div>
         )
       case "issue_commented":
+      case "comment_replied":
         return (
           <div className="w-10 h-10 rounded-full bg-green-100 flex items-center justify-center flex-shrink-0">
             <svg
@@ -183,7 +185,11 @@ export function NotificationList({ notifications, userId }: NotificationListProp
 
                   {notification.issue && (
                     <Badge variant="outline" className="text-xs mb-2">
-                      {notification.issue.project.key} - {notification.issue.title}
+                      {formatIssueKey(
+                        notification.issue.project.key,
+                        notification.issue.number
+                      )}{" "}
+                      - {notification.issue.title}
                     </Badge>
                   )}
 
@@ -0,0 +1,79 @@
+"use client"
+
+import { Spinner } from "@/components/ui/spinner"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { useSavedViews } from "@/hooks/use-saved-views"
+import { useToast } from "@/hooks/use-toast"
+
+interface DefaultViewSettingProps {
+  projectId: string
+}
+
+// Select items need a non-empty value
+const BUILT_IN_VIEW = "built-in"
+
+/**
+ * DefaultViewSetting Component
+ *
+ * Picks the saved view the project board opens with. Only views shared
+ * with the project are offered, since others could not load a personal one.
+ */
+export function DefaultViewSetting({ projectId }: DefaultViewSettingProps) {
+  const { views, defaultViewId, loading, error, setDefaultView } = useSavedViews(projectId)
+  const { toast } = useToast()
+
+  const handleChange = async (value: string) => {
+    try {
+      await setDefaultView(value === BUILT_IN_VIEW ? null : value)
+      toast({ title: "기본 보기 변경", description: "보드를 열 때 이 보기가 적용됩니다" })
+    } catch (err) {
+      console.error("Error setting default view:", err)
+      toast({
+        title: "변경 실패",
+        description: "기본 보기를 변경하지 못했습니다. 다시 시도해주세요.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Spinner />
+      </div>
+    )
+  }
+
+  if (error) {
+    return <p className="text-sm text-destructive">저장된 보기를 불러오지 못했습니다</p>
+  }
+
+  return (
+    <div className="space-y-2">
+      <Select value={defaultViewId ?? BUILT_IN_VIEW} onValueChange={handleChange}>
+        <SelectTrigger className="w-72">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={BUILT_IN_VIEW}>기본 보기 (필터 없음)</SelectItem>
+          {views.map((view) => (
+            <SelectItem key={view.id} value={view.id}>
+              {view.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {views.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          보드에서 보기를 저장하고 프로젝트 멤버와 공유하면 여기서 선택할 수 있습니다
+        </p>
+      )}
+    </div>
+  )
+}
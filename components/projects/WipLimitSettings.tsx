@@ -0,0 +1,138 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Input } from "@/components/ui/input"
+import { Spinner } from "@/components/ui/spinner"
+import { useProjectStatuses, useWipLimitPolicy } from "@/hooks/use-projects"
+import { useToast } from "@/hooks/use-toast"
+import type { Status } from "@/types/models"
+
+interface WipLimitSettingsProps {
+  projectId: string
+}
+
+/**
+ * WipLimitSettings Component
+ *
+ * Edits the work-in-progress limit of each status column and whether the
+ * board blocks moves into a full column. A blank limit means no limit.
+ */
+export function WipLimitSettings({ projectId }: WipLimitSettingsProps) {
+  const {
+    statuses,
+    loading: statusesLoading,
+    error: statusesError,
+    updateStatus,
+  } = useProjectStatuses(projectId)
+  const { enforced, loading: policyLoading, setEnforced } = useWipLimitPolicy(projectId)
+  const { toast } = useToast()
+
+  const handleLimitChange = async (status: Status, wipLimit: number | null) => {
+    if (wipLimit === status.wip_limit) return
+
+    try {
+      await updateStatus(status.id, { wip_limit: wipLimit })
+      toast({
+        title: "WIP 제한 변경",
+        description: wipLimit
+          ? `"${status.name}" 컬럼은 최대 ${wipLimit}개의 이슈를 가집니다`
+          : `"${status.name}" 컬럼의 WIP 제한을 없앴습니다`,
+      })
+    } catch (err) {
+      console.error("Error updating WIP limit:", err)
+      toast({
+        title: "변경 실패",
+        description: "WIP 제한을 변경하지 못했습니다. 다시 시도해주세요.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleEnforcedChange = async (value: boolean) => {
+    try {
+      await setEnforced(value)
+    } catch (err) {
+      console.error("Error updating WIP limit setting:", err)
+      toast({
+        title: "변경 실패",
+        description: "설정을 변경하지 못했습니다. 다시 시도해주세요.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  if (statusesLoading || policyLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Spinner />
+      </div>
+    )
+  }
+
+  if (statusesError) {
+    return <p className="text-sm text-destructive">상태를 불러오지 못했습니다</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {statuses.map((status) => (
+          <WipLimitRow key={status.id} status={status} onChange={handleLimitChange} />
+        ))}
+      </div>
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={enforced}
+          onChange={(e) => handleEnforcedChange(e.target.checked)}
+        />
+        제한에 도달한 컬럼으로의 이동 막기 (관리자는 확인 후 이동 가능)
+      </label>
+    </div>
+  )
+}
+
+interface WipLimitRowProps {
+  status: Status
+  onChange: (status: Status, wipLimit: number | null) => void
+}
+
+function WipLimitRow({ status, onChange }: WipLimitRowProps) {
+  const [value, setValue] = useState(status.wip_limit?.toString() ?? "")
+
+  // Follow saved changes
+  useEffect(() => {
+    setValue(status.wip_limit?.toString() ?? "")
+  }, [status.wip_limit])
+
+  const commit = () => {
+    const parsed = Number.parseInt(value, 10)
+    if (value.trim() && (!Number.isInteger(parsed) || parsed < 1)) {
+      setValue(status.wip_limit?.toString() ?? "")
+      return
+    }
+    onChange(status, value.trim() ? parsed : null)
+  }
+
+  return (
+    <div className="flex items-center gap-3">
+      <div className="flex w-48 items-center gap-2">
+        <div className="h-3 w-3 rounded-full" style={{ backgroundColor: status.color }} />
+        <span className="truncate text-sm font-medium">{status.name}</span>
+      </div>
+      <Input
+        type="number"
+        min={1}
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") e.currentTarget.blur()
+        }}
+        placeholder="제한 없음"
+        className="w-32"
+        aria-label={`${status.name} WIP 제한`}
+      />
+    </div>
+  )
+}
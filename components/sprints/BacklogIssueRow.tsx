@@ -0,0 +1,100 @@
+"use client"
+
+import Link from "next/link"
+import { useDraggable } from "@dnd-kit/core"
+import { CSS } from "@dnd-kit/utilities"
+import { GripVertical } from "lucide-react"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Badge } from "@/components/ui/badge"
+import { IssueTypeIcon } from "@/components/issues/IssueTypeIcon"
+import { cn } from "@/lib/utils"
+import { formatIssueKey } from "@/utils/issue-key"
+import { formatHours } from "@/utils/time-tracking"
+import { PRIORITY_LABELS } from "@/types/models"
+import type { Tables } from "@/types/database.types"
+
+export type BacklogIssue = Tables<"issues"> & {
+  status: Pick<Tables<"statuses">, "name" | "color">
+  assignee: Pick<Tables<"users">, "id" | "display_name" | "avatar_url"> | null
+  project?: Pick<Tables<"projects">, "id" | "key">
+}
+
+interface BacklogIssueRowProps {
+  issue: BacklogIssue
+  /**
+   * Rendered inside the drag overlay
+   */
+  isOverlay?: boolean
+}
+
+/**
+ * BacklogIssueRow Component
+ *
+ * Compact, draggable issue row for the backlog and sprint lists.
+ */
+export function BacklogIssueRow({ issue, isOverlay }: BacklogIssueRowProps) {
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
+    id: issue.id,
+    disabled: isOverlay,
+  })
+
+  const style = {
+    transform: CSS.Translate.toString(transform),
+    opacity: isDragging ? 0.5 : 1,
+  }
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      className={cn(
+        "flex items-center gap-3 rounded-md border bg-background px-3 py-2 text-sm",
+        isOverlay && "shadow-lg"
+      )}
+    >
+      <button
+        type="button"
+        className="cursor-grab text-muted-foreground active:cursor-grabbing"
+        aria-label="이슈 이동"
+        {...attributes}
+        {...listeners}
+      >
+        <GripVertical className="h-4 w-4" />
+      </button>
+      <IssueTypeIcon type={issue.type} />
+      {issue.project && (
+        <span className="text-xs font-medium text-muted-foreground">
+          {formatIssueKey(issue.project.key, issue.number)}
+        </span>
+      )}
+      <Link href={`/issues/${issue.id}`} className="min-w-0 flex-1 truncate hover:underline">
+        {issue.title}
+      </Link>
+      {issue.original_estimate_hours !== null && (
+        <span className="text-xs text-muted-foreground">
+          {formatHours(issue.original_estimate_hours)}
+        </span>
+      )}
+      <Badge variant="outline" className="text-xs">
+        {PRIORITY_LABELS[issue.priority]}
+      </Badge>
+      <Badge
+        variant="outline"
+        className="text-xs"
+        style={{ borderColor: issue.status.color, color: issue.status.color }}
+      >
+        {issue.status.name}
+      </Badge>
+      {issue.assignee ? (
+        <Avatar className="h-6 w-6">
+          <AvatarImage src={issue.assignee.avatar_url || undefined} />
+          <AvatarFallback>
+            {issue.assignee.display_name.charAt(0).toUpperCase()}
+          </AvatarFallback>
+        </Avatar>
+      ) : (
+        <div className="h-6 w-6" />
+      )}
+    </div>
+  )
+}
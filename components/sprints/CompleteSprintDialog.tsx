@@ -0,0 +1,142 @@
+"use client"
+
+import { useState } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+import { isDoneStatus } from "@/utils/issue-links"
+import type { Sprint } from "@/types/models"
+
+const BACKLOG = "backlog"
+
+interface CompleteSprintDialogProps {
+  sprint: Sprint
+  /**
+   * Issues currently in the sprint
+   */
+  issues: { status: { name: string } }[]
+  /**
+   * Planned sprints that can take over unfinished issues
+   */
+  plannedSprints: Sprint[]
+  onComplete: (moveToSprintId: string | null) => Promise<Sprint | null>
+  /**
+   * Custom trigger button (optional)
+   */
+  trigger?: React.ReactNode
+}
+
+/**
+ * CompleteSprintDialog Component
+ *
+ * Summarises finished and unfinished issues of the active sprint and
+ * asks where unfinished issues should go before completing it.
+ */
+export function CompleteSprintDialog({
+  sprint,
+  issues,
+  plannedSprints,
+  onComplete,
+  trigger,
+}: CompleteSprintDialogProps) {
+  const { toast } = useToast()
+  const [open, setOpen] = useState(false)
+  const [target, setTarget] = useState(BACKLOG)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const doneCount = issues.filter((issue) => isDoneStatus(issue.status.name)).length
+  const unfinishedCount = issues.length - doneCount
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen)
+    if (nextOpen) {
+      setTarget(plannedSprints[0]?.id ?? BACKLOG)
+    }
+  }
+
+  const handleComplete = async () => {
+    setIsSubmitting(true)
+    try {
+      const completed = await onComplete(target === BACKLOG ? null : target)
+      toast({
+        title: "스프린트 완료",
+        description: `${sprint.name}: 완료 ${completed?.completed_issue_count ?? doneCount}개, 미완료 ${completed?.incomplete_issue_count ?? unfinishedCount}개`,
+      })
+      setOpen(false)
+    } catch (err) {
+      console.error("Error completing sprint:", err)
+      toast({
+        title: "완료 실패",
+        description: "스프린트를 완료하지 못했습니다. 다시 시도해주세요.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {trigger || <Button size="sm">스프린트 완료</Button>}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{sprint.name} 완료</DialogTitle>
+          <DialogDescription>
+            완료된 이슈 {doneCount}개, 미완료 이슈 {unfinishedCount}개
+          </DialogDescription>
+        </DialogHeader>
+
+        {unfinishedCount > 0 && (
+          <div className="space-y-2 py-4">
+            <Label>미완료 이슈 이동</Label>
+            <Select value={target} onValueChange={setTarget}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {plannedSprints.map((planned) => (
+                  <SelectItem key={planned.id} value={planned.id}>
+                    {planned.name}
+                  </SelectItem>
+                ))}
+                <SelectItem value={BACKLOG}>백로그</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => setOpen(false)}
+            disabled={isSubmitting}
+          >
+            취소
+          </Button>
+          <Button onClick={handleComplete} disabled={isSubmitting}>
+            {isSubmitting ? "완료 중..." : "스프린트 완료"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
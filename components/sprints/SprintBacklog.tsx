@@ -0,0 +1,359 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import Link from "next/link"
+import { format, parseISO } from "date-fns"
+import {
+  DndContext,
+  DragOverlay,
+  KeyboardSensor,
+  PointerSensor,
+  pointerWithin,
+  useSensor,
+  useSensors,
+  DragEndEvent,
+  DragStartEvent,
+} from "@dnd-kit/core"
+import { sortableKeyboardCoordinates } from "@dnd-kit/sortable"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Spinner } from "@/components/ui/spinner"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { BacklogIssueRow } from "./BacklogIssueRow"
+import { CompleteSprintDialog } from "./CompleteSprintDialog"
+import { SprintFormDialog } from "./SprintFormDialog"
+import { SprintSection } from "./SprintSection"
+import { useCustomFields } from "@/hooks/use-custom-fields"
+import { useIssues } from "@/hooks/use-issues"
+import { useSprints } from "@/hooks/use-sprints"
+import { useToast } from "@/hooks/use-toast"
+import { sortIssues } from "@/utils/issue-filters"
+import { SPRINT_STATE_LABELS, type IssueSortOptions, type Sprint } from "@/types/models"
+
+const BACKLOG_ID = "backlog"
+const CUSTOM_SORT_PREFIX = "custom:"
+
+// Built-in sort choices; custom fields are appended per project
+const SORT_OPTIONS: { value: string; label: string; sort: IssueSortOptions }[] = [
+  { value: "created_at", label: "생성순", sort: { field: "created_at", direction: "asc" } },
+  { value: "priority", label: "우선순위", sort: { field: "priority", direction: "desc" } },
+  { value: "updated_at", label: "최근 수정", sort: { field: "updated_at", direction: "desc" } },
+  { value: "title", label: "제목", sort: { field: "title", direction: "asc" } },
+]
+
+interface SprintBacklogProps {
+  projectId: string
+  currentUserId: string
+}
+
+function formatSprintDates(sprint: Sprint) {
+  if (!sprint.start_date && !sprint.end_date) return null
+
+  const start = sprint.start_date ? format(parseISO(sprint.start_date), "MMM d") : "?"
+  const end = sprint.end_date ? format(parseISO(sprint.end_date), "MMM d") : "?"
+  return `${start} – ${end}`
+}
+
+/**
+ * SprintBacklog Component
+ *
+ * Sprint planning: the active sprint, upcoming sprints and the backlog.
+ * Issues are dragged between them; sprints are created, started and
+ * completed from here. Epics are planned through their child issues.
+ */
+export function SprintBacklog({ projectId, currentUserId }: SprintBacklogProps) {
+  const { toast } = useToast()
+  const { issues, loading: issuesLoading, error: issuesError, updateIssue } = useIssues(projectId)
+  const {
+    sprints,
+    activeSprint,
+    plannedSprints,
+    loading: sprintsLoading,
+    error: sprintsError,
+    addSprint,
+    editSprint,
+    removeSprint,
+    startSprint,
+    completeSprint,
+  } = useSprints(projectId)
+  const { fields: customFields } = useCustomFields(projectId)
+  const [activeId, setActiveId] = useState<string | null>(null)
+  const [sortValue, setSortValue] = useState(SORT_OPTIONS[0].value)
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 8,
+      },
+    }),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  )
+
+  // Issues of completed sprints stay with them and drop out of planning
+  const issuesBySprint = useMemo(() => {
+    const sort: IssueSortOptions = sortValue.startsWith(CUSTOM_SORT_PREFIX)
+      ? {
+          field: "custom_field",
+          custom_field_id: sortValue.slice(CUSTOM_SORT_PREFIX.length),
+          direction: "asc",
+        }
+      : (SORT_OPTIONS.find((option) => option.value === sortValue) ?? SORT_OPTIONS[0]).sort
+    const plannable = sortIssues(
+      issues.filter((issue) => issue.type !== "epic"),
+      sort
+    )
+
+    const grouped: Record<string, typeof plannable> = { [BACKLOG_ID]: [] }
+    for (const issue of plannable) {
+      const key = issue.sprint_id ?? BACKLOG_ID
+      if (!grouped[key]) grouped[key] = []
+      grouped[key].push(issue)
+    }
+    return grouped
+  }, [issues, sortValue])
+
+  const activeIssue = activeId ? issues.find((issue) => issue.id === activeId) : null
+
+  const handleDragStart = (event: DragStartEvent) => {
+    setActiveId(event.active.id as string)
+  }
+
+  const handleDragEnd = async (event: DragEndEvent) => {
+    setActiveId(null)
+
+    const { active, over } = event
+    if (!over) return
+
+    const overId = over.id as string
+    const sprintId = overId === BACKLOG_ID ? null : overId.replace(/^sprint-/, "")
+    const issue = issues.find((i) => i.id === active.id)
+    if (!issue || issue.sprint_id === sprintId) return
+
+    try {
+      await updateIssue(issue.id, { sprint_id: sprintId })
+    } catch (error) {
+      console.error("Error moving issue to sprint:", error)
+      toast({
+        title: "이동 실패",
+        description: "이슈를 이동하지 못했습니다. 다시 시도해주세요.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleStart = async (sprint: Sprint) => {
+    try {
+      await startSprint(sprint.id)
+      toast({
+        title: "스프린트 시작",
+        description: `${sprint.name}이(가) 시작되었습니다`,
+      })
+    } catch (error) {
+      console.error("Error starting sprint:", error)
+      toast({
+        title: "시작 실패",
+        description:
+          error instanceof Error ? error.message : "스프린트를 시작하지 못했습니다",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleDelete = async (sprint: Sprint) => {
+    if (!confirm(`${sprint.name}을(를) 삭제할까요? 이슈는 백로그로 돌아갑니다.`)) return
+
+    try {
+      await removeSprint(sprint.id)
+    } catch (error) {
+      console.error("Error deleting sprint:", error)
+      toast({
+        title: "삭제 실패",
+        description: "스프린트를 삭제하지 못했습니다. 다시 시도해주세요.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  if (issuesLoading || sprintsLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Spinner className="h-8 w-8" />
+      </div>
+    )
+  }
+
+  const error = issuesError || sprintsError
+  if (error) {
+    return (
+      <div className="py-12 text-center text-sm text-destructive">
+        백로그를 불러오지 못했습니다: {error.message}
+      </div>
+    )
+  }
+
+  const completedSprints = sprints.filter((sprint) => sprint.state === "completed")
+
+  const renderDescription = (sprint: Sprint) => {
+    const dates = formatSprintDates(sprint)
+    if (!dates && !sprint.goal) return undefined
+
+    return (
+      <>
+        {dates && <span>{dates}</span>}
+        {dates && sprint.goal && <span> · </span>}
+        {sprint.goal && <span>{sprint.goal}</span>}
+      </>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-end gap-2">
+        <Select value={sortValue} onValueChange={setSortValue}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SORT_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+            {customFields.map((field) => (
+              <SelectItem key={field.id} value={`${CUSTOM_SORT_PREFIX}${field.id}`}>
+                {field.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <SprintFormDialog
+          defaultName={`Sprint ${sprints.length + 1}`}
+          onSubmit={(values) => addSprint(values, currentUserId)}
+        />
+      </div>
+
+      <DndContext
+        sensors={sensors}
+        collisionDetection={pointerWithin}
+        onDragStart={handleDragStart}
+        onDragEnd={handleDragEnd}
+        onDragCancel={() => setActiveId(null)}
+      >
+        <div className="space-y-4">
+          {activeSprint && (
+            <SprintSection
+              droppableId={`sprint-${activeSprint.id}`}
+              title={
+                <span className="flex items-center gap-2">
+                  {activeSprint.name}
+                  <Badge>{SPRINT_STATE_LABELS.active}</Badge>
+                </span>
+              }
+              description={renderDescription(activeSprint)}
+              issues={issuesBySprint[activeSprint.id] ?? []}
+              actions={
+                <>
+                  <Button variant="outline" size="sm" asChild>
+                    <Link href={`/projects/${projectId}/board`}>보드 보기</Link>
+                  </Button>
+                  <CompleteSprintDialog
+                    sprint={activeSprint}
+                    issues={issuesBySprint[activeSprint.id] ?? []}
+                    plannedSprints={plannedSprints}
+                    onComplete={(moveToSprintId) =>
+                      completeSprint(activeSprint.id, moveToSprintId)
+                    }
+                  />
+                </>
+              }
+            />
+          )}
+
+          {plannedSprints.map((sprint) => (
+            <SprintSection
+              key={sprint.id}
+              droppableId={`sprint-${sprint.id}`}
+              title={sprint.name}
+              description={renderDescription(sprint)}
+              issues={issuesBySprint[sprint.id] ?? []}
+              actions={
+                <>
+                  <Button
+                    size="sm"
+                    onClick={() => handleStart(sprint)}
+                    disabled={!!activeSprint}
+                    title={activeSprint ? "진행 중인 스프린트를 먼저 완료하세요" : undefined}
+                  >
+                    스프린트 시작
+                  </Button>
+                  <SprintFormDialog
+                    sprint={sprint}
+                    onSubmit={(values) =>
+                      editSprint(sprint.id, {
+                        name: values.name,
+                        goal: values.goal ?? null,
+                        start_date: values.start_date ?? null,
+                        end_date: values.end_date ?? null,
+                      })
+                    }
+                    trigger={
+                      <Button variant="outline" size="sm">
+                        수정
+                      </Button>
+                    }
+                  />
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(sprint)}>
+                    삭제
+                  </Button>
+                </>
+              }
+            />
+          ))}
+
+          <SprintSection
+            droppableId={BACKLOG_ID}
+            title="백로그"
+            issues={issuesBySprint[BACKLOG_ID]}
+          />
+        </div>
+
+        <DragOverlay>
+          {activeIssue ? <BacklogIssueRow issue={activeIssue} isOverlay /> : null}
+        </DragOverlay>
+      </DndContext>
+
+      {completedSprints.length > 0 && (
+        <div className="space-y-2">
+          <h2 className="font-semibold text-muted-foreground">완료된 스프린트</h2>
+          {completedSprints.map((sprint) => (
+            <div
+              key={sprint.id}
+              className="flex items-center justify-between rounded-md border px-4 py-2 text-sm"
+            >
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{sprint.name}</span>
+                {formatSprintDates(sprint) && (
+                  <span className="text-muted-foreground">{formatSprintDates(sprint)}</span>
+                )}
+              </div>
+              <span className="text-muted-foreground">
+                완료 {sprint.completed_issue_count ?? 0}개 · 미완료{" "}
+                {sprint.incomplete_issue_count ?? 0}개
+                {sprint.completed_at &&
+                  ` · ${format(parseISO(sprint.completed_at), "yyyy-MM-dd")}`}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
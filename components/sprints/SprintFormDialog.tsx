@@ -0,0 +1,186 @@
+"use client"
+
+import { useState } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { useToast } from "@/hooks/use-toast"
+import type { Sprint } from "@/types/models"
+
+export interface SprintFormValues {
+  name: string
+  goal?: string
+  start_date?: string
+  end_date?: string
+}
+
+interface SprintFormDialogProps {
+  /**
+   * Sprint to edit; omit to create a new one
+   */
+  sprint?: Sprint
+  /**
+   * Suggested name for a new sprint
+   */
+  defaultName?: string
+  onSubmit: (values: SprintFormValues) => Promise<unknown>
+  /**
+   * Custom trigger button (optional)
+   */
+  trigger?: React.ReactNode
+}
+
+/**
+ * SprintFormDialog Component
+ *
+ * Modal dialog for creating or editing a sprint's name, goal and dates.
+ *
+ * @example
+ * ```tsx
+ * <SprintFormDialog defaultName="Sprint 3" onSubmit={(values) => addSprint(values, userId)} />
+ * ```
+ */
+export function SprintFormDialog({
+  sprint,
+  defaultName,
+  onSubmit,
+  trigger,
+}: SprintFormDialogProps) {
+  const { toast } = useToast()
+  const [open, setOpen] = useState(false)
+  const [name, setName] = useState("")
+  const [goal, setGoal] = useState("")
+  const [startDate, setStartDate] = useState("")
+  const [endDate, setEndDate] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen)
+    if (nextOpen) {
+      setName(sprint?.name ?? defaultName ?? "")
+      setGoal(sprint?.goal ?? "")
+      setStartDate(sprint?.start_date ?? "")
+      setEndDate(sprint?.end_date ?? "")
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (startDate && endDate && startDate > endDate) {
+      toast({
+        title: "잘못된 기간",
+        description: "종료일은 시작일 이후여야 합니다",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      await onSubmit({
+        name: name.trim(),
+        goal: goal.trim() || undefined,
+        start_date: startDate || undefined,
+        end_date: endDate || undefined,
+      })
+      setOpen(false)
+    } catch (err) {
+      console.error("Error saving sprint:", err)
+      toast({
+        title: "저장 실패",
+        description: "스프린트를 저장하지 못했습니다. 다시 시도해주세요.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {trigger || <Button>+ 스프린트 만들기</Button>}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[500px]">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{sprint ? "스프린트 수정" : "새 스프린트"}</DialogTitle>
+            <DialogDescription>
+              스프린트의 이름, 목표와 기간을 정하세요.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="sprint-name">이름</Label>
+              <Input
+                id="sprint-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+                required
+                autoFocus
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sprint-goal">목표 (선택)</Label>
+              <Textarea
+                id="sprint-goal"
+                value={goal}
+                onChange={(e) => setGoal(e.target.value)}
+                placeholder="이번 스프린트에서 달성할 목표"
+                maxLength={500}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="sprint-start">시작일</Label>
+                <Input
+                  id="sprint-start"
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sprint-end">종료일</Label>
+                <Input
+                  id="sprint-end"
+                  type="date"
+                  value={endDate}
+                  min={startDate || undefined}
+                  onChange={(e) => setEndDate(e.target.value)}
+                />
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setOpen(false)}
+              disabled={isSubmitting}
+            >
+              취소
+            </Button>
+            <Button type="submit" disabled={isSubmitting || !name.trim()}>
+              {isSubmitting ? "저장 중..." : "저장"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,77 @@
+"use client"
+
+import { useDroppable } from "@dnd-kit/core"
+import { Card, CardContent, CardHeader } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { cn } from "@/lib/utils"
+import { formatHours } from "@/utils/time-tracking"
+import { BacklogIssueRow, type BacklogIssue } from "./BacklogIssueRow"
+
+interface SprintSectionProps {
+  /**
+   * Droppable id: `sprint-<id>` or `backlog`
+   */
+  droppableId: string
+  title: React.ReactNode
+  description?: React.ReactNode
+  actions?: React.ReactNode
+  issues: BacklogIssue[]
+}
+
+/**
+ * SprintSection Component
+ *
+ * One sprint (or the backlog) on the planning page; issues can be
+ * dropped onto it to move them in.
+ */
+export function SprintSection({
+  droppableId,
+  title,
+  description,
+  actions,
+  issues,
+}: SprintSectionProps) {
+  const { setNodeRef, isOver } = useDroppable({ id: droppableId })
+
+  const estimate = issues.reduce(
+    (total, issue) => total + (issue.original_estimate_hours ?? 0),
+    0
+  )
+
+  return (
+    <Card className={cn("transition-colors", isOver && "border-primary")}>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0 space-y-1">
+            <div className="flex items-center gap-2">
+              <h2 className="font-semibold">{title}</h2>
+              <Badge variant="secondary">{issues.length}</Badge>
+              {estimate > 0 && (
+                <span className="text-xs text-muted-foreground">
+                  {formatHours(estimate)}
+                </span>
+              )}
+            </div>
+            {description && (
+              <div className="text-sm text-muted-foreground">{description}</div>
+            )}
+          </div>
+          {actions && <div className="flex flex-shrink-0 gap-2">{actions}</div>}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div ref={setNodeRef} className="min-h-[60px] space-y-2">
+          {issues.map((issue) => (
+            <BacklogIssueRow key={issue.id} issue={issue} />
+          ))}
+
+          {issues.length === 0 && (
+            <div className="flex h-14 items-center justify-center rounded-lg border-2 border-dashed border-muted-foreground/25 text-sm text-muted-foreground">
+              이슈를 여기로 끌어오세요
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -18,6 +18,7 @@ import { Avatar } from "@/components/ui/avatar"
 import { Badge } from "@/components/ui/badge"
 import { Spinner } from "@/components/ui/spinner"
 import { createClient } from "@/lib/supabase/client"
+import { formatIssueKey } from "@/utils/issue-key"
 
 interface ActivityEntry {
   id: string
@@ -82,6 +83,7 @@ export function TeamActivityLog({ teamId, limit = 20 }: TeamActivityLogProps) {
           .select(
             `
             id,
+            number,
             title,
             created_at,
             updated_at,
@@ -150,7 +152,7 @@ export function TeamActivityLog({ teamId, limit = 20 }: TeamActivityLogProps) {
             metadata: {
               issue_title: issue.title,
               issue_id: issue.id,
-              issue_key: issue.project.key,
+              issue_key: formatIssueKey(issue.project.key, issue.number),
               project_name: issue.project.name,
             },
           })
@@ -0,0 +1,221 @@
+"use client"
+
+/**
+ * Timesheet Component
+ *
+ * Weekly summary of the hours a user has logged
+ * - One column per day, Monday to Sunday
+ * - Rows per project with a subtotal, then per issue
+ * - Previous / next week navigation
+ */
+
+import React, { useMemo, useState } from "react"
+import Link from "next/link"
+import { addDays, addWeeks, format, startOfWeek } from "date-fns"
+import { ChevronLeft, ChevronRight } from "lucide-react"
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Spinner } from "@/components/ui/spinner"
+import { useTimesheet } from "@/hooks/use-worklogs"
+import { formatIssueKey } from "@/utils/issue-key"
+import { formatHours } from "@/utils/time-tracking"
+import type { WorklogWithIssue } from "@/types/models"
+
+interface TimesheetProps {
+  userId: string
+}
+
+type HoursByDay = Record<string, number>
+
+interface IssueRow {
+  issue: WorklogWithIssue["issue"]
+  hours: HoursByDay
+  total: number
+}
+
+interface ProjectRow {
+  project: WorklogWithIssue["issue"]["project"]
+  hours: HoursByDay
+  total: number
+  issues: IssueRow[]
+}
+
+function addHours(hours: HoursByDay, day: string, amount: number) {
+  hours[day] = (hours[day] ?? 0) + amount
+}
+
+export function Timesheet({ userId }: TimesheetProps) {
+  const [weekStart, setWeekStart] = useState(() =>
+    startOfWeek(new Date(), { weekStartsOn: 1 })
+  )
+
+  const days = useMemo(
+    () => Array.from({ length: 7 }, (_, i) => format(addDays(weekStart, i), "yyyy-MM-dd")),
+    [weekStart]
+  )
+
+  const { worklogs, loading, error } = useTimesheet(userId, days[0], days[6])
+
+  const { projects, dayTotals, weekTotal } = useMemo(() => {
+    const byProject = new Map<string, ProjectRow>()
+    const dayTotals: HoursByDay = {}
+    let weekTotal = 0
+
+    for (const worklog of worklogs) {
+      const { issue } = worklog
+      let projectRow = byProject.get(issue.project.id)
+      if (!projectRow) {
+        projectRow = { project: issue.project, hours: {}, total: 0, issues: [] }
+        byProject.set(issue.project.id, projectRow)
+      }
+
+      let issueRow = projectRow.issues.find((row) => row.issue.id === issue.id)
+      if (!issueRow) {
+        issueRow = { issue, hours: {}, total: 0 }
+        projectRow.issues.push(issueRow)
+      }
+
+      addHours(issueRow.hours, worklog.work_date, worklog.hours)
+      addHours(projectRow.hours, worklog.work_date, worklog.hours)
+      addHours(dayTotals, worklog.work_date, worklog.hours)
+      issueRow.total += worklog.hours
+      projectRow.total += worklog.hours
+      weekTotal += worklog.hours
+    }
+
+    const projects = Array.from(byProject.values()).sort((a, b) =>
+      a.project.name.localeCompare(b.project.name)
+    )
+    for (const projectRow of projects) {
+      projectRow.issues.sort((a, b) => a.issue.number - b.issue.number)
+    }
+
+    return { projects, dayTotals, weekTotal }
+  }, [worklogs])
+
+  const renderHours = (hours?: number) =>
+    hours ? formatHours(hours) : <span className="text-gray-300">-</span>
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-lg font-semibold text-gray-900">
+          {format(weekStart, "MMM d")} – {format(addDays(weekStart, 6), "MMM d, yyyy")}
+        </h3>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setWeekStart((week) => addWeeks(week, -1))}
+            aria-label="Previous week"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setWeekStart(startOfWeek(new Date(), { weekStartsOn: 1 }))}
+          >
+            This week
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setWeekStart((week) => addWeeks(week, 1))}
+            aria-label="Next week"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <Spinner />
+        </div>
+      ) : error ? (
+        <p className="text-sm text-destructive">
+          Failed to load timesheet: {error.message}
+        </p>
+      ) : projects.length === 0 ? (
+        <p className="py-12 text-center text-sm text-gray-500">
+          No work logged this week
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-gray-500">
+                <th className="py-2 pr-4 text-left font-medium">Issue</th>
+                {days.map((day) => (
+                  <th key={day} className="px-2 py-2 text-right font-medium">
+                    {format(new Date(`${day}T00:00:00`), "EEE d")}
+                  </th>
+                ))}
+                <th className="pl-4 py-2 text-right font-medium">Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {projects.map((projectRow) => (
+                <React.Fragment key={projectRow.project.id}>
+                  <tr className="border-b bg-gray-50 font-medium text-gray-900">
+                    <td className="py-2 pr-4">
+                      <Link
+                        href={`/projects/${projectRow.project.id}`}
+                        className="hover:underline"
+                      >
+                        {projectRow.project.name}
+                      </Link>
+                    </td>
+                    {days.map((day) => (
+                      <td key={day} className="px-2 py-2 text-right">
+                        {renderHours(projectRow.hours[day])}
+                      </td>
+                    ))}
+                    <td className="pl-4 py-2 text-right">
+                      {formatHours(projectRow.total)}
+                    </td>
+                  </tr>
+                  {projectRow.issues.map((issueRow) => (
+                    <tr key={issueRow.issue.id} className="border-b">
+                      <td className="py-2 pr-4 pl-4">
+                        <Link
+                          href={`/issues/${issueRow.issue.id}`}
+                          className="flex min-w-0 items-center gap-2 hover:underline"
+                        >
+                          <span className="text-xs font-mono text-gray-500">
+                            {formatIssueKey(projectRow.project.key, issueRow.issue.number)}
+                          </span>
+                          <span className="truncate">{issueRow.issue.title}</span>
+                        </Link>
+                      </td>
+                      {days.map((day) => (
+                        <td key={day} className="px-2 py-2 text-right text-gray-600">
+                          {renderHours(issueRow.hours[day])}
+                        </td>
+                      ))}
+                      <td className="pl-4 py-2 text-right text-gray-600">
+                        {formatHours(issueRow.total)}
+                      </td>
+                    </tr>
+                  ))}
+                </React.Fragment>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="font-semibold text-gray-900">
+                <td className="py-2 pr-4">Total</td>
+                {days.map((day) => (
+                  <td key={day} className="px-2 py-2 text-right">
+                    {renderHours(dayTotals[day])}
+                  </td>
+                ))}
+                <td className="pl-4 py-2 text-right">{formatHours(weekTotal)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+    </Card>
+  )
+}
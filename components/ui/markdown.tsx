@@ -0,0 +1,95 @@
+"use client"
+
+import * as React from "react"
+import "highlight.js/styles/github.css"
+
+import { cn } from "@/lib/utils"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { renderMarkdown } from "@/utils/markdown"
+
+interface MarkdownProps extends React.HTMLAttributes<HTMLDivElement> {
+  source: string
+  onTaskToggle?: (index: number, checked: boolean) => void
+}
+
+const Markdown = React.forwardRef<HTMLDivElement, MarkdownProps>(
+  ({ source, onTaskToggle, className, onClick, ...props }, ref) => {
+    const html = React.useMemo(
+      () => renderMarkdown(source, { interactiveTasks: !!onTaskToggle }),
+      [source, onTaskToggle]
+    )
+
+    const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+      const target = e.target as HTMLElement
+
+      if (onTaskToggle && target instanceof HTMLInputElement && target.type === "checkbox") {
+        e.stopPropagation()
+        // The box follows `source`: cancelling the click undoes the browser's
+        // toggle, and it re-renders checked once the new source arrives
+        e.preventDefault()
+        const boxes = Array.from(
+          e.currentTarget.querySelectorAll<HTMLInputElement>("input.task-list-item-checkbox")
+        )
+        onTaskToggle(boxes.indexOf(target), target.checked)
+        return
+      }
+
+      // Links open normally instead of triggering click-to-edit
+      if (target.closest("a")) {
+        e.stopPropagation()
+        return
+      }
+
+      onClick?.(e)
+    }
+
+    return (
+      <div
+        ref={ref}
+        className={cn("markdown", className)}
+        onClick={handleClick}
+        dangerouslySetInnerHTML={{ __html: html }}
+        {...props}
+      />
+    )
+  }
+)
+Markdown.displayName = "Markdown"
+
+interface MarkdownWriteTabsProps {
+  value: string
+  children: React.ReactNode
+  className?: string
+}
+
+/**
+ * Write/preview toggle around a Markdown editor
+ */
+function MarkdownWriteTabs({ value, children, className }: MarkdownWriteTabsProps) {
+  return (
+    <Tabs defaultValue="write" className={className}>
+      <TabsList className="h-8">
+        <TabsTrigger value="write" className="text-xs">
+          작성
+        </TabsTrigger>
+        <TabsTrigger value="preview" className="text-xs">
+          미리보기
+        </TabsTrigger>
+      </TabsList>
+      <TabsContent value="write" className="mt-2">
+        {children}
+      </TabsContent>
+      <TabsContent value="preview" className="mt-2">
+        <div className="min-h-[100px] rounded-md border px-3 py-2">
+          {value.trim() ? (
+            <Markdown source={value} />
+          ) : (
+            <p className="text-sm text-muted-foreground">미리 볼 내용이 없습니다</p>
+          )}
+        </div>
+      </TabsContent>
+    </Tabs>
+  )
+}
+
+export { Markdown, MarkdownWriteTabs }
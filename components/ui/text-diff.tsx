@@ -0,0 +1,77 @@
+"use client"
+
+import * as React from "react"
+
+import { cn } from "@/lib/utils"
+import { diffText, type DiffMode, type DiffPart } from "@/utils/text-diff"
+
+const partStyles: Record<DiffPart["type"], string> = {
+  equal: "",
+  added: "bg-green-100 text-green-900 dark:bg-green-900/40 dark:text-green-200",
+  removed: "bg-red-100 text-red-900 line-through dark:bg-red-900/40 dark:text-red-200",
+}
+
+interface TextDiffProps extends React.HTMLAttributes<HTMLDivElement> {
+  before: string
+  after: string
+  mode?: DiffMode
+  /**
+   * One merged text, or old and new side by side
+   */
+  layout?: "inline" | "split"
+}
+
+function renderPart(part: DiffPart, index: number) {
+  if (part.type === "equal") return <span key={index}>{part.value}</span>
+  if (part.type === "added") {
+    return (
+      <ins key={index} className={cn("no-underline", partStyles.added)}>
+        {part.value}
+      </ins>
+    )
+  }
+  return (
+    <del key={index} className={partStyles.removed}>
+      {part.value}
+    </del>
+  )
+}
+
+/**
+ * Diff of two texts, with removals struck through and additions highlighted
+ */
+const TextDiff = React.forwardRef<HTMLDivElement, TextDiffProps>(
+  ({ before, after, mode = "words", layout = "inline", className, ...props }, ref) => {
+    const parts = React.useMemo(() => diffText(before, after, mode), [before, after, mode])
+
+    if (layout === "split") {
+      return (
+        <div
+          ref={ref}
+          className={cn("grid gap-3 text-sm sm:grid-cols-2", className)}
+          {...props}
+        >
+          <div className="whitespace-pre-wrap break-words rounded-md border p-3">
+            {parts.filter((part) => part.type !== "added").map(renderPart)}
+          </div>
+          <div className="whitespace-pre-wrap break-words rounded-md border p-3">
+            {parts.filter((part) => part.type !== "removed").map(renderPart)}
+          </div>
+        </div>
+      )
+    }
+
+    return (
+      <div
+        ref={ref}
+        className={cn("whitespace-pre-wrap break-words text-sm", className)}
+        {...props}
+      >
+        {parts.map(renderPart)}
+      </div>
+    )
+  }
+)
+TextDiff.displayName = "TextDiff"
+
+export { TextDiff }
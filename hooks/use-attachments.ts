@@ -0,0 +1,67 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import {
+  getIssueAttachments,
+  uploadAttachment,
+  deleteAttachment,
+} from "@/utils/supabase/queries"
+import type { AttachmentWithUser } from "@/types/models"
+
+export function useAttachments(issueId?: string) {
+  const [attachments, setAttachments] = useState<AttachmentWithUser[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  useEffect(() => {
+    if (!issueId) {
+      setLoading(false)
+      return
+    }
+
+    async function fetchAttachments() {
+      try {
+        setLoading(true)
+        const { data, error } = await getIssueAttachments(issueId!)
+
+        if (error) throw error
+
+        setAttachments(data)
+      } catch (err) {
+        setError(err as Error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchAttachments()
+  }, [issueId])
+
+  const upload = async (userId: string, file: File) => {
+    if (!issueId) throw new Error("Issue ID is required")
+
+    const { data, error } = await uploadAttachment(issueId, userId, file)
+    if (error) throw error
+
+    if (data) {
+      setAttachments((prev) => [data, ...prev])
+    }
+
+    return data
+  }
+
+  const remove = async (attachment: AttachmentWithUser) => {
+    const { error } = await deleteAttachment(attachment)
+    if (error) throw error
+
+    setAttachments((prev) => prev.filter((item) => item.id !== attachment.id))
+  }
+
+  return {
+    attachments,
+    loading,
+    error,
+    upload,
+    remove,
+  }
+}
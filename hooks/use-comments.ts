@@ -1,22 +1,39 @@
 "use client"
 
-import { useEffect, useState } from "react"
+import { useEffect, useRef, useState } from "react"
+import { createClient } from "@/lib/supabase/client"
 import {
   getCommentsByIssueId,
   addComment,
   updateComment,
   deleteComment,
+  addCommentReaction,
+  removeCommentReaction,
+  addIssueWatchers,
+  notifyWatchers,
+  notifyMentions,
+  notifyCommentReply,
+  getCommentRevisions,
 } from "@/utils/supabase/queries"
-import type { Tables } from "@/types/database.types"
+import {
+  createRealtimeChannel,
+  subscribeToChanges,
+  cleanupChannel,
+} from "@/utils/supabase/realtime"
+import { getMentionedUserIds } from "@/utils/mentions"
+import type { CommentRevision, CommentWithReactions } from "@/types/models"
 
-type Comment = Tables<"comments"> & {
-  user: Pick<Tables<"users">, "id" | "display_name" | "avatar_url">
-}
+type Comment = CommentWithReactions
 
 export function useComments(issueId?: string) {
   const [comments, setComments] = useState<Comment[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<Error | null>(null)
+  const commentIdsRef = useRef<Set<string>>(new Set())
+
+  useEffect(() => {
+    commentIdsRef.current = new Set(comments.map((comment) => comment.id))
+  }, [comments])
 
   useEffect(() => {
     if (!issueId) {
@@ -24,6 +41,8 @@ export function useComments(issueId?: string) {
       return
     }
 
+    const supabase = createClient()
+
     async function fetchComments() {
       try {
         setLoading(true)
@@ -31,7 +50,7 @@ export function useComments(issueId?: string) {
 
         if (error) throw error
 
-        setComments(data as Comment[])
+        setComments(data)
       } catch (err) {
         setError(err as Error)
       } finally {
@@ -39,34 +58,116 @@ export function useComments(issueId?: string) {
       }
     }
 
+    async function refetchComments() {
+      const { data } = await getCommentsByIssueId(issueId!)
+      if (data) {
+        setComments(data)
+      }
+    }
+
+    // Initial fetch
     fetchComments()
+
+    // Other members' comments, edits and reactions; refetch to pick up relations
+    const channel = createRealtimeChannel(supabase, `comments:issue_id=eq.${issueId}`)
+
+    subscribeToChanges(
+      channel,
+      {
+        schema: "public",
+        table: "comments",
+        filter: `issue_id=eq.${issueId}`,
+        event: "*",
+      },
+      refetchComments
+    )
+
+    // Reactions carry no issue id, so only react to this issue's comments
+    subscribeToChanges(
+      channel,
+      {
+        schema: "public",
+        table: "comment_reactions",
+        event: "*",
+      },
+      async (payload) => {
+        // DELETE payloads only fill `old`
+        const commentId: string | undefined =
+          payload.new?.comment_id ?? payload.old?.comment_id
+        if (commentId && commentIdsRef.current.has(commentId)) {
+          await refetchComments()
+        }
+      }
+    )
+
+    channel.subscribe()
+
+    return () => {
+      cleanupChannel(supabase, channel)
+    }
   }, [issueId])
 
-  const createComment = async (userId: string, content: string) => {
+  const createComment = async (
+    userId: string,
+    content: string,
+    parentId: string | null = null
+  ) => {
     if (!issueId) throw new Error("Issue ID is required")
 
-    const { data, error } = await addComment(issueId, userId, content)
+    const { data, error } = await addComment(issueId, userId, content, parentId)
     if (error) throw error
 
-    if (data && data[0]) {
-      setComments((prev) => [...prev, data[0] as Comment])
+    const created = data?.[0] as Comment | undefined
+    if (created) {
+      setComments((prev) =>
+        prev.some((comment) => comment.id === created.id) ? prev : [...prev, created]
+      )
     }
 
-    return data?.[0]
+    // Commenters follow the conversation they joined. Mentioned users and
+    // the author of the replied-to comment get a more specific notification
+    // instead of the generic one.
+    const mentionedIds = getMentionedUserIds(content)
+    const parentAuthorId = parentId
+      ? comments.find((comment) => comment.id === parentId)?.user_id
+      : undefined
+
+    await addIssueWatchers(issueId, [userId])
+    await notifyMentions(issueId, mentionedIds, userId)
+    if (parentId) {
+      await notifyCommentReply(issueId, parentId, userId)
+    }
+    await notifyWatchers(issueId, "issue_commented", [], userId, [
+      ...mentionedIds,
+      ...(parentAuthorId ? [parentAuthorId] : []),
+    ])
+
+    return created
   }
 
   const editComment = async (commentId: string, content: string) => {
+    const previous = comments.find((comment) => comment.id === commentId)
+    if (previous?.content === content) return
+
     const { data, error } = await updateComment(commentId, content)
     if (error) throw error
 
+    const mentions = getMentionedUserIds(content)
+
     setComments((prev) =>
       prev.map((comment) =>
         comment.id === commentId
-          ? { ...comment, content, updated_at: new Date().toISOString() }
+          ? { ...comment, content, mentions, updated_at: new Date().toISOString() }
           : comment
       )
     )
 
+    // Only users added by this edit hear about it
+    if (issueId && previous) {
+      const added = mentions.filter((userId) => !previous.mentions?.includes(userId))
+      await notifyMentions(issueId, added, previous.user_id)
+    }
+
     return data?.[0]
   }
 
@@ -74,7 +175,47 @@ export function useComments(issueId?: string) {
     const { error } = await deleteComment(commentId)
     if (error) throw error
 
-    setComments((prev) => prev.filter((comment) => comment.id !== commentId))
+    // Replies are deleted with their parent
+    setComments((prev) =>
+      prev.filter((comment) => comment.id !== commentId && comment.parent_id !== commentId)
+    )
+  }
+
+  const toggleReaction = async (userId: string, commentId: string, emoji: string) => {
+    const comment = comments.find((item) => item.id === commentId)
+    if (!comment) return
+
+    const reacted = comment.reactions.some(
+      (reaction) => reaction.user_id === userId && reaction.emoji === emoji
+    )
+
+    const apply = (add: boolean) =>
+      setComments((prev) =>
+        prev.map((item) =>
+          item.id !== commentId
+            ? item
+            : {
+                ...item,
+                reactions: add
+                  ? [...item.reactions, { user_id: userId, emoji }]
+                  : item.reactions.filter(
+                      (reaction) => !(reaction.user_id === userId && reaction.emoji === emoji)
+                    ),
+              }
+        )
+      )
+
+    // Optimistic toggle, undone if the request fails
+    apply(!reacted)
+
+    const { error } = reacted
+      ? await removeCommentReaction(commentId, userId, emoji)
+      : await addCommentReaction(commentId, userId, emoji)
+
+    if (error) {
+      apply(reacted)
+      throw error
+    }
   }
 
   return {
@@ -84,5 +225,45 @@ export function useComments(issueId?: string) {
     createComment,
     editComment,
     removeComment,
+    toggleReaction,
+  }
+}
+
+/**
+ * Loads the earlier versions of a comment, oldest first
+ */
+export function useCommentRevisions(commentId?: string) {
+  const [revisions, setRevisions] = useState<CommentRevision[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  useEffect(() => {
+    if (!commentId) {
+      setLoading(false)
+      return
+    }
+
+    async function fetchRevisions() {
+      try {
+        setLoading(true)
+        const { data, error } = await getCommentRevisions(commentId!)
+
+        if (error) throw error
+
+        setRevisions(data)
+      } catch (err) {
+        setError(err as Error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchRevisions()
+  }, [commentId])
+
+  return {
+    revisions,
+    loading,
+    error,
   }
 }
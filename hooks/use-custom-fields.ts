@@ -0,0 +1,155 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import {
+  getProjectCustomFields,
+  createCustomField,
+  updateCustomField,
+  deleteCustomField,
+  getIssueCustomValues,
+  setIssueCustomValues,
+} from "@/utils/supabase/queries"
+import type {
+  CreateCustomFieldInput,
+  CustomField,
+  CustomFieldValue,
+  UpdateCustomFieldInput,
+} from "@/types/models"
+import type { Json } from "@/types/database.types"
+
+export function useCustomFields(projectId?: string) {
+  const [fields, setFields] = useState<CustomField[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  useEffect(() => {
+    if (!projectId) {
+      setLoading(false)
+      return
+    }
+
+    async function fetchFields() {
+      try {
+        setLoading(true)
+        const { data, error } = await getProjectCustomFields(projectId!)
+
+        if (error) throw error
+
+        setFields(data)
+      } catch (err) {
+        setError(err as Error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchFields()
+  }, [projectId])
+
+  const addField = async (input: Omit<CreateCustomFieldInput, "project_id">) => {
+    if (!projectId) throw new Error("Project ID is required")
+
+    const { data, error } = await createCustomField({ ...input, project_id: projectId })
+    if (error) throw error
+
+    if (data) {
+      setFields((prev) => [...prev, data])
+    }
+
+    return data
+  }
+
+  const editField = async (fieldId: string, updates: UpdateCustomFieldInput) => {
+    const { data, error } = await updateCustomField(fieldId, updates)
+    if (error) throw error
+
+    if (data) {
+      setFields((prev) =>
+        prev
+          .map((field) => (field.id === fieldId ? data : field))
+          .sort((a, b) => a.order - b.order)
+      )
+    }
+
+    return data
+  }
+
+  const removeField = async (fieldId: string) => {
+    const { error } = await deleteCustomField(fieldId)
+    if (error) throw error
+
+    setFields((prev) => prev.filter((field) => field.id !== fieldId))
+  }
+
+  return {
+    fields,
+    loading,
+    error,
+    addField,
+    editField,
+    removeField,
+  }
+}
+
+/**
+ * Loads an issue's custom field values keyed by field ID
+ */
+export function useIssueCustomValues(issueId?: string) {
+  const [values, setValues] = useState<Record<string, Json>>({})
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  useEffect(() => {
+    if (!issueId) {
+      setLoading(false)
+      return
+    }
+
+    async function fetchValues() {
+      try {
+        setLoading(true)
+        const { data, error } = await getIssueCustomValues(issueId!)
+
+        if (error) throw error
+
+        setValues(Object.fromEntries(data.map((entry) => [entry.field_id, entry.value])))
+      } catch (err) {
+        setError(err as Error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchValues()
+  }, [issueId])
+
+  const setValue = async (fieldId: string, value: CustomFieldValue) => {
+    if (!issueId) throw new Error("Issue ID is required")
+
+    const previous = values
+
+    // Optimistic update
+    setValues((prev) => {
+      const next = { ...prev }
+      if (value === null) {
+        delete next[fieldId]
+      } else {
+        next[fieldId] = value
+      }
+      return next
+    })
+
+    const { error } = await setIssueCustomValues(issueId, { [fieldId]: value })
+    if (error) {
+      setValues(previous)
+      throw error
+    }
+  }
+
+  return {
+    values,
+    loading,
+    error,
+    setValue,
+  }
+}
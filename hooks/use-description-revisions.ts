@@ -0,0 +1,78 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { createClient } from "@/lib/supabase/client"
+import { getDescriptionRevisions } from "@/utils/supabase/queries"
+import {
+  createRealtimeChannel,
+  subscribeToChanges,
+  cleanupChannel,
+} from "@/utils/supabase/realtime"
+import type { DescriptionRevisionWithAuthor } from "@/types/models"
+
+export function useDescriptionRevisions(issueId?: string) {
+  const [revisions, setRevisions] = useState<DescriptionRevisionWithAuthor[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  useEffect(() => {
+    if (!issueId) {
+      setLoading(false)
+      return
+    }
+
+    const supabase = createClient()
+
+    async function fetchRevisions() {
+      try {
+        setLoading(true)
+        const { data, error } = await getDescriptionRevisions(issueId!)
+
+        if (error) throw error
+
+        setRevisions(data)
+      } catch (err) {
+        setError(err as Error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    // Initial fetch
+    fetchRevisions()
+
+    // Revisions are written by whoever edits the description; refetch for authors
+    const channel = createRealtimeChannel(
+      supabase,
+      `issue_description_revisions:issue_id=eq.${issueId}`
+    )
+
+    subscribeToChanges(
+      channel,
+      {
+        schema: "public",
+        table: "issue_description_revisions",
+        filter: `issue_id=eq.${issueId}`,
+        event: "INSERT",
+      },
+      async () => {
+        const { data } = await getDescriptionRevisions(issueId)
+        if (data) {
+          setRevisions(data)
+        }
+      }
+    )
+
+    channel.subscribe()
+
+    return () => {
+      cleanupChannel(supabase, channel)
+    }
+  }, [issueId])
+
+  return {
+    revisions,
+    loading,
+    error,
+  }
+}
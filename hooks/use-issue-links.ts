@@ -0,0 +1,80 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import {
+  getIssueLinks,
+  createIssueLink,
+  deleteIssueLink,
+} from "@/utils/supabase/queries"
+import { toStoredLink } from "@/utils/issue-links"
+import type { IssueLinkKind, IssueLinkWithIssues } from "@/types/models"
+
+export function useIssueLinks(issueId?: string) {
+  const [links, setLinks] = useState<IssueLinkWithIssues[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  useEffect(() => {
+    if (!issueId) {
+      setLoading(false)
+      return
+    }
+
+    async function fetchLinks() {
+      try {
+        setLoading(true)
+        const { data, error } = await getIssueLinks(issueId!)
+
+        if (error) throw error
+
+        setLinks(data)
+      } catch (err) {
+        setError(err as Error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchLinks()
+  }, [issueId])
+
+  /**
+   * Links another issue using a kind seen from this issue,
+   * e.g. "is_blocked_by" stores the other issue as the blocker
+   */
+  const addLink = async (
+    kind: IssueLinkKind,
+    otherIssueId: string,
+    userId: string
+  ) => {
+    if (!issueId) throw new Error("Issue ID is required")
+
+    const { linkType, inward } = toStoredLink(kind)
+    const { data, error } = inward
+      ? await createIssueLink(otherIssueId, issueId, linkType, userId)
+      : await createIssueLink(issueId, otherIssueId, linkType, userId)
+
+    if (error) throw error
+
+    if (data) {
+      setLinks((prev) => [...prev, data])
+    }
+
+    return data
+  }
+
+  const removeLink = async (linkId: string) => {
+    const { error } = await deleteIssueLink(linkId)
+    if (error) throw error
+
+    setLinks((prev) => prev.filter((link) => link.id !== linkId))
+  }
+
+  return {
+    links,
+    loading,
+    error,
+    addLink,
+    removeLink,
+  }
+}
@@ -5,8 +5,19 @@ import { createClient } from "@/lib/supabase/client"
 import {
   getIssuesByProjectId,
   getIssuesByStatusId,
+  getIssueById,
+  getChildIssues,
+  getProjectEpics,
+  queryIssues,
   moveIssue,
   updateIssueOrder,
+  assignIssue,
+  addIssueWatchers,
+  notifyWatchers,
+  recordDescriptionRevision,
+  setIssueLabels,
+  setIssueCustomValues,
+  ISSUE_WITH_DETAILS_SELECT,
 } from "@/utils/supabase/queries"
 import {
   createRealtimeChannel,
@@ -17,6 +28,14 @@ import {
   optimisticDelete,
   rollbackOptimistic,
 } from "@/utils/supabase/realtime"
+import { withAttachmentCount } from "@/utils/attachments"
+import { getLastRank, getRankBetween } from "@/utils/lexorank"
+import type {
+  CustomFieldValue,
+  IncomingIssueLink,
+  IssueFilters,
+  IssueSortOptions,
+} from "@/types/models"
 import type { Tables, Database } from "@/types/database.types"
 import type { RealtimeChannel } from "@supabase/supabase-js"
 
@@ -24,10 +43,34 @@ type Issue = Tables<"issues"> & {
   status: Tables<"statuses">
   assignee: Pick<Tables<"users">, "id" | "display_name" | "avatar_url"> | null
   reporter: Pick<Tables<"users">, "id" | "display_name" | "avatar_url">
+  subtasks?: Pick<Tables<"subtasks">, "id" | "completed">[]
+  worklogs?: Pick<Tables<"worklogs">, "hours">[]
+  attachment_count?: number
+  labels?: Pick<Tables<"labels">, "id" | "name" | "color">[]
+  project?: Pick<Tables<"projects">, "id" | "key">
+  incoming_links?: IncomingIssueLink[]
+  custom_values?: Pick<Tables<"issue_custom_values">, "field_id" | "value">[]
 }
 
 type IssueInsert = Database["public"]["Tables"]["issues"]["Insert"]
 
+// A new assignee starts watching; everyone else watching hears about the
+// change. Description edits are also kept as revisions.
+async function announceIssueUpdate(
+  previous: Pick<Tables<"issues">, "id" | "description" | "updated_at">,
+  updates: Partial<IssueInsert>
+) {
+  const issueId = previous.id
+
+  if (updates.description !== undefined && updates.description !== previous.description) {
+    await recordDescriptionRevision(previous, updates.description)
+  }
+  if (updates.assignee_id) {
+    await addIssueWatchers(issueId, [updates.assignee_id])
+  }
+  await notifyWatchers(issueId, "issue_updated", Object.keys(updates))
+}
+
 export function useIssues(projectId?: string) {
   const [issues, setIssues] = useState<Issue[]>([])
   const [loading, setLoading] = useState(true)
@@ -76,32 +119,12 @@ export function useIssues(projectId?: string) {
         // Fetch the complete issue with relations
         const { data } = await supabase
           .from("issues")
-          .select(
-            `
-            *,
-            status:statuses (
-              id,
-              name,
-              color,
-              order
-            ),
-            assignee:users!issues_assignee_id_fkey (
-              id,
-              display_name,
-              avatar_url
-            ),
-            reporter:users!issues_reporter_id_fkey (
-              id,
-              display_name,
-              avatar_url
-            )
-          `
-          )
+          .select(ISSUE_WITH_DETAILS_SELECT)
           .eq("id", (payload.new as any).id)
           .single()
 
         if (data) {
-          setIssues((prev) => [...prev, data as Issue])
+          setIssues((prev) => [...prev, withAttachmentCount(data) as Issue])
         }
       }
     )
@@ -119,33 +142,17 @@ export function useIssues(projectId?: string) {
         // Fetch the complete issue with relations
         const { data } = await supabase
           .from("issues")
-          .select(
-            `
-            *,
-            status:statuses (
-              id,
-              name,
-              color,
-              order
-            ),
-            assignee:users!issues_assignee_id_fkey (
-              id,
-              display_name,
-              avatar_url
-            ),
-            reporter:users!issues_reporter_id_fkey (
-              id,
-              display_name,
-              avatar_url
-            )
-          `
-          )
+          .select(ISSUE_WITH_DETAILS_SELECT)
           .eq("id", (payload.new as any).id)
           .single()
 
         if (data) {
           setIssues((prev) =>
-            prev.map((issue) => (issue.id === (payload.new as any).id ? (data as Issue) : issue))
+            prev.map((issue) =>
+              issue.id === (payload.new as any).id
+                ? (withAttachmentCount(data) as Issue)
+                : issue
+            )
           )
         }
       }
@@ -175,24 +182,45 @@ export function useIssues(projectId?: string) {
   const createIssue = async (
     issueData: Pick<
       IssueInsert,
-      "title" | "description" | "status_id" | "priority" | "assignee_id" | "reporter_id"
-    >
+      | "title"
+      | "description"
+      | "status_id"
+      | "priority"
+      | "type"
+      | "assignee_id"
+      | "reporter_id"
+      | "parent_id"
+      | "start_date"
+      | "due_date"
+      | "original_estimate_hours"
+      | "sprint_id"
+    > & {
+      label_ids?: string[]
+      custom_values?: Record<string, CustomFieldValue>
+    }
   ) => {
     if (!projectId) throw new Error("Project ID is required")
 
+    const {
+      label_ids: labelIds = [],
+      custom_values: customValues = {},
+      ...issueFields
+    } = issueData
+
     const supabase = createClient()
 
-    // Get current max order for the status
+    // Legacy numeric orders sort above ranks as text, so find the last rank here
     const { data: existingIssues } = await supabase
       .from("issues")
       .select("order")
       .eq("project_id", projectId)
       .eq("status_id", issueData.status_id)
-      .order("order", { ascending: false })
-      .limit(1)
 
-    const maxOrder = existingIssues?.[0]?.order || "0"
-    const newOrder = (parseInt(maxOrder) + 1).toString()
+    // New issues go to the bottom of their status column
+    const newOrder = getRankBetween(
+      getLastRank((existingIssues ?? []).map((issue) => issue.order)),
+      null
+    )
 
     // Create optimistic issue
     const optimisticIssue: Partial<Issue> = {
@@ -200,6 +228,7 @@ export function useIssues(projectId?: string) {
       title: issueData.title,
       description: issueData.description,
       priority: issueData.priority,
+      type: issueData.type,
       project_id: projectId,
       status_id: issueData.status_id,
       assignee_id: issueData.assignee_id,
@@ -220,42 +249,60 @@ export function useIssues(projectId?: string) {
         .from("issues")
         .insert({
           project_id: projectId,
-          ...issueData,
+          ...issueFields,
           order: newOrder,
         })
-        .select(
-          `
-          *,
-          status:statuses (
-            id,
-            name,
-            color,
-            order
-          ),
-          assignee:users!issues_assignee_id_fkey (
-            id,
-            display_name,
-            avatar_url
-          ),
-          reporter:users!issues_reporter_id_fkey (
-            id,
-            display_name,
-            avatar_url
-          )
-        `
-        )
+        .select(ISSUE_WITH_DETAILS_SELECT)
         .single()
 
       if (error) throw error
 
+      // Labels and custom values refer to the issue by ID, so they are stored once it
+      // exists. When that fails the issue is deleted again so a retry does not duplicate it.
+      if (labelIds.length > 0) {
+        const { error: labelsError } = await setIssueLabels(data.id, labelIds)
+        if (labelsError) {
+          await supabase.from("issues").delete().eq("id", data.id)
+          throw labelsError
+        }
+
+        const { data: labels } = await supabase
+          .from("labels")
+          .select("id, name, color")
+          .in("id", labelIds)
+        data.labels = labels ?? []
+      }
+
+      if (Object.keys(customValues).length > 0) {
+        const { error: valuesError } = await setIssueCustomValues(data.id, customValues)
+        if (valuesError) {
+          await supabase.from("issues").delete().eq("id", data.id)
+          throw valuesError
+        }
+
+        data.custom_values = Object.entries(customValues)
+          .filter(([, value]) => value !== null)
+          .map(([fieldId, value]) => ({ field_id: fieldId, value }))
+      }
+
       // Replace optimistic issue with real data
       setIssues((prev) =>
         prev.map((issue) =>
-          issue.id === optimisticIssue.id ? (data as Issue) : issue
+          issue.id === optimisticIssue.id ? (withAttachmentCount(data) as Issue) : issue
         )
       )
 
-      return data as Issue
+      // Reporter and assignee watch their issues from the start
+      await addIssueWatchers(data.id, [data.reporter_id, data.assignee_id])
+      if (data.description) {
+        await recordDescriptionRevision(
+          { id: data.id, description: null, updated_at: data.created_at },
+          data.description,
+          data.reporter_id
+        )
+      }
+
+      return withAttachmentCount(data) as Issue
     } catch (error) {
       // Rollback on error
       rollbackOptimistic(setIssues, previousIssues)
@@ -268,7 +315,17 @@ export function useIssues(projectId?: string) {
     updates: Partial<
       Pick<
         IssueInsert,
-        "title" | "description" | "status_id" | "priority" | "assignee_id"
+        | "title"
+        | "description"
+        | "status_id"
+        | "priority"
+        | "type"
+        | "assignee_id"
+        | "parent_id"
+        | "start_date"
+        | "due_date"
+        | "original_estimate_hours"
+        | "sprint_id"
       >
     >
   ) => {
@@ -290,36 +347,23 @@ export function useIssues(projectId?: string) {
         .from("issues")
         .update(updates)
         .eq("id", issueId)
-        .select(
-          `
-          *,
-          status:statuses (
-            id,
-            name,
-            color,
-            order
-          ),
-          assignee:users!issues_assignee_id_fkey (
-            id,
-            display_name,
-            avatar_url
-          ),
-          reporter:users!issues_reporter_id_fkey (
-            id,
-            display_name,
-            avatar_url
-          )
-        `
-        )
+        .select(ISSUE_WITH_DETAILS_SELECT)
         .single()
 
       if (error) throw error
 
       // Update with real data from server
       setIssues((prev) =>
-        prev.map((issue) => (issue.id === issueId ? (data as Issue) : issue))
+        prev.map((issue) =>
+          issue.id === issueId ? (withAttachmentCount(data) as Issue) : issue
+        )
       )
-      return data as Issue
+
+      await announceIssueUpdate(
+        previousIssues.find((issue) => issue.id === issueId) ?? data,
+        updates
+      )
+      return withAttachmentCount(data) as Issue
     } catch (error) {
       // Rollback on error
       rollbackOptimistic(setIssues, previousIssues)
@@ -355,6 +399,8 @@ export function useIssues(projectId?: string) {
     const { data, error } = await moveIssue(issueId, statusId, order)
     if (error) throw error
 
+    await notifyWatchers(issueId, "issue_updated", ["status_id"])
+
     // Refetch issues to get updated state
     if (projectId) {
       const { data: updatedIssues } = await getIssuesByProjectId(projectId)
@@ -364,6 +410,24 @@ export function useIssues(projectId?: string) {
     return data
   }
 
+  // Assigning goes through the RPC so the assignee is notified; null unassigns
+  const handleAssignIssue = async (issueId: string, assigneeId: string | null) => {
+    if (!assigneeId) {
+      return updateIssue(issueId, { assignee_id: null })
+    }
+
+    const { data, error } = await assignIssue(issueId, assigneeId)
+    if (error) throw error
+
+    // Refetch issues to get the new assignee
+    if (projectId) {
+      const { data: updatedIssues } = await getIssuesByProjectId(projectId)
+      setIssues(updatedIssues as Issue[])
+    }
+
+    return data
+  }
+
   const handleUpdateOrder = async (issueId: string, order: string) => {
     const { data, error } = await updateIssueOrder(issueId, order)
     if (error) throw error
@@ -385,6 +449,7 @@ export function useIssues(projectId?: string) {
     deleteIssue,
     moveIssue: handleMoveIssue,
     updateOrder: handleUpdateOrder,
+    assignIssue: handleAssignIssue,
   }
 }
 
@@ -423,3 +488,321 @@ export function useIssuesByStatus(projectId?: string) {
     error,
   }
 }
+
+/**
+ * Runs an issue query against the database
+ *
+ * Refetches whenever `refreshKey` changes, e.g. the project's live issue
+ * list, so results follow edits made elsewhere. Passing `null` filters
+ * skips the query.
+ */
+export function useIssueQuery(
+  projectId: string | undefined,
+  filters: IssueFilters | null,
+  sort: IssueSortOptions | null,
+  refreshKey?: unknown
+) {
+  const [issues, setIssues] = useState<Issue[] | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<Error | null>(null)
+
+  useEffect(() => {
+    if (!projectId || !filters) {
+      setIssues(null)
+      setLoading(false)
+      setError(null)
+      return
+    }
+
+    // Ignore responses to queries changed since
+    let cancelled = false
+
+    async function runQuery() {
+      try {
+        setLoading(true)
+        const { data, error } = await queryIssues(projectId!, filters!, sort)
+
+        if (error) throw error
+        if (cancelled) return
+
+        setIssues(data as Issue[])
+        setError(null)
+      } catch (err) {
+        if (!cancelled) setError(err as Error)
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    runQuery()
+
+    return () => {
+      cancelled = true
+    }
+  }, [projectId, filters, sort, refreshKey])
+
+  return {
+    issues,
+    loading,
+    error,
+  }
+}
+
+type IssueDetail = Tables<"issues"> & {
+  status: Tables<"statuses">
+  assignee: Pick<Tables<"users">, "id" | "display_name" | "avatar_url"> | null
+  reporter: Pick<Tables<"users">, "id" | "display_name" | "avatar_url">
+  project: Pick<Tables<"projects">, "id" | "name" | "key" | "team_id">
+  parent: Pick<Tables<"issues">, "id" | "number" | "title"> | null
+}
+
+export function useIssue(issueId?: string) {
+  const [issue, setIssue] = useState<IssueDetail | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  useEffect(() => {
+    if (!issueId) {
+      setLoading(false)
+      return
+    }
+
+    const supabase = createClient()
+    let channel: RealtimeChannel
+
+    async function fetchIssue() {
+      try {
+        setLoading(true)
+        const { data, error } = await getIssueById(issueId!)
+
+        if (error) throw error
+
+        setIssue(data as IssueDetail)
+      } catch (err) {
+        setError(err as Error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    // Initial fetch
+    fetchIssue()
+
+    // Subscribe to real-time updates
+    channel = createRealtimeChannel(supabase, `issue:id=eq.${issueId}`)
+
+    subscribeToChanges(
+      channel,
+      {
+        schema: "public",
+        table: "issues",
+        filter: `id=eq.${issueId}`,
+        event: "UPDATE",
+      },
+      async () => {
+        // Refetch to resolve status, assignee and reporter relations
+        const { data } = await getIssueById(issueId)
+        if (data) {
+          setIssue(data as IssueDetail)
+        }
+      }
+    )
+
+    channel.subscribe()
+
+    return () => {
+      cleanupChannel(supabase, channel)
+    }
+  }, [issueId])
+
+  const updateIssue = async (
+    updates: Partial<
+      Pick<
+        IssueInsert,
+        | "title"
+        | "description"
+        | "status_id"
+        | "priority"
+        | "type"
+        | "assignee_id"
+        | "parent_id"
+        | "start_date"
+        | "due_date"
+        | "original_estimate_hours"
+        | "sprint_id"
+      >
+    >
+  ) => {
+    if (!issueId || !issue) throw new Error("Issue ID is required")
+
+    const supabase = createClient()
+
+    // Save previous state for rollback
+    const previousIssue = issue
+
+    // Optimistic update
+    setIssue({ ...issue, ...updates, updated_at: new Date().toISOString() })
+
+    const { error } = await supabase
+      .from("issues")
+      .update(updates)
+      .eq("id", issueId)
+
+    if (error) {
+      setIssue(previousIssue)
+      throw error
+    }
+
+    await announceIssueUpdate(previousIssue, updates)
+
+    const { data } = await getIssueById(issueId)
+    if (data) {
+      setIssue(data as IssueDetail)
+    }
+
+    return data as IssueDetail | null
+  }
+
+  // Assigning goes through the RPC so the assignee is notified; null unassigns
+  const handleAssignIssue = async (assigneeId: string | null) => {
+    if (!assigneeId) {
+      return updateIssue({ assignee_id: null })
+    }
+    if (!issueId || !issue) throw new Error("Issue ID is required")
+
+    // Save previous state for rollback
+    const previousIssue = issue
+
+    // Optimistic update
+    setIssue({ ...issue, assignee_id: assigneeId, updated_at: new Date().toISOString() })
+
+    const { error } = await assignIssue(issueId, assigneeId)
+    if (error) {
+      setIssue(previousIssue)
+      throw error
+    }
+
+    const { data } = await getIssueById(issueId)
+    if (data) {
+      setIssue(data as IssueDetail)
+    }
+
+    return data as IssueDetail | null
+  }
+
+  return {
+    issue,
+    loading,
+    error,
+    updateIssue,
+    assignIssue: handleAssignIssue,
+  }
+}
+
+type ChildIssue = Pick<Tables<"issues">, "id" | "number" | "title" | "type"> & {
+  status: Pick<Tables<"statuses">, "id" | "name" | "color">
+  project: Pick<Tables<"projects">, "key">
+}
+
+export function useChildIssues(parentId?: string) {
+  const [children, setChildren] = useState<ChildIssue[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  useEffect(() => {
+    if (!parentId) {
+      setLoading(false)
+      return
+    }
+
+    const supabase = createClient()
+    let channel: RealtimeChannel
+
+    async function fetchChildren() {
+      try {
+        setLoading(true)
+        const { data, error } = await getChildIssues(parentId!)
+
+        if (error) throw error
+
+        setChildren(data as unknown as ChildIssue[])
+      } catch (err) {
+        setError(err as Error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    // Initial fetch
+    fetchChildren()
+
+    // Children change status or get (un)parented elsewhere; refetch on any change
+    channel = createRealtimeChannel(supabase, `issues:parent_id=eq.${parentId}`)
+
+    subscribeToChanges(
+      channel,
+      {
+        schema: "public",
+        table: "issues",
+        filter: `parent_id=eq.${parentId}`,
+        event: "*",
+      },
+      async () => {
+        const { data } = await getChildIssues(parentId)
+        if (data) {
+          setChildren(data as unknown as ChildIssue[])
+        }
+      }
+    )
+
+    channel.subscribe()
+
+    return () => {
+      cleanupChannel(supabase, channel)
+    }
+  }, [parentId])
+
+  return {
+    children,
+    loading,
+    error,
+  }
+}
+
+export function useProjectEpics(projectId?: string) {
+  const [epics, setEpics] = useState<
+    Pick<Tables<"issues">, "id" | "number" | "title">[]
+  >([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  useEffect(() => {
+    if (!projectId) {
+      setLoading(false)
+      return
+    }
+
+    async function fetchEpics() {
+      try {
+        setLoading(true)
+        const { data, error } = await getProjectEpics(projectId!)
+
+        if (error) throw error
+
+        setEpics(data || [])
+      } catch (err) {
+        setError(err as Error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchEpics()
+  }, [projectId])
+
+  return {
+    epics,
+    loading,
+    error,
+  }
+}
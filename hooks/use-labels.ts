@@ -0,0 +1,142 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import {
+  getProjectLabels,
+  createLabel,
+  updateLabel,
+  deleteLabel,
+  getIssueLabels,
+  setIssueLabels,
+} from "@/utils/supabase/queries"
+import type { Tables } from "@/types/database.types"
+
+type Label = Tables<"labels">
+type IssueLabel = Pick<Label, "id" | "name" | "color">
+
+export function useProjectLabels(projectId?: string) {
+  const [labels, setLabels] = useState<Label[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  useEffect(() => {
+    if (!projectId) {
+      setLoading(false)
+      return
+    }
+
+    async function fetchLabels() {
+      try {
+        setLoading(true)
+        const { data, error } = await getProjectLabels(projectId!)
+
+        if (error) throw error
+
+        setLabels(data || [])
+      } catch (err) {
+        setError(err as Error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchLabels()
+  }, [projectId])
+
+  const addLabel = async (name: string, color: string) => {
+    if (!projectId) throw new Error("Project ID is required")
+
+    const { data, error } = await createLabel(projectId, name, color)
+    if (error) throw error
+
+    if (data) {
+      setLabels((prev) => [...prev, data].sort((a, b) => a.name.localeCompare(b.name)))
+    }
+
+    return data
+  }
+
+  const editLabel = async (labelId: string, updates: Partial<Pick<Label, "name" | "color">>) => {
+    const { data, error } = await updateLabel(labelId, updates)
+    if (error) throw error
+
+    if (data) {
+      setLabels((prev) =>
+        prev
+          .map((label) => (label.id === labelId ? data : label))
+          .sort((a, b) => a.name.localeCompare(b.name))
+      )
+    }
+
+    return data
+  }
+
+  const removeLabel = async (labelId: string) => {
+    const { error } = await deleteLabel(labelId)
+    if (error) throw error
+
+    setLabels((prev) => prev.filter((label) => label.id !== labelId))
+  }
+
+  return {
+    labels,
+    loading,
+    error,
+    addLabel,
+    editLabel,
+    removeLabel,
+  }
+}
+
+export function useIssueLabels(issueId?: string) {
+  const [labels, setLabels] = useState<IssueLabel[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  useEffect(() => {
+    if (!issueId) {
+      setLoading(false)
+      return
+    }
+
+    async function fetchIssueLabels() {
+      try {
+        setLoading(true)
+        const { data, error } = await getIssueLabels(issueId!)
+
+        if (error) throw error
+
+        setLabels(
+          ((data || []) as unknown as { label: IssueLabel | null }[])
+            .map((row) => row.label)
+            .filter((label): label is IssueLabel => label !== null)
+        )
+      } catch (err) {
+        setError(err as Error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchIssueLabels()
+  }, [issueId])
+
+  /**
+   * Replaces the issue's labels; `catalog` resolves ids to label details
+   */
+  const updateLabels = async (labelIds: string[], catalog: IssueLabel[]) => {
+    if (!issueId) throw new Error("Issue ID is required")
+
+    const { error } = await setIssueLabels(issueId, labelIds)
+    if (error) throw error
+
+    setLabels(catalog.filter((label) => labelIds.includes(label.id)))
+  }
+
+  return {
+    labels,
+    loading,
+    error,
+    updateLabels,
+  }
+}
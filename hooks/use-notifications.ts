@@ -20,6 +20,7 @@ export type Notification = Tables<"notifications">
 export interface NotificationWithDetails extends Notification {
   issue?: {
     id: string
+    number: number
     title: string
     project: {
       key: string
@@ -55,6 +56,7 @@ export function useNotifications(userId?: string) {
             *,
             issue:issues (
               id,
+              number,
               title,
               project:projects (
                 key
@@ -101,6 +103,7 @@ export function useNotifications(userId?: string) {
               *,
               issue:issues (
                 id,
+                number,
                 title,
                 project:projects (
                   key
@@ -2,7 +2,12 @@
 
 import { useEffect, useState } from "react"
 import { createClient } from "@/lib/supabase/client"
-import { createDefaultStatuses } from "@/utils/supabase/queries"
+import {
+  createDefaultStatuses,
+  getProjectMemberRole,
+  getProjectWipEnforced,
+  setProjectWipEnforced,
+} from "@/utils/supabase/queries"
 import type { Tables } from "@/types/database.types"
 
 type Project = Tables<"projects">
@@ -167,7 +172,7 @@ export function useProjectStatuses(projectId?: string) {
 
   const updateStatus = async (
     statusId: string,
-    updates: Partial<Pick<Status, "name" | "color" | "order">>
+    updates: Partial<Pick<Status, "name" | "color" | "order" | "wip_limit">>
   ) => {
     const supabase = createClient()
     const { data, error } = await supabase
@@ -205,3 +210,124 @@ export function useProjectStatuses(projectId?: string) {
     deleteStatus,
   }
 }
+
+type ProjectMember = Pick<Tables<"users">, "id" | "display_name" | "avatar_url">
+
+/**
+ * Loads the members of the team that owns a project
+ */
+export function useProjectMembers(projectId?: string) {
+  const [members, setMembers] = useState<ProjectMember[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  useEffect(() => {
+    if (!projectId) {
+      setLoading(false)
+      return
+    }
+
+    async function fetchMembers() {
+      try {
+        setLoading(true)
+        const supabase = createClient()
+
+        const { data: project, error: projectError } = await supabase
+          .from("projects")
+          .select("team_id")
+          .eq("id", projectId)
+          .single()
+
+        if (projectError) throw projectError
+
+        const { data, error } = await supabase
+          .from("team_members")
+          .select("user:users ( id, display_name, avatar_url )")
+          .eq("team_id", project.team_id)
+
+        if (error) throw error
+
+        setMembers(
+          ((data || []) as unknown as { user: ProjectMember }[])
+            .map((row) => row.user)
+            .sort((a, b) => a.display_name.localeCompare(b.display_name))
+        )
+      } catch (err) {
+        setError(err as Error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchMembers()
+  }, [projectId])
+
+  return {
+    members,
+    loading,
+    error,
+  }
+}
+
+/**
+ * Loads whether a project blocks moves into full columns, and whether the
+ * user is a team admin who may override that
+ */
+export function useWipLimitPolicy(projectId?: string, userId?: string) {
+  const [enforced, setEnforced] = useState(false)
+  const [isAdmin, setIsAdmin] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  useEffect(() => {
+    if (!projectId) {
+      setLoading(false)
+      return
+    }
+
+    async function fetchPolicy() {
+      try {
+        setLoading(true)
+        const [enforcedResult, roleResult] = await Promise.all([
+          getProjectWipEnforced(projectId!),
+          userId ? getProjectMemberRole(projectId!, userId) : { data: null, error: null },
+        ])
+
+        if (enforcedResult.error) throw enforcedResult.error
+        if (roleResult.error) throw roleResult.error
+
+        setEnforced(enforcedResult.data)
+        setIsAdmin(roleResult.data === "owner" || roleResult.data === "admin")
+      } catch (err) {
+        setError(err as Error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchPolicy()
+  }, [projectId, userId])
+
+  const updateEnforced = async (value: boolean) => {
+    if (!projectId) throw new Error("Project ID is required")
+
+    const previous = enforced
+
+    // Optimistic update
+    setEnforced(value)
+
+    const { error } = await setProjectWipEnforced(projectId, value)
+    if (error) {
+      setEnforced(previous)
+      throw error
+    }
+  }
+
+  return {
+    enforced,
+    isAdmin,
+    loading,
+    error,
+    setEnforced: updateEnforced,
+  }
+}
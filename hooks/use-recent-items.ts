@@ -0,0 +1,67 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import type { RecentItem } from "@/types/models"
+
+const MAX_RECENT_ITEMS = 8
+const CHANGE_EVENT = "recent-items-change"
+
+const storageKey = (userId: string) => `jira-lite:recent-items:${userId}`
+
+function readRecentItems(userId: string): RecentItem[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(storageKey(userId)) ?? "[]")
+    return Array.isArray(stored) ? stored : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Recently visited issues and projects of a user, kept in localStorage
+ *
+ * Every mounted instance updates when an item is added, so pages can
+ * record visits while the command palette lists them.
+ */
+export function useRecentItems(userId?: string) {
+  const [items, setItems] = useState<RecentItem[]>([])
+
+  useEffect(() => {
+    if (!userId) return
+
+    const sync = () => setItems(readRecentItems(userId))
+    sync()
+
+    // `storage` covers other tabs, the custom event this one
+    window.addEventListener("storage", sync)
+    window.addEventListener(CHANGE_EVENT, sync)
+    return () => {
+      window.removeEventListener("storage", sync)
+      window.removeEventListener(CHANGE_EVENT, sync)
+    }
+  }, [userId])
+
+  const addItem = useCallback(
+    (item: RecentItem) => {
+      if (!userId) return
+
+      const next = [
+        item,
+        ...readRecentItems(userId).filter(
+          (recent) => !(recent.type === item.type && recent.id === item.id)
+        ),
+      ].slice(0, MAX_RECENT_ITEMS)
+
+      try {
+        localStorage.setItem(storageKey(userId), JSON.stringify(next))
+      } catch (err) {
+        console.error("Error saving recent items:", err)
+        return
+      }
+      window.dispatchEvent(new Event(CHANGE_EVENT))
+    },
+    [userId]
+  )
+
+  return { items, addItem }
+}
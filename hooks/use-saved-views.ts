@@ -0,0 +1,118 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import {
+  getSavedViews,
+  createSavedView,
+  updateSavedView,
+  deleteSavedView,
+  getProjectDefaultViewId,
+  setProjectDefaultView,
+} from "@/utils/supabase/queries"
+import type {
+  CreateSavedViewInput,
+  SavedView,
+  UpdateSavedViewInput,
+} from "@/types/models"
+
+const byName = (a: SavedView, b: SavedView) => a.name.localeCompare(b.name)
+
+/**
+ * Loads a project's saved views and its default view
+ *
+ * Without `userId` only shared views are loaded, e.g. in project settings.
+ * Stays loading until a project ID is given, so callers can hold it back
+ * while they resolve the current user.
+ */
+export function useSavedViews(projectId?: string, userId?: string) {
+  const [views, setViews] = useState<SavedView[]>([])
+  const [defaultViewId, setDefaultViewId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  useEffect(() => {
+    if (!projectId) return
+
+    async function fetchViews() {
+      try {
+        setLoading(true)
+        const [viewsResult, defaultResult] = await Promise.all([
+          getSavedViews(projectId!, userId),
+          getProjectDefaultViewId(projectId!),
+        ])
+
+        if (viewsResult.error) throw viewsResult.error
+        if (defaultResult.error) throw defaultResult.error
+
+        setViews(viewsResult.data)
+        setDefaultViewId(defaultResult.data)
+      } catch (err) {
+        setError(err as Error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchViews()
+  }, [projectId, userId])
+
+  const addView = async (input: Omit<CreateSavedViewInput, "project_id">) => {
+    if (!projectId) throw new Error("Project ID is required")
+    if (!userId) throw new Error("User ID is required")
+
+    const { data, error } = await createSavedView({ ...input, project_id: projectId }, userId)
+    if (error) throw error
+
+    if (data) {
+      setViews((prev) => [...prev, data].sort(byName))
+    }
+
+    return data
+  }
+
+  const editView = async (viewId: string, updates: UpdateSavedViewInput) => {
+    const { data, error } = await updateSavedView(viewId, updates)
+    if (error) throw error
+
+    if (data) {
+      setViews((prev) => prev.map((view) => (view.id === viewId ? data : view)).sort(byName))
+    }
+
+    return data
+  }
+
+  const removeView = async (viewId: string) => {
+    const { error } = await deleteSavedView(viewId)
+    if (error) throw error
+
+    setViews((prev) => prev.filter((view) => view.id !== viewId))
+    // The database clears the project default along with the view
+    setDefaultViewId((prev) => (prev === viewId ? null : prev))
+  }
+
+  const setDefaultView = async (viewId: string | null) => {
+    if (!projectId) throw new Error("Project ID is required")
+
+    const previous = defaultViewId
+
+    // Optimistic update
+    setDefaultViewId(viewId)
+
+    const { error } = await setProjectDefaultView(projectId, viewId)
+    if (error) {
+      setDefaultViewId(previous)
+      throw error
+    }
+  }
+
+  return {
+    views,
+    defaultViewId,
+    loading,
+    error,
+    addView,
+    editView,
+    removeView,
+    setDefaultView,
+  }
+}
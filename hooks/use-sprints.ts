@@ -0,0 +1,106 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import {
+  getProjectSprints,
+  createSprint,
+  updateSprint,
+  deleteSprint,
+  startSprint,
+  completeSprint,
+} from "@/utils/supabase/queries"
+import type { CreateSprintInput, Sprint, UpdateSprintInput } from "@/types/models"
+
+export function useSprints(projectId?: string) {
+  const [sprints, setSprints] = useState<Sprint[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  useEffect(() => {
+    if (!projectId) {
+      setLoading(false)
+      return
+    }
+
+    async function fetchSprints() {
+      try {
+        setLoading(true)
+        const { data, error } = await getProjectSprints(projectId!)
+
+        if (error) throw error
+
+        setSprints(data)
+      } catch (err) {
+        setError(err as Error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchSprints()
+  }, [projectId])
+
+  const replaceSprint = (sprint: Sprint) => {
+    setSprints((prev) => prev.map((s) => (s.id === sprint.id ? sprint : s)))
+  }
+
+  const addSprint = async (
+    input: Omit<CreateSprintInput, "project_id">,
+    userId: string
+  ) => {
+    if (!projectId) throw new Error("Project ID is required")
+
+    const { data, error } = await createSprint({ ...input, project_id: projectId }, userId)
+    if (error) throw error
+
+    if (data) {
+      setSprints((prev) => [...prev, data])
+    }
+
+    return data
+  }
+
+  const editSprint = async (sprintId: string, updates: UpdateSprintInput) => {
+    const { data, error } = await updateSprint(sprintId, updates)
+    if (error) throw error
+
+    if (data) replaceSprint(data)
+    return data
+  }
+
+  const removeSprint = async (sprintId: string) => {
+    const { error } = await deleteSprint(sprintId)
+    if (error) throw error
+
+    setSprints((prev) => prev.filter((sprint) => sprint.id !== sprintId))
+  }
+
+  const start = async (sprintId: string) => {
+    const { data, error } = await startSprint(sprintId)
+    if (error) throw error
+
+    if (data) replaceSprint(data)
+    return data
+  }
+
+  const complete = async (sprintId: string, moveToSprintId: string | null) => {
+    const { data, error } = await completeSprint(sprintId, moveToSprintId)
+    if (error) throw error
+
+    if (data) replaceSprint(data)
+    return data
+  }
+
+  return {
+    sprints,
+    activeSprint: sprints.find((sprint) => sprint.state === "active") ?? null,
+    plannedSprints: sprints.filter((sprint) => sprint.state === "planned"),
+    loading,
+    error,
+    addSprint,
+    editSprint,
+    removeSprint,
+    startSprint: start,
+    completeSprint: complete,
+  }
+}
@@ -0,0 +1,194 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { createClient } from "@/lib/supabase/client"
+import {
+  getSubtasksByIssueId,
+  addSubtask,
+  updateSubtask,
+  deleteSubtask,
+} from "@/utils/supabase/queries"
+import {
+  createRealtimeChannel,
+  subscribeToChanges,
+  cleanupChannel,
+  optimisticUpdate,
+  optimisticDelete,
+  rollbackOptimistic,
+} from "@/utils/supabase/realtime"
+import { compareRanks, getRankBetween } from "@/utils/lexorank"
+import type { Tables } from "@/types/database.types"
+import type { RealtimeChannel } from "@supabase/supabase-js"
+
+type Subtask = Tables<"subtasks">
+
+const sortByRank = (items: Subtask[]) =>
+  [...items].sort((a, b) => compareRanks(a.order, b.order))
+
+export function useSubtasks(issueId?: string) {
+  const [subtasks, setSubtasks] = useState<Subtask[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  useEffect(() => {
+    if (!issueId) {
+      setLoading(false)
+      return
+    }
+
+    const supabase = createClient()
+    let channel: RealtimeChannel
+
+    async function fetchSubtasks() {
+      try {
+        setLoading(true)
+        const { data, error } = await getSubtasksByIssueId(issueId!)
+
+        if (error) throw error
+
+        setSubtasks(sortByRank(data as Subtask[]))
+      } catch (err) {
+        setError(err as Error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    // Initial fetch
+    fetchSubtasks()
+
+    // Subscribe to real-time updates
+    channel = createRealtimeChannel(supabase, `subtasks:issue_id=eq.${issueId}`)
+
+    subscribeToChanges(
+      channel,
+      {
+        schema: "public",
+        table: "subtasks",
+        filter: `issue_id=eq.${issueId}`,
+        event: "INSERT",
+      },
+      (payload) => {
+        const subtask = payload.new as Subtask
+        // Our own inserts are already in state
+        setSubtasks((prev) =>
+          prev.some((s) => s.id === subtask.id) ? prev : sortByRank([...prev, subtask])
+        )
+      }
+    )
+
+    subscribeToChanges(
+      channel,
+      {
+        schema: "public",
+        table: "subtasks",
+        filter: `issue_id=eq.${issueId}`,
+        event: "UPDATE",
+      },
+      (payload) => {
+        const subtask = payload.new as Subtask
+        setSubtasks((prev) =>
+          sortByRank(prev.map((s) => (s.id === subtask.id ? subtask : s)))
+        )
+      }
+    )
+
+    subscribeToChanges(
+      channel,
+      {
+        schema: "public",
+        table: "subtasks",
+        filter: `issue_id=eq.${issueId}`,
+        event: "DELETE",
+      },
+      (payload) => {
+        setSubtasks((prev) => prev.filter((s) => s.id !== (payload.old as Subtask).id))
+      }
+    )
+
+    channel.subscribe()
+
+    return () => {
+      cleanupChannel(supabase, channel)
+    }
+  }, [issueId])
+
+  const createSubtask = async (userId: string, title: string) => {
+    if (!issueId) throw new Error("Issue ID is required")
+
+    // New subtasks go to the bottom of the list
+    const order = getRankBetween(subtasks[subtasks.length - 1]?.order, null)
+
+    const { data, error } = await addSubtask(issueId, userId, title, order)
+    if (error) throw error
+
+    if (data) {
+      setSubtasks((prev) =>
+        prev.some((s) => s.id === data.id) ? prev : sortByRank([...prev, data as Subtask])
+      )
+    }
+
+    return data
+  }
+
+  const editSubtask = async (
+    subtaskId: string,
+    updates: Partial<Pick<Subtask, "title" | "completed" | "order">>
+  ) => {
+    // Save previous state for rollback
+    const previousSubtasks = [...subtasks]
+
+    // Optimistic update
+    setSubtasks((prev) => sortByRank(optimisticUpdate<Subtask>(prev, subtaskId, updates)))
+
+    const { data, error } = await updateSubtask(subtaskId, updates)
+    if (error) {
+      rollbackOptimistic(setSubtasks, previousSubtasks)
+      throw error
+    }
+
+    return data
+  }
+
+  const toggleSubtask = async (subtaskId: string) => {
+    const subtask = subtasks.find((s) => s.id === subtaskId)
+    if (!subtask) return
+
+    return editSubtask(subtaskId, { completed: !subtask.completed })
+  }
+
+  /**
+   * Moves a subtask to a new index, ranking it between its new neighbours
+   */
+  const reorderSubtask = async (subtaskId: string, newIndex: number) => {
+    const others = subtasks.filter((s) => s.id !== subtaskId)
+    const order = getRankBetween(others[newIndex - 1]?.order, others[newIndex]?.order)
+
+    return editSubtask(subtaskId, { order })
+  }
+
+  const removeSubtask = async (subtaskId: string) => {
+    // Save previous state for rollback
+    const previousSubtasks = [...subtasks]
+
+    // Optimistic delete
+    setSubtasks((prev) => optimisticDelete(prev, subtaskId))
+
+    const { error } = await deleteSubtask(subtaskId)
+    if (error) {
+      rollbackOptimistic(setSubtasks, previousSubtasks)
+      throw error
+    }
+  }
+
+  return {
+    subtasks,
+    loading,
+    error,
+    createSubtask,
+    editSubtask,
+    toggleSubtask,
+    reorderSubtask,
+    removeSubtask,
+  }
+}
@@ -0,0 +1,103 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { createClient } from "@/lib/supabase/client"
+import {
+  getIssueWatchers,
+  addIssueWatchers,
+  removeIssueWatcher,
+} from "@/utils/supabase/queries"
+import {
+  createRealtimeChannel,
+  subscribeToChanges,
+  cleanupChannel,
+} from "@/utils/supabase/realtime"
+import type { IssueWatcherWithUser } from "@/types/models"
+
+export function useIssueWatchers(issueId?: string) {
+  const [watchers, setWatchers] = useState<IssueWatcherWithUser[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  useEffect(() => {
+    if (!issueId) {
+      setLoading(false)
+      return
+    }
+
+    const supabase = createClient()
+
+    async function fetchWatchers() {
+      try {
+        setLoading(true)
+        const { data, error } = await getIssueWatchers(issueId!)
+
+        if (error) throw error
+
+        setWatchers(data)
+      } catch (err) {
+        setError(err as Error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    // Initial fetch
+    fetchWatchers()
+
+    // Commenting or being assigned adds watchers elsewhere; refetch on any change
+    const channel = createRealtimeChannel(supabase, `issue_watchers:issue_id=eq.${issueId}`)
+
+    subscribeToChanges(
+      channel,
+      {
+        schema: "public",
+        table: "issue_watchers",
+        filter: `issue_id=eq.${issueId}`,
+        event: "*",
+      },
+      async () => {
+        const { data } = await getIssueWatchers(issueId)
+        if (data) {
+          setWatchers(data)
+        }
+      }
+    )
+
+    channel.subscribe()
+
+    return () => {
+      cleanupChannel(supabase, channel)
+    }
+  }, [issueId])
+
+  const watch = async (userId: string) => {
+    if (!issueId) throw new Error("Issue ID is required")
+
+    const { error } = await addIssueWatchers(issueId, [userId])
+    if (error) throw error
+
+    const { data } = await getIssueWatchers(issueId)
+    if (data) {
+      setWatchers(data)
+    }
+  }
+
+  const unwatch = async (userId: string) => {
+    if (!issueId) throw new Error("Issue ID is required")
+
+    const { error } = await removeIssueWatcher(issueId, userId)
+    if (error) throw error
+
+    setWatchers((prev) => prev.filter((watcher) => watcher.user_id !== userId))
+  }
+
+  return {
+    watchers,
+    loading,
+    error,
+    isWatching: (userId: string) => watchers.some((watcher) => watcher.user_id === userId),
+    watch,
+    unwatch,
+  }
+}
@@ -0,0 +1,114 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import {
+  getWorklogsByIssueId,
+  addWorklog,
+  deleteWorklog,
+  getUserWorklogs,
+} from "@/utils/supabase/queries"
+import type { WorklogWithIssue, WorklogWithUser } from "@/types/models"
+
+export function useWorklogs(issueId?: string) {
+  const [worklogs, setWorklogs] = useState<WorklogWithUser[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  useEffect(() => {
+    if (!issueId) {
+      setLoading(false)
+      return
+    }
+
+    async function fetchWorklogs() {
+      try {
+        setLoading(true)
+        const { data, error } = await getWorklogsByIssueId(issueId!)
+
+        if (error) throw error
+
+        setWorklogs(data)
+      } catch (err) {
+        setError(err as Error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchWorklogs()
+  }, [issueId])
+
+  const logWork = async (
+    userId: string,
+    hours: number,
+    workDate: string,
+    note?: string
+  ) => {
+    if (!issueId) throw new Error("Issue ID is required")
+
+    const { data, error } = await addWorklog(issueId, userId, hours, workDate, note)
+    if (error) throw error
+
+    if (data) {
+      setWorklogs((prev) =>
+        [data, ...prev].sort((a, b) => b.work_date.localeCompare(a.work_date))
+      )
+    }
+
+    return data
+  }
+
+  const removeWorklog = async (worklogId: string) => {
+    const { error } = await deleteWorklog(worklogId)
+    if (error) throw error
+
+    setWorklogs((prev) => prev.filter((worklog) => worklog.id !== worklogId))
+  }
+
+  return {
+    worklogs,
+    loading,
+    error,
+    logWork,
+    removeWorklog,
+  }
+}
+
+/**
+ * Loads a user's worklogs between two dates (YYYY-MM-DD, inclusive)
+ */
+export function useTimesheet(userId?: string, from?: string, to?: string) {
+  const [worklogs, setWorklogs] = useState<WorklogWithIssue[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  useEffect(() => {
+    if (!userId || !from || !to) {
+      setLoading(false)
+      return
+    }
+
+    async function fetchTimesheet() {
+      try {
+        setLoading(true)
+        const { data, error } = await getUserWorklogs(userId!, from!, to!)
+
+        if (error) throw error
+
+        setWorklogs(data)
+      } catch (err) {
+        setError(err as Error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchTimesheet()
+  }, [userId, from, to])
+
+  return {
+    worklogs,
+    loading,
+    error,
+  }
+}
@@ -0,0 +1,61 @@
+-- Audit log of issue field changes, read by IssueHistory.
+-- Rows are written by a trigger so every update path is recorded,
+-- whether it goes through an RPC or a direct table update.
+
+create type public.issue_event_field as enum ('status', 'assignee', 'priority');
+
+create table public.issue_events (
+  id uuid primary key default gen_random_uuid(),
+  issue_id uuid not null references public.issues (id) on delete cascade,
+  actor_id uuid references public.users (id) on delete set null,
+  field public.issue_event_field not null,
+  old_value text,
+  new_value text,
+  created_at timestamptz not null default now()
+);
+
+create index issue_events_issue_id_created_at_idx
+  on public.issue_events (issue_id, created_at desc);
+
+alter table public.issue_events enable row level security;
+
+-- Events are visible to whoever can see the issue
+create policy "Issue events are visible with their issue"
+  on public.issue_events for select
+  to authenticated
+  using (exists (select 1 from public.issues where issues.id = issue_events.issue_id));
+
+-- Values are stored raw: status and user IDs, or the priority enum
+create or replace function public.record_issue_events()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status_id is distinct from old.status_id then
+    insert into issue_events (issue_id, actor_id, field, old_value, new_value)
+    values (new.id, auth.uid(), 'status', old.status_id::text, new.status_id::text);
+  end if;
+
+  if new.assignee_id is distinct from old.assignee_id then
+    insert into issue_events (issue_id, actor_id, field, old_value, new_value)
+    values (new.id, auth.uid(), 'assignee', old.assignee_id::text, new.assignee_id::text);
+  end if;
+
+  if new.priority is distinct from old.priority then
+    insert into issue_events (issue_id, actor_id, field, old_value, new_value)
+    values (new.id, auth.uid(), 'priority', old.priority::text, new.priority::text);
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger issues_record_events
+  after update of status_id, assignee_id, priority on public.issues
+  for each row
+  execute function public.record_issue_events();
+
+-- IssueHistory subscribes to new events
+alter publication supabase_realtime add table public.issue_events;
@@ -0,0 +1,59 @@
+-- A project has at most one active sprint. startSprint checks first for a
+-- friendly error; this index settles concurrent starts.
+create unique index sprints_one_active_per_project_idx
+  on public.sprints (project_id)
+  where state = 'active';
+
+-- Moves the unfinished issues and closes the sprint in one transaction, so
+-- a failure cannot leave issues moved out of a sprint that is still active.
+-- Which issues are unfinished is decided by the client (see isDoneStatus).
+create or replace function public.complete_sprint(
+  p_sprint_id uuid,
+  p_move_to_sprint_id uuid,
+  p_unfinished_issue_ids uuid[]
+)
+returns public.sprints
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_sprint sprints;
+  v_issue_count integer;
+  v_moved_count integer;
+begin
+  select * into v_sprint
+  from sprints
+  where id = p_sprint_id
+  for update;
+
+  if not found then
+    raise exception 'Sprint % not found', p_sprint_id;
+  end if;
+
+  if v_sprint.state <> 'active' then
+    raise exception 'Sprint % is not active', p_sprint_id;
+  end if;
+
+  select count(*) into v_issue_count
+  from issues
+  where sprint_id = p_sprint_id;
+
+  update issues
+  set sprint_id = p_move_to_sprint_id
+  where sprint_id = p_sprint_id
+    and id = any(p_unfinished_issue_ids);
+
+  get diagnostics v_moved_count = row_count;
+
+  update sprints
+  set state = 'completed',
+      completed_at = now(),
+      completed_issue_count = v_issue_count - v_moved_count,
+      incomplete_issue_count = v_moved_count,
+      updated_at = now()
+  where id = p_sprint_id
+  returning * into v_sprint;
+
+  return v_sprint;
+end;
+$$;
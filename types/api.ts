@@ -164,7 +164,15 @@ export interface CreateIssueRequest {
   description?: string
   status_id: string
   priority?: "low" | "medium" | "high" | "urgent"
+  type?: "bug" | "story" | "task" | "epic"
   assignee_id?: string
+  parent_id?: string
+  start_date?: string
+  due_date?: string
+  original_estimate_hours?: number
+  sprint_id?: string
+  // Keyed by custom field ID
+  custom_values?: Record<string, string | number | null>
 }
 
 export interface CreateIssueResponse extends ApiResponse<Issue> {}
@@ -177,6 +185,10 @@ export interface ListIssuesRequest {
   assignee_id?: string
   reporter_id?: string
   priority?: string[]
+  type?: string[]
+  sprint_id?: string | null
+  due_before?: string
+  due_after?: string
   search?: string
   pagination?: PaginationParams
 }
@@ -188,7 +200,13 @@ export interface UpdateIssueRequest {
   description?: string
   status_id?: string
   priority?: "low" | "medium" | "high" | "urgent"
+  type?: "bug" | "story" | "task" | "epic"
   assignee_id?: string | null
+  parent_id?: string | null
+  start_date?: string | null
+  due_date?: string | null
+  original_estimate_hours?: number | null
+  sprint_id?: string | null
 }
 
 export interface UpdateIssueResponse extends ApiResponse<Issue> {}
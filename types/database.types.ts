@@ -102,6 +102,9 @@ export interface Database {
           key: string
           description: string | null
           icon: string | null
+          issue_counter: number
+          default_view_id: string | null
+          wip_limit_enforced: boolean
           created_at: string
           updated_at: string
         }
@@ -112,6 +115,9 @@ export interface Database {
           key: string
           description?: string | null
           icon?: string | null
+          issue_counter?: number
+          default_view_id?: string | null
+          wip_limit_enforced?: boolean
           created_at?: string
           updated_at?: string
         }
@@ -122,6 +128,9 @@ export interface Database {
           key?: string
           description?: string | null
           icon?: string | null
+          issue_counter?: number
+          default_view_id?: string | null
+          wip_limit_enforced?: boolean
           created_at?: string
           updated_at?: string
         }
@@ -133,6 +142,7 @@ export interface Database {
           name: string
           color: string
           order: number
+          wip_limit: number | null
           created_at: string
         }
         Insert: {
@@ -141,6 +151,7 @@ export interface Database {
           name: string
           color: string
           order: number
+          wip_limit?: number | null
           created_at?: string
         }
         Update: {
@@ -149,6 +160,7 @@ export interface Database {
           name?: string
           color?: string
           order?: number
+          wip_limit?: number | null
           created_at?: string
         }
       }
@@ -156,12 +168,19 @@ export interface Database {
         Row: {
           id: string
           project_id: string
+          number: number
           title: string
           description: string | null
           status_id: string
           priority: "low" | "medium" | "high" | "urgent"
+          type: "bug" | "story" | "task" | "epic"
           assignee_id: string | null
           reporter_id: string
+          parent_id: string | null
+          start_date: string | null
+          due_date: string | null
+          original_estimate_hours: number | null
+          sprint_id: string | null
           order: string
           created_at: string
           updated_at: string
@@ -169,12 +188,19 @@ export interface Database {
         Insert: {
           id?: string
           project_id: string
+          number?: number
           title: string
           description?: string | null
           status_id: string
           priority?: "low" | "medium" | "high" | "urgent"
+          type?: "bug" | "story" | "task" | "epic"
           assignee_id?: string | null
           reporter_id: string
+          parent_id?: string | null
+          start_date?: string | null
+          due_date?: string | null
+          original_estimate_hours?: number | null
+          sprint_id?: string | null
           order: string
           created_at?: string
           updated_at?: string
@@ -182,23 +208,327 @@ export interface Database {
         Update: {
           id?: string
           project_id?: string
+          number?: number
           title?: string
           description?: string | null
           status_id?: string
           priority?: "low" | "medium" | "high" | "urgent"
+          type?: "bug" | "story" | "task" | "epic"
           assignee_id?: string | null
           reporter_id?: string
+          parent_id?: string | null
+          start_date?: string | null
+          due_date?: string | null
+          original_estimate_hours?: number | null
+          sprint_id?: string | null
           order?: string
           created_at?: string
           updated_at?: string
         }
       }
+      labels: {
+        Row: {
+          id: string
+          project_id: string
+          name: string
+          color: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          project_id: string
+          name: string
+          color: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          project_id?: string
+          name?: string
+          color?: string
+          created_at?: string
+        }
+      }
+      issue_labels: {
+        Row: {
+          issue_id: string
+          label_id: string
+          created_at: string
+        }
+        Insert: {
+          issue_id: string
+          label_id: string
+          created_at?: string
+        }
+        Update: {
+          issue_id?: string
+          label_id?: string
+          created_at?: string
+        }
+      }
+      issue_links: {
+        Row: {
+          id: string
+          source_issue_id: string
+          target_issue_id: string
+          link_type: "blocks" | "duplicates" | "relates_to"
+          created_by: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          source_issue_id: string
+          target_issue_id: string
+          link_type: "blocks" | "duplicates" | "relates_to"
+          created_by: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          source_issue_id?: string
+          target_issue_id?: string
+          link_type?: "blocks" | "duplicates" | "relates_to"
+          created_by?: string
+          created_at?: string
+        }
+      }
+      custom_fields: {
+        Row: {
+          id: string
+          project_id: string
+          name: string
+          field_type: "text" | "number" | "select" | "user" | "date"
+          options: string[]
+          required: boolean
+          order: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          project_id: string
+          name: string
+          field_type: "text" | "number" | "select" | "user" | "date"
+          options?: string[]
+          required?: boolean
+          order?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          project_id?: string
+          name?: string
+          field_type?: "text" | "number" | "select" | "user" | "date"
+          options?: string[]
+          required?: boolean
+          order?: number
+          created_at?: string
+        }
+      }
+      issue_custom_values: {
+        Row: {
+          issue_id: string
+          field_id: string
+          value: Json
+          updated_at: string
+        }
+        Insert: {
+          issue_id: string
+          field_id: string
+          value: Json
+          updated_at?: string
+        }
+        Update: {
+          issue_id?: string
+          field_id?: string
+          value?: Json
+          updated_at?: string
+        }
+      }
+      issue_description_revisions: {
+        Row: {
+          id: string
+          issue_id: string
+          description: string | null
+          author_id: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          issue_id: string
+          description?: string | null
+          author_id?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          issue_id?: string
+          description?: string | null
+          author_id?: string | null
+          created_at?: string
+        }
+      }
+      issue_watchers: {
+        Row: {
+          issue_id: string
+          user_id: string
+          created_at: string
+        }
+        Insert: {
+          issue_id: string
+          user_id: string
+          created_at?: string
+        }
+        Update: {
+          issue_id?: string
+          user_id?: string
+          created_at?: string
+        }
+      }
+      sprints: {
+        Row: {
+          id: string
+          project_id: string
+          name: string
+          goal: string | null
+          start_date: string | null
+          end_date: string | null
+          state: "planned" | "active" | "completed"
+          completed_at: string | null
+          completed_issue_count: number | null
+          incomplete_issue_count: number | null
+          created_by: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          project_id: string
+          name: string
+          goal?: string | null
+          start_date?: string | null
+          end_date?: string | null
+          state?: "planned" | "active" | "completed"
+          completed_at?: string | null
+          completed_issue_count?: number | null
+          incomplete_issue_count?: number | null
+          created_by: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          project_id?: string
+          name?: string
+          goal?: string | null
+          start_date?: string | null
+          end_date?: string | null
+          state?: "planned" | "active" | "completed"
+          completed_at?: string | null
+          completed_issue_count?: number | null
+          incomplete_issue_count?: number | null
+          created_by?: string
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      saved_views: {
+        Row: {
+          id: string
+          project_id: string
+          owner_id: string
+          name: string
+          shared: boolean
+          view: Json
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          project_id: string
+          owner_id: string
+          name: string
+          shared?: boolean
+          view: Json
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          project_id?: string
+          owner_id?: string
+          name?: string
+          shared?: boolean
+          view?: Json
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      worklogs: {
+        Row: {
+          id: string
+          issue_id: string
+          user_id: string
+          hours: number
+          work_date: string
+          note: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          issue_id: string
+          user_id: string
+          hours: number
+          work_date: string
+          note?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          issue_id?: string
+          user_id?: string
+          hours?: number
+          work_date?: string
+          note?: string | null
+          created_at?: string
+        }
+      }
+      issue_events: {
+        Row: {
+          id: string
+          issue_id: string
+          actor_id: string | null
+          field: "status" | "assignee" | "priority"
+          old_value: string | null
+          new_value: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          issue_id: string
+          actor_id?: string | null
+          field: "status" | "assignee" | "priority"
+          old_value?: string | null
+          new_value?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          issue_id?: string
+          actor_id?: string | null
+          field?: "status" | "assignee" | "priority"
+          old_value?: string | null
+          new_value?: string | null
+          created_at?: string
+        }
+      }
       comments: {
         Row: {
           id: string
           issue_id: string
           user_id: string
+          parent_id: string | null
           content: string
+          mentions: string[]
           created_at: string
           updated_at: string
         }
@@ -206,7 +536,9 @@ export interface Database {
           id?: string
           issue_id: string
           user_id: string
+          parent_id?: string | null
           content: string
+          mentions?: string[]
           created_at?: string
           updated_at?: string
         }
@@ -214,7 +546,81 @@ export interface Database {
           id?: string
           issue_id?: string
           user_id?: string
+          parent_id?: string | null
           content?: string
+          mentions?: string[]
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      comment_reactions: {
+        Row: {
+          comment_id: string
+          user_id: string
+          emoji: string
+          created_at: string
+        }
+        Insert: {
+          comment_id: string
+          user_id: string
+          emoji: string
+          created_at?: string
+        }
+        Update: {
+          comment_id?: string
+          user_id?: string
+          emoji?: string
+          created_at?: string
+        }
+      }
+      comment_revisions: {
+        Row: {
+          id: string
+          comment_id: string
+          content: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          comment_id: string
+          content: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          comment_id?: string
+          content?: string
+          created_at?: string
+        }
+      }
+      subtasks: {
+        Row: {
+          id: string
+          issue_id: string
+          title: string
+          completed: boolean
+          order: string
+          created_by: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          issue_id: string
+          title: string
+          completed?: boolean
+          order: string
+          created_by: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          issue_id?: string
+          title?: string
+          completed?: boolean
+          order?: string
+          created_by?: string
           created_at?: string
           updated_at?: string
         }
@@ -255,7 +661,7 @@ export interface Database {
         Row: {
           id: string
           user_id: string
-          type: "issue_assigned" | "issue_commented" | "issue_updated" | "mention"
+          type: "issue_assigned" | "issue_commented" | "issue_updated" | "mention" | "comment_replied"
           title: string
           message: string
           issue_id: string | null
@@ -265,7 +671,7 @@ export interface Database {
         Insert: {
           id?: string
           user_id: string
-          type: "issue_assigned" | "issue_commented" | "issue_updated" | "mention"
+          type: "issue_assigned" | "issue_commented" | "issue_updated" | "mention" | "comment_replied"
           title: string
           message: string
           issue_id?: string | null
@@ -275,7 +681,7 @@ export interface Database {
         Update: {
           id?: string
           user_id?: string
-          type?: "issue_assigned" | "issue_commented" | "issue_updated" | "mention"
+          type?: "issue_assigned" | "issue_commented" | "issue_updated" | "mention" | "comment_replied"
           title?: string
           message?: string
           issue_id?: string | null
@@ -292,6 +698,11 @@ export interface Database {
     }
     Enums: {
       priority: "low" | "medium" | "high" | "urgent"
+      issue_type: "bug" | "story" | "task" | "epic"
+      issue_event_field: "status" | "assignee" | "priority"
+      issue_link_type: "blocks" | "duplicates" | "relates_to"
+      sprint_state: "planned" | "active" | "completed"
+      custom_field_type: "text" | "number" | "select" | "user" | "date"
       team_role: "owner" | "admin" | "member"
     }
   }
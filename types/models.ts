@@ -15,8 +15,24 @@ export type Project = Tables<"projects">
 export type Status = Tables<"statuses">
 export type Issue = Tables<"issues">
 export type Comment = Tables<"comments">
+export type CommentReaction = Tables<"comment_reactions">
+export type CommentRevision = Tables<"comment_revisions">
+export type Subtask = Tables<"subtasks">
+export type Label = Tables<"labels">
+export type IssueLabel = Tables<"issue_labels">
+export type IssueEvent = Tables<"issue_events">
+export type IssueLink = Tables<"issue_links">
+export type Worklog = Tables<"worklogs">
+export type Sprint = Tables<"sprints">
+export type CustomField = Tables<"custom_fields">
+export type IssueCustomValue = Tables<"issue_custom_values">
+export type IssueWatcher = Tables<"issue_watchers">
+export type DescriptionRevision = Tables<"issue_description_revisions">
 export type Attachment = Tables<"attachments">
 
+// `view` is stored as JSON; read it through `normalizeBoardView`
+export type SavedView = Omit<Tables<"saved_views">, "view"> & { view: BoardView }
+
 // Extended types with relationships
 export interface UserWithTeams extends User {
   teams: TeamWithRole[]
@@ -55,14 +71,69 @@ export interface IssueWithDetails extends Issue {
   reporter: User
   comments?: CommentWithUser[]
   attachments?: Attachment[]
+  subtasks?: Pick<Subtask, "id" | "completed">[]
+  labels?: Pick<Label, "id" | "name" | "color">[]
+  incoming_links?: IncomingIssueLink[]
+  parent?: Pick<Issue, "id" | "number" | "title"> | null
+  worklogs?: Pick<Worklog, "hours">[]
+  custom_values?: Pick<IssueCustomValue, "field_id" | "value">[]
   comment_count?: number
   attachment_count?: number
 }
 
+// Links pointing at an issue, with the linking issue's status
+export interface IncomingIssueLink {
+  link_type: IssueLinkType
+  source: Pick<Issue, "id"> & { status: Pick<Status, "name"> }
+}
+
+export type LinkedIssue = Pick<Issue, "id" | "number" | "title"> & {
+  status: Pick<Status, "name" | "color">
+  project: Pick<Project, "key">
+}
+
+export interface IssueLinkWithIssues extends IssueLink {
+  source: LinkedIssue
+  target: LinkedIssue
+}
+
+export interface IssueEventWithActor extends IssueEvent {
+  actor: Pick<User, "id" | "display_name" | "avatar_url"> | null
+}
+
+export interface DescriptionRevisionWithAuthor extends DescriptionRevision {
+  author: Pick<User, "id" | "display_name" | "avatar_url"> | null
+}
+
+export interface IssueWatcherWithUser extends IssueWatcher {
+  user: Pick<User, "id" | "display_name" | "avatar_url">
+}
+
+export interface WorklogWithUser extends Worklog {
+  user: Pick<User, "id" | "display_name" | "avatar_url">
+}
+
+export interface WorklogWithIssue extends Worklog {
+  issue: Pick<Issue, "id" | "number" | "title"> & {
+    project: Pick<Project, "id" | "name" | "key">
+  }
+}
+
+export interface AttachmentWithUser extends Attachment {
+  user: Pick<User, "id" | "display_name" | "avatar_url">
+  // Signed URL to the file, valid for ATTACHMENT_URL_EXPIRES_IN seconds
+  url: string
+}
+
 export interface CommentWithUser extends Comment {
   user: User
 }
 
+export interface CommentWithReactions extends Comment {
+  user: Pick<User, "id" | "display_name" | "avatar_url">
+  reactions: Pick<CommentReaction, "user_id" | "emoji">[]
+}
+
 // Form types for creating/updating records
 export interface CreateTeamInput {
   name: string
@@ -107,7 +178,16 @@ export interface CreateIssueInput {
   description?: string
   status_id: string
   priority?: Issue["priority"]
+  type?: Issue["type"]
   assignee_id?: string
+  parent_id?: string
+  start_date?: string
+  due_date?: string
+  original_estimate_hours?: number
+  sprint_id?: string
+  label_ids?: string[]
+  // Keyed by custom field ID
+  custom_values?: Record<string, CustomFieldValue>
   order: string
 }
 
@@ -116,19 +196,121 @@ export interface UpdateIssueInput {
   description?: string
   status_id?: string
   priority?: Issue["priority"]
+  type?: Issue["type"]
   assignee_id?: string | null
+  parent_id?: string | null
+  start_date?: string | null
+  due_date?: string | null
+  original_estimate_hours?: number | null
+  sprint_id?: string | null
   order?: string
 }
 
+export interface CreateWorklogInput {
+  issue_id: string
+  hours: number
+  work_date: string
+  note?: string
+}
+
+export interface CreateSprintInput {
+  project_id: string
+  name: string
+  goal?: string
+  start_date?: string
+  end_date?: string
+}
+
+export interface UpdateSprintInput {
+  name?: string
+  goal?: string | null
+  start_date?: string | null
+  end_date?: string | null
+}
+
+export interface CreateCustomFieldInput {
+  project_id: string
+  name: string
+  field_type: CustomFieldType
+  options?: string[]
+  required?: boolean
+}
+
+export interface UpdateCustomFieldInput {
+  name?: string
+  options?: string[]
+  required?: boolean
+  order?: number
+}
+
+// Command palette results, each list capped separately
+export interface WorkspaceSearchResults {
+  issues: (Pick<Issue, "id" | "number" | "title" | "type"> & {
+    status: Pick<Status, "name" | "color">
+    project: Pick<Project, "id" | "key" | "name">
+  })[]
+  projects: Pick<Project, "id" | "key" | "name">[]
+  teams: Pick<Team, "id" | "name">[]
+  // `team_id` is one team the person shares with the searching user
+  people: (Pick<User, "id" | "display_name" | "email" | "avatar_url"> & { team_id: string })[]
+}
+
+// Stored in localStorage, newest first
+export interface RecentItem {
+  type: "issue" | "project"
+  id: string
+  title: string
+  // Issue key or project key
+  subtitle?: string
+  href: string
+}
+
+export interface CreateSavedViewInput {
+  project_id: string
+  name: string
+  shared?: boolean
+  view: BoardView
+}
+
+export interface UpdateSavedViewInput {
+  name?: string
+  shared?: boolean
+  view?: BoardView
+}
+
+export interface CreateLabelInput {
+  project_id: string
+  name: string
+  color: string
+}
+
+export interface UpdateLabelInput {
+  name?: string
+  color?: string
+}
+
 export interface CreateCommentInput {
   issue_id: string
   content: string
+  parent_id?: string | null
 }
 
 export interface UpdateCommentInput {
   content: string
 }
 
+export interface CreateSubtaskInput {
+  issue_id: string
+  title: string
+  order: string
+}
+
+export interface UpdateSubtaskInput {
+  title?: string
+  completed?: boolean
+  order?: string
+}
+
 export interface CreateAttachmentInput {
   issue_id: string
   filename: string
@@ -143,19 +325,39 @@ export interface IssueFilters {
   status_ids?: string[]
   assignee_ids?: string[]
   priorities?: Issue["priority"][]
+  types?: Issue["type"][]
   reporter_ids?: string[]
+  label_ids?: string[]
+  // Inclusive YYYY-MM-DD bounds on due_date; issues without one never match
+  due_before?: string
+  due_after?: string
+  custom_fields?: CustomFieldFilter[]
+  // Values to leave out; issues without a value are kept, so excluding an
+  // assignee keeps unassigned issues unless "" is excluded too
+  exclude?: Pick<IssueFilters, "status_ids" | "assignee_ids" | "priorities" | "types" | "reporter_ids">
+}
+
+// Text fields match by substring, every other type by exact value
+export interface CustomFieldFilter {
+  field_id: string
+  operator: "equals" | "contains"
+  value: string
 }
 
 export interface IssueSortOptions {
-  field: "title" | "priority" | "created_at" | "updated_at" | "order"
+  field: "title" | "priority" | "created_at" | "updated_at" | "order" | "custom_field"
   direction: "asc" | "desc"
+  // Required when field is "custom_field"
+  custom_field_id?: string
 }
 
 export interface BoardView {
   type: "kanban" | "list"
-  grouped_by: "status" | "assignee" | "priority"
+  grouped_by: "status" | "assignee" | "priority" | "epic"
   filters: IssueFilters
   sort: IssueSortOptions
+  // Issue query text; its compiled filters apply on top of `filters`
+  query?: string
 }
 
 // Drag and drop types
@@ -182,13 +384,44 @@ export interface RealtimePayload<T> {
 export type IssueRealtimePayload = RealtimePayload<Issue>
 export type CommentRealtimePayload = RealtimePayload<Comment>
 export type StatusRealtimePayload = RealtimePayload<Status>
+export type SubtaskRealtimePayload = RealtimePayload<Subtask>
 
 // Utility types
 export type Priority = Issue["priority"]
+export type IssueType = Issue["type"]
+export type IssueEventField = IssueEvent["field"]
+export type IssueLinkType = IssueLink["link_type"]
+export type SprintState = Sprint["state"]
+export type CustomFieldType = CustomField["field_type"]
+// Stored JSON value: numbers for number fields, strings otherwise
+export type CustomFieldValue = string | number | null
+// Link direction as seen from one issue; inward kinds are stored reversed
+export type IssueLinkKind =
+  | "blocks"
+  | "is_blocked_by"
+  | "duplicates"
+  | "is_duplicated_by"
+  | "relates_to"
 export type TeamRole = TeamMember["role"]
+export type NotificationType = Tables<"notifications">["type"]
 
 export const PRIORITIES: Priority[] = ["low", "medium", "high", "urgent"]
+export const ISSUE_TYPES: IssueType[] = ["task", "story", "bug", "epic"]
 export const TEAM_ROLES: TeamRole[] = ["owner", "admin", "member"]
+export const CUSTOM_FIELD_TYPES: CustomFieldType[] = [
+  "text",
+  "number",
+  "select",
+  "user",
+  "date",
+]
+export const ISSUE_LINK_KINDS: IssueLinkKind[] = [
+  "blocks",
+  "is_blocked_by",
+  "duplicates",
+  "is_duplicated_by",
+  "relates_to",
+]
 
 export const PRIORITY_LABELS: Record<Priority, string> = {
   low: "Low",
@@ -204,6 +437,56 @@ export const PRIORITY_COLORS: Record<Priority, string> = {
   urgent: "text-red-600 bg-red-100",
 }
 
+export const ISSUE_TYPE_LABELS: Record<IssueType, string> = {
+  bug: "Bug",
+  story: "Story",
+  task: "Task",
+  epic: "Epic",
+}
+
+export const ISSUE_TYPE_COLORS: Record<IssueType, string> = {
+  bug: "text-red-600",
+  story: "text-green-600",
+  task: "text-blue-600",
+  epic: "text-purple-600",
+}
+
+export const ISSUE_LINK_KIND_LABELS: Record<IssueLinkKind, string> = {
+  blocks: "Blocks",
+  is_blocked_by: "Is blocked by",
+  duplicates: "Duplicates",
+  is_duplicated_by: "Is duplicated by",
+  relates_to: "Relates to",
+}
+
+export const COMMENT_REACTION_EMOJIS: string[] = ["👍", "👎", "😄", "🎉", "😕", "❤️", "🚀", "👀"]
+
+export const LABEL_COLORS: string[] = [
+  "#ef4444",
+  "#f97316",
+  "#eab308",
+  "#22c55e",
+  "#14b8a6",
+  "#3b82f6",
+  "#8b5cf6",
+  "#ec4899",
+  "#64748b",
+]
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: "Text",
+  number: "Number",
+  select: "Select",
+  user: "User",
+  date: "Date",
+}
+
+export const SPRINT_STATE_LABELS: Record<SprintState, string> = {
+  planned: "Planned",
+  active: "Active",
+  completed: "Completed",
+}
+
 export const TEAM_ROLE_LABELS: Record<TeamRole, string> = {
   owner: "Owner",
   admin: "Admin",
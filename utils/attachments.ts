@@ -0,0 +1,119 @@
+/**
+ * Attachment Helpers
+ *
+ * Files are uploaded to the private `attachments` storage bucket under
+ * `<issue id>/<timestamp>-<filename>` and recorded in the `attachments`
+ * table, whose `file_url` holds that object path. Files are served through
+ * short-lived signed URLs. These helpers validate files before upload and
+ * describe them for display.
+ */
+
+export const ATTACHMENTS_BUCKET = "attachments"
+
+// Signed URLs last an hour; reloading the issue issues new ones
+export const ATTACHMENT_URL_EXPIRES_IN = 60 * 60
+
+// 10MB per file
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024
+
+export const ALLOWED_ATTACHMENT_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+  "text/plain",
+  "text/csv",
+  "application/zip",
+  "application/json",
+  "application/msword",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.ms-excel",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "application/vnd.ms-powerpoint",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+] as const
+
+export type AttachmentKind = "image" | "pdf" | "spreadsheet" | "archive" | "text" | "file"
+
+/**
+ * Checks a file against the size and MIME type limits
+ *
+ * @param file - File picked or dropped by the user
+ * @returns Error message to show, or null when the file may be uploaded
+ *
+ * @example
+ * ```ts
+ * const message = validateAttachment(file)
+ * if (message) toast({ title: "업로드 불가", description: message })
+ * ```
+ */
+export function validateAttachment(file: File): string | null {
+  if (!(ALLOWED_ATTACHMENT_TYPES as readonly string[]).includes(file.type)) {
+    return `${file.name}: 지원하지 않는 파일 형식입니다`
+  }
+
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return `${file.name}: 파일 크기는 ${formatFileSize(MAX_ATTACHMENT_SIZE)} 이하여야 합니다`
+  }
+
+  return null
+}
+
+/**
+ * Builds the storage path for a new attachment
+ *
+ * Characters outside a safe set are replaced so any filename makes a valid
+ * object key; the original name is still stored in `attachments.filename`.
+ */
+export function getAttachmentPath(issueId: string, filename: string): string {
+  const safeName = filename.replace(/[^\w.-]+/g, "_")
+  return `${issueId}/${Date.now()}-${safeName}`
+}
+
+/**
+ * Classifies a MIME type for picking a thumbnail or icon
+ */
+export function getAttachmentKind(mimeType: string): AttachmentKind {
+  if (mimeType.startsWith("image/")) return "image"
+  if (mimeType === "application/pdf") return "pdf"
+  if (mimeType.includes("spreadsheet") || mimeType.includes("excel") || mimeType === "text/csv") {
+    return "spreadsheet"
+  }
+  if (mimeType === "application/zip") return "archive"
+  if (mimeType.startsWith("text/") || mimeType.includes("word")) return "text"
+  return "file"
+}
+
+/**
+ * Formats a byte count for display, e.g. `1.2 MB`
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+/**
+ * Flattens the `attachment_count:attachments(count)` embed into a number
+ *
+ * PostgREST returns aggregate embeds as `[{ count }]`; issue queries select
+ * it that way so `attachment_count` stays in step with the table.
+ *
+ * @example
+ * ```ts
+ * setIssues(data.map(withAttachmentCount))
+ * ```
+ */
+export function withAttachmentCount<T extends { attachment_count?: unknown }>(
+  issue: T
+): Omit<T, "attachment_count"> & { attachment_count: number } {
+  const embed = issue.attachment_count
+  const count = Array.isArray(embed)
+    ? ((embed[0] as { count?: number } | undefined)?.count ?? 0)
+    : typeof embed === "number"
+      ? embed
+      : 0
+
+  return { ...issue, attachment_count: count }
+}
@@ -0,0 +1,105 @@
+/**
+ * Board View Helpers
+ *
+ * Defaults, validation and URL encoding for `BoardView`, the layout,
+ * grouping, filters and sort of the project board. Saved views store it as
+ * JSON and shared links carry it in the `state` search parameter.
+ */
+
+import type { BoardView, IssueSortOptions } from "@/types/models"
+
+export const DEFAULT_BOARD_VIEW: BoardView = {
+  type: "kanban",
+  grouped_by: "status",
+  filters: {},
+  sort: { field: "order", direction: "asc" },
+}
+
+const VIEW_TYPES: BoardView["type"][] = ["kanban", "list"]
+const GROUPINGS: BoardView["grouped_by"][] = ["status", "assignee", "priority", "epic"]
+const SORT_FIELDS: IssueSortOptions["field"][] = [
+  "title",
+  "priority",
+  "created_at",
+  "updated_at",
+  "order",
+  "custom_field",
+]
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Reads a board view from stored JSON or a decoded URL
+ *
+ * Unknown or malformed parts fall back to `DEFAULT_BOARD_VIEW`, so views
+ * saved before a field existed still load.
+ *
+ * @param value - Parsed JSON of any shape
+ */
+export function normalizeBoardView(value: unknown): BoardView {
+  if (!isRecord(value)) return DEFAULT_BOARD_VIEW
+
+  const sort = isRecord(value.sort) ? value.sort : {}
+  const sortField = SORT_FIELDS.find((field) => field === sort.field)
+
+  return {
+    type: VIEW_TYPES.find((type) => type === value.type) ?? DEFAULT_BOARD_VIEW.type,
+    grouped_by:
+      GROUPINGS.find((grouping) => grouping === value.grouped_by) ?? DEFAULT_BOARD_VIEW.grouped_by,
+    filters: isRecord(value.filters) ? (value.filters as BoardView["filters"]) : {},
+    sort: sortField
+      ? {
+          field: sortField,
+          direction: sort.direction === "desc" ? "desc" : "asc",
+          ...(sortField === "custom_field" && typeof sort.custom_field_id === "string"
+            ? { custom_field_id: sort.custom_field_id }
+            : {}),
+        }
+      : DEFAULT_BOARD_VIEW.sort,
+    ...(typeof value.query === "string" && value.query ? { query: value.query } : {}),
+  }
+}
+
+/**
+ * Whether two views show the same thing, e.g. to mark a saved view as modified
+ */
+export function isSameBoardView(a: BoardView, b: BoardView) {
+  return JSON.stringify(normalizeBoardView(a)) === JSON.stringify(normalizeBoardView(b))
+}
+
+/**
+ * Encodes a view for the `state` search parameter
+ *
+ * @returns URL-safe base64 of the view's JSON
+ *
+ * @example
+ * ```ts
+ * router.replace(`/projects/${projectId}/board?state=${encodeBoardView(view)}`)
+ * ```
+ */
+export function encodeBoardView(view: BoardView): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(view))
+  let binary = ""
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte)
+  })
+
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+/**
+ * Decodes the `state` search parameter
+ *
+ * @returns The view, or null if the parameter is not a valid encoding
+ */
+export function decodeBoardView(param: string): BoardView | null {
+  try {
+    const binary = atob(param.replace(/-/g, "+").replace(/_/g, "/"))
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0))
+    return normalizeBoardView(JSON.parse(new TextDecoder().decode(bytes)))
+  } catch {
+    return null
+  }
+}
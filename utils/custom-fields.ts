@@ -0,0 +1,108 @@
+/**
+ * Custom Field Helpers
+ *
+ * Projects define their own issue fields in `custom_fields`; each issue
+ * stores one JSON value per field in `issue_custom_values`. Form inputs
+ * work with strings, so these helpers convert between the input string
+ * and the stored value and build the matching zod validation.
+ */
+
+import { z } from "zod"
+import type { CustomField, CustomFieldValue } from "@/types/models"
+import type { Json } from "@/types/database.types"
+
+/**
+ * Converts a stored value to the string used by form inputs
+ *
+ * @param value - Stored JSON value, if any
+ */
+export function toInputValue(value: Json | undefined): string {
+  if (value === null || value === undefined) return ""
+  return String(value)
+}
+
+/**
+ * Converts an input string to the value stored for a field
+ *
+ * Empty input clears the value. Number fields store numbers; every other
+ * type stores the string as entered (dates as `YYYY-MM-DD`, users by ID).
+ *
+ * @param field - Field definition
+ * @param input - Raw input string
+ *
+ * @example
+ * ```ts
+ * parseCustomFieldValue(estimateField, '3.5') // 3.5
+ * parseCustomFieldValue(customerField, '')    // null
+ * ```
+ */
+export function parseCustomFieldValue(field: CustomField, input: string): CustomFieldValue {
+  const trimmed = input.trim()
+  if (trimmed === "") return null
+  if (field.field_type === "number") return Number(trimmed)
+  return trimmed
+}
+
+/**
+ * Builds a zod schema for one field's input string
+ *
+ * @param field - Field definition
+ */
+function fieldSchema(field: CustomField) {
+  let schema = z.string()
+
+  if (field.field_type === "text") {
+    schema = schema.max(500, `${field.name}은(는) 500자 이하여야 합니다`)
+  }
+
+  // Fields the form never touched are undefined, which counts as empty
+  return schema
+    .optional()
+    .refine((value) => !field.required || !!value?.trim(), `${field.name}은(는) 필수입니다`)
+    .refine(
+      (value) =>
+        field.field_type !== "number" || !value?.trim() || Number.isFinite(Number(value)),
+      `${field.name}에는 숫자를 입력하세요`
+    )
+    .refine(
+      (value) => field.field_type !== "select" || !value || field.options.includes(value),
+      `${field.name}의 선택지에서 고르세요`
+    )
+}
+
+/**
+ * Builds a zod schema validating custom field inputs keyed by field ID
+ *
+ * @param fields - The project's custom field definitions
+ *
+ * @example
+ * ```ts
+ * const schema = z.object({
+ *   title: z.string(),
+ *   custom_values: buildCustomValuesSchema(fields),
+ * })
+ * ```
+ */
+export function buildCustomValuesSchema(fields: CustomField[]) {
+  return z.object(
+    Object.fromEntries(fields.map((field) => [field.id, fieldSchema(field)]))
+  )
+}
+
+/**
+ * Compares two stored values for sorting; missing values sort last
+ *
+ * @param a - First value
+ * @param b - Second value
+ */
+export function compareCustomFieldValues(
+  a: Json | undefined,
+  b: Json | undefined
+): number {
+  const aMissing = a === null || a === undefined
+  const bMissing = b === null || b === undefined
+  if (aMissing || bMissing) return Number(aMissing) - Number(bMissing)
+
+  if (typeof a === "number" && typeof b === "number") return a - b
+  return String(a).localeCompare(String(b))
+}
@@ -0,0 +1,65 @@
+/**
+ * Due Date Helpers
+ *
+ * `issues.start_date` and `issues.due_date` are calendar dates stored as
+ * `YYYY-MM-DD`. They are compared as local dates, so an issue due today
+ * is never overdue before the day ends.
+ */
+
+import { differenceInCalendarDays, format, parseISO } from "date-fns"
+import { isDoneStatus } from "./issue-links"
+
+// Issues due within this many days count as due soon
+export const DUE_SOON_DAYS = 3
+
+export type DueState = "overdue" | "due_soon"
+
+export const DUE_STATE_STYLES: Record<DueState, string> = {
+  overdue: "bg-red-100 text-red-700",
+  due_soon: "bg-amber-100 text-amber-700",
+}
+
+/**
+ * Days from today until a due date; negative when it has passed
+ *
+ * @param dueDate - Due date as `YYYY-MM-DD`
+ */
+export function daysUntil(dueDate: string): number {
+  return differenceInCalendarDays(parseISO(dueDate), new Date())
+}
+
+/**
+ * Classifies an issue's due date for highlighting
+ *
+ * Finished issues are never overdue or due soon.
+ *
+ * @param dueDate - Due date as `YYYY-MM-DD`, if any
+ * @param statusName - Name of the issue's status
+ * @returns Due state, or null when nothing needs highlighting
+ *
+ * @example
+ * ```ts
+ * const state = getDueState(issue.due_date, issue.status.name)
+ * // 'overdue' | 'due_soon' | null
+ * ```
+ */
+export function getDueState(
+  dueDate: string | null | undefined,
+  statusName?: string
+): DueState | null {
+  if (!dueDate || (statusName && isDoneStatus(statusName))) return null
+
+  const days = daysUntil(dueDate)
+  if (days < 0) return "overdue"
+  if (days <= DUE_SOON_DAYS) return "due_soon"
+  return null
+}
+
+/**
+ * Formats a due date for compact display, e.g. `Mar 14`
+ *
+ * @param dueDate - Due date as `YYYY-MM-DD`
+ */
+export function formatDueDate(dueDate: string): string {
+  return format(parseISO(dueDate), "MMM d")
+}
@@ -0,0 +1,97 @@
+/**
+ * Issue Hierarchy Helpers
+ *
+ * Issues may point at a parent through `issues.parent_id`, typically an
+ * epic. These helpers roll child statuses up into epic progress and group
+ * board issues under their epics.
+ */
+
+import { isDoneStatus } from "./issue-links"
+import type { Issue, Status } from "@/types/models"
+
+type RollupChild = {
+  status: Pick<Status, "name" | "color">
+}
+
+export interface StatusRollup {
+  name: string
+  color: string
+  count: number
+}
+
+export interface IssueRollup {
+  total: number
+  done: number
+  percent: number
+  byStatus: StatusRollup[]
+}
+
+/**
+ * Aggregates child issue statuses into progress for their parent
+ *
+ * Children in a done-like status count as finished.
+ *
+ * @param children - Child issues with their status
+ * @returns Totals, completion percentage and per-status counts
+ *
+ * @example
+ * ```ts
+ * const { done, total, percent } = getRollup(children)
+ * ```
+ */
+export function getRollup(children: RollupChild[]): IssueRollup {
+  const byStatus = new Map<string, StatusRollup>()
+  let done = 0
+
+  for (const child of children) {
+    if (isDoneStatus(child.status.name)) done++
+
+    const entry = byStatus.get(child.status.name)
+    if (entry) {
+      entry.count++
+    } else {
+      byStatus.set(child.status.name, {
+        name: child.status.name,
+        color: child.status.color,
+        count: 1,
+      })
+    }
+  }
+
+  return {
+    total: children.length,
+    done,
+    percent: children.length > 0 ? Math.round((done / children.length) * 100) : 0,
+    byStatus: Array.from(byStatus.values()),
+  }
+}
+
+/**
+ * Groups issues under the epics they belong to
+ *
+ * Epics themselves become group headers and are left out of the groups.
+ * Issues without a parent epic in `issues` end up in `ungrouped`.
+ *
+ * @param issues - Issues of one project
+ * @returns One group per epic, in epic number order, plus ungrouped issues
+ */
+export function groupIssuesByEpic<T extends Issue>(
+  issues: T[]
+): { groups: { epic: T; issues: T[] }[]; ungrouped: T[] } {
+  const epics = issues
+    .filter((issue) => issue.type === "epic")
+    .sort((a, b) => a.number - b.number)
+  const epicIds = new Set(epics.map((epic) => epic.id))
+
+  const groups = epics.map((epic) => ({
+    epic,
+    issues: issues.filter((issue) => issue.parent_id === epic.id),
+  }))
+
+  const ungrouped = issues.filter(
+    (issue) =>
+      issue.type !== "epic" && (!issue.parent_id || !epicIds.has(issue.parent_id))
+  )
+
+  return { groups, ungrouped }
+}
@@ -0,0 +1,53 @@
+/**
+ * Issue Key Helpers
+ *
+ * Issues are addressed by a human-readable key such as `WEB-123`: the
+ * project key followed by the issue's per-project `number`. The number is
+ * assigned by the database on insert from `projects.issue_counter`, so
+ * the client only formats and parses keys.
+ */
+
+const ISSUE_KEY_PATTERN = /^([A-Z][A-Z0-9]*)-(\d+)$/
+
+/**
+ * Formats an issue key from a project key and issue number
+ *
+ * @param projectKey - Project key, e.g. `WEB`
+ * @param number - Per-project issue number
+ * @returns Issue key
+ *
+ * @example
+ * ```ts
+ * formatIssueKey('WEB', 123)
+ * // 'WEB-123'
+ * ```
+ */
+export function formatIssueKey(projectKey: string, number: number): string {
+  return `${projectKey}-${number}`
+}
+
+/**
+ * Parses an issue key into its project key and number
+ *
+ * Matching is case-insensitive; the returned project key is uppercased.
+ *
+ * @param key - Issue key, e.g. `WEB-123`
+ * @returns Project key and number, or null if the key is malformed
+ *
+ * @example
+ * ```ts
+ * parseIssueKey('web-123')
+ * // { projectKey: 'WEB', number: 123 }
+ * ```
+ */
+export function parseIssueKey(
+  key: string
+): { projectKey: string; number: number } | null {
+  const match = ISSUE_KEY_PATTERN.exec(key.trim().toUpperCase())
+  if (!match) return null
+
+  const number = Number(match[2])
+  if (!Number.isSafeInteger(number) || number < 1) return null
+
+  return { projectKey: match[1], number }
+}
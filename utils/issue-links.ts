@@ -0,0 +1,95 @@
+/**
+ * Issue Link Helpers
+ *
+ * Links are stored once, directed from `source_issue_id` to
+ * `target_issue_id` (e.g. source blocks target). These helpers translate
+ * between stored links and the kind shown on either side of the link.
+ */
+
+import type {
+  IncomingIssueLink,
+  IssueLinkKind,
+  IssueLinkType,
+  IssueLinkWithIssues,
+  LinkedIssue,
+} from "@/types/models"
+
+const INWARD_KINDS: Record<IssueLinkType, IssueLinkKind> = {
+  blocks: "is_blocked_by",
+  duplicates: "is_duplicated_by",
+  relates_to: "relates_to",
+}
+
+// Status names treated as finished work
+const DONE_STATUS_NAMES = ["done", "closed", "resolved", "완료"]
+
+/**
+ * Resolves how a link kind chosen on an issue is stored
+ *
+ * @param kind - Link kind as seen from the current issue
+ * @returns Stored link type and whether the current issue is the target
+ *
+ * @example
+ * ```ts
+ * toStoredLink('is_blocked_by')
+ * // { linkType: 'blocks', inward: true }
+ * ```
+ */
+export function toStoredLink(kind: IssueLinkKind): {
+  linkType: IssueLinkType
+  inward: boolean
+} {
+  switch (kind) {
+    case "is_blocked_by":
+      return { linkType: "blocks", inward: true }
+    case "is_duplicated_by":
+      return { linkType: "duplicates", inward: true }
+    default:
+      return { linkType: kind, inward: false }
+  }
+}
+
+/**
+ * Describes a stored link from the point of view of one of its issues
+ *
+ * @param link - Link with both issues embedded
+ * @param issueId - Issue the link is viewed from
+ * @returns Link kind and the issue on the other side
+ */
+export function describeLink(
+  link: IssueLinkWithIssues,
+  issueId: string
+): { kind: IssueLinkKind; issue: LinkedIssue } {
+  if (link.source_issue_id === issueId) {
+    return { kind: link.link_type, issue: link.target }
+  }
+
+  return { kind: INWARD_KINDS[link.link_type], issue: link.source }
+}
+
+/**
+ * Checks whether a status name marks finished work
+ *
+ * @param statusName - Status name, e.g. `Done`
+ */
+export function isDoneStatus(statusName: string): boolean {
+  return DONE_STATUS_NAMES.includes(statusName.trim().toLowerCase())
+}
+
+/**
+ * Checks whether an issue is blocked by any unfinished issue
+ *
+ * @param incomingLinks - Links pointing at the issue
+ *
+ * @example
+ * ```ts
+ * if (isIssueBlocked(issue.incoming_links)) {
+ *   // show blocked badge
+ * }
+ * ```
+ */
+export function isIssueBlocked(incomingLinks?: IncomingIssueLink[]): boolean {
+  return (incomingLinks || []).some(
+    (link) => link.link_type === "blocks" && !isDoneStatus(link.source.status.name)
+  )
+}
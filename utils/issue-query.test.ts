@@ -0,0 +1,267 @@
+import { describe, expect, it } from "vitest"
+import { format } from "date-fns"
+import {
+  compileIssueQuery,
+  getIssueQuerySuggestions,
+  parseIssueQuery,
+  runIssueQuery,
+  type IssueQuery,
+  type IssueQueryContext,
+} from "./issue-query"
+
+const context: IssueQueryContext = {
+  currentUserId: "user-me",
+  statuses: [
+    { id: "status-todo", name: "To Do" },
+    { id: "status-doing", name: "In Progress" },
+    { id: "status-done", name: "Done" },
+  ],
+  members: [
+    { id: "user-me", display_name: "Mina" },
+    { id: "user-jun", display_name: "Jun" },
+  ],
+  labels: [
+    { id: "label-frontend", name: "frontend" },
+    { id: "label-backend", name: "backend" },
+  ],
+  customFields: [
+    { id: "field-customer", name: "Customer", field_type: "text", options: [] },
+    { id: "field-severity", name: "Severity", field_type: "select", options: ["S1", "S2"] },
+  ],
+}
+
+function parse(source: string): IssueQuery {
+  const { query, error } = parseIssueQuery(source)
+  if (error) throw new Error(`Unexpected parse error: ${error.message}`)
+  return query
+}
+
+// Returns the text an error range points at
+function errorText(source: string) {
+  const { error } = runIssueQuery(source, context)
+  expect(error).not.toBeNull()
+  return source.slice(error!.start, error!.end)
+}
+
+describe("parseIssueQuery", () => {
+  it("parses an empty query to no clauses", () => {
+    expect(parseIssueQuery("   ")).toEqual({ query: { clauses: [], orderBy: null }, error: null })
+  })
+
+  it("parses clauses joined by AND with their ranges", () => {
+    const query = parse("assignee = me AND priority != low")
+
+    expect(query.clauses).toHaveLength(2)
+    expect(query.clauses[0]).toMatchObject({
+      field: { value: "assignee", start: 0, end: 8 },
+      operator: "=",
+      values: [{ value: "me", start: 11, end: 13 }],
+      start: 0,
+      end: 13,
+    })
+    expect(query.clauses[1]).toMatchObject({ operator: "!=", start: 18, end: 33 })
+  })
+
+  it("parses IN and NOT IN lists", () => {
+    const query = parse("priority in (high, urgent) and status NOT IN (Done)")
+
+    expect(query.clauses[0].operator).toBe("in")
+    expect(query.clauses[0].values.map((value) => value.value)).toEqual(["high", "urgent"])
+    expect(query.clauses[1].operator).toBe("not in")
+    expect(query.clauses[1].values.map((value) => value.value)).toEqual(["Done"])
+  })
+
+  it("reads quoted values with escapes", () => {
+    const query = parse('status = "In Progress" AND text ~ "say \\"hi\\""')
+
+    expect(query.clauses[0].values[0]).toEqual({ value: "In Progress", start: 9, end: 22 })
+    expect(query.clauses[1].values[0].value).toBe('say "hi"')
+  })
+
+  it("parses ORDER BY with and without a direction", () => {
+    expect(parse("ORDER BY updated DESC").orderBy).toMatchObject({
+      field: { value: "updated" },
+      direction: "desc",
+    })
+    expect(parse("type = bug order by title").orderBy).toMatchObject({
+      field: { value: "title" },
+      direction: "asc",
+    })
+  })
+
+  it.each([
+    ["assignee = me OR priority = high", "OR"],
+    ["assignee = me priority = high", "priority"],
+    ["assignee me", "me"],
+    ["priority in high", "high"],
+    ["priority in (high urgent)", "urgent"],
+    ["status = ", ""],
+    ["ORDER title", "title"],
+    ["ORDER BY title DESC status = Done", "status"],
+  ])("points the error in %j at %j", (source, text) => {
+    const { query, error } = parseIssueQuery(source)
+
+    expect(query).toBeNull()
+    expect(source.slice(error!.start, error!.end)).toBe(text)
+  })
+
+  it("reports a missing value at the end of the query", () => {
+    const { error } = parseIssueQuery("status = ")
+    expect(error).toMatchObject({ start: 9, end: 9 })
+  })
+
+  it("reports an unterminated string from its opening quote", () => {
+    const { error } = parseIssueQuery('status = "In Prog')
+    expect(error).toMatchObject({ start: 9, end: 17 })
+  })
+
+  it("rejects a lone '!'", () => {
+    const { error } = parseIssueQuery("status ! Done")
+    expect(error).toMatchObject({ start: 7, end: 8 })
+  })
+})
+
+describe("compileIssueQuery", () => {
+  const compile = (source: string) => compileIssueQuery(parse(source), context)
+
+  it("resolves names case-insensitively and `me` to the current user", () => {
+    expect(compile("assignee = me AND status = done AND label in (Frontend)").data).toEqual({
+      filters: {
+        assignee_ids: ["user-me"],
+        status_ids: ["status-done"],
+        label_ids: ["label-frontend"],
+      },
+      sort: null,
+    })
+  })
+
+  it("maps unassigned to an empty assignee ID", () => {
+    expect(compile("assignee in (unassigned, Jun)").data?.filters.assignee_ids).toEqual([
+      "",
+      "user-jun",
+    ])
+  })
+
+  it("compiles != and NOT IN to exclusions", () => {
+    expect(compile("status != Done").data?.filters).toEqual({
+      exclude: { status_ids: ["status-done"] },
+    })
+    expect(compile("priority not in (low, medium) AND assignee != Jun").data?.filters).toEqual({
+      exclude: { priorities: ["low", "medium"], assignee_ids: ["user-jun"] },
+    })
+  })
+
+  it("combines a field repeated across clauses", () => {
+    expect(
+      compile("priority in (high, urgent, low) AND priority != low").data?.filters
+    ).toEqual({
+      priorities: ["high", "urgent", "low"],
+      exclude: { priorities: ["low"] },
+    })
+    expect(
+      compile('status in ("To Do", "In Progress") AND status = "In Progress"').data?.filters
+        .status_ids
+    ).toEqual(["status-doing"])
+  })
+
+  it("moves strict due date bounds one day inward", () => {
+    expect(compile("due > 2025-01-31 AND due <= 2025-03-01").data?.filters).toEqual({
+      due_after: "2025-02-01",
+      due_before: "2025-03-01",
+    })
+    expect(compile("due = today").data?.filters).toEqual({
+      due_after: format(new Date(), "yyyy-MM-dd"),
+      due_before: format(new Date(), "yyyy-MM-dd"),
+    })
+  })
+
+  it("compiles text search and custom fields", () => {
+    expect(compile('text ~ login AND Customer ~ acme AND severity = s1').data?.filters).toEqual({
+      search: "login",
+      custom_fields: [
+        { field_id: "field-customer", operator: "contains", value: "acme" },
+        { field_id: "field-severity", operator: "equals", value: "S1" },
+      ],
+    })
+  })
+
+  it("compiles ORDER BY to a sort", () => {
+    expect(compile("ORDER BY updated DESC").data?.sort).toEqual({
+      field: "updated_at",
+      direction: "desc",
+    })
+    expect(compile("ORDER BY rank").data?.sort).toEqual({ field: "order", direction: "asc" })
+    expect(compile("ORDER BY Severity desc").data?.sort).toEqual({
+      field: "custom_field",
+      custom_field_id: "field-severity",
+      direction: "desc",
+    })
+  })
+
+  it.each([
+    ["milestone = 1", "milestone"],
+    ["status = Blocked", "Blocked"],
+    ["priority in (high, soon)", "soon"],
+    ["status ~ Done", "status ~ Done"],
+    ["label != frontend", "label != frontend"],
+    ["label = frontend AND label = backend", "label = backend"],
+    ["status = Done AND status = Done AND status != Done", "status != Done"],
+    ["due = tomorrow", "tomorrow"],
+    ["due > 2025-03-01 AND due < 2025-03-02", "due < 2025-03-02"],
+    ["severity = S3", "S3"],
+    ["ORDER BY status", "status"],
+  ])("points the error in %j at %j", (source, text) => {
+    expect(errorText(source)).toBe(text)
+  })
+})
+
+describe("getIssueQuerySuggestions", () => {
+  const suggest = (source: string, caret = source.length) => {
+    const { from, to, items } = getIssueQuerySuggestions(source, caret, context)
+    return { from, to, labels: items.map((item) => item.label) }
+  }
+
+  it("suggests fields, custom fields and ORDER BY in an empty query", () => {
+    const { labels } = suggest("")
+    expect(labels).toEqual(expect.arrayContaining(["status", "assignee", "Customer", "ORDER BY"]))
+  })
+
+  it("completes the word being typed and replaces its range", () => {
+    expect(suggest("assignee = me AND pri")).toEqual({ from: 18, to: 21, labels: ["priority"] })
+  })
+
+  it("offers only the operators a field supports", () => {
+    expect(suggest("label ").labels).toEqual(["=", "IN"])
+    expect(suggest("status not ").labels).toEqual(["NOT IN"])
+  })
+
+  it("suggests values for the field, using `me` for the current user", () => {
+    expect(suggest("assignee = ").labels).toEqual(["me", "Jun", "unassigned"])
+    expect(suggest("priority in (high, u").labels).toEqual(["urgent"])
+    expect(suggest("severity = ").labels).toEqual(["S1", "S2"])
+  })
+
+  it("inserts quotes around values that need them", () => {
+    const { items } = getIssueQuerySuggestions("status = In", 11, context)
+    expect(items).toEqual([{ label: "In Progress", insertText: '"In Progress" ' }])
+  })
+
+  it("suggests connectors, list separators and sort keywords", () => {
+    expect(suggest("type = bug ").labels).toEqual(["AND", "ORDER BY"])
+    expect(suggest("type in (bug ").labels).toEqual([",", ")"])
+    expect(suggest("ORDER ").labels).toEqual(["BY"])
+    expect(suggest("ORDER BY ").labels).toEqual(
+      expect.arrayContaining(["updated", "rank", "Severity"])
+    )
+    expect(suggest("ORDER BY updated ").labels).toEqual(["ASC", "DESC"])
+  })
+
+  it("suggests nothing once the word is complete or the query is invalid", () => {
+    expect(suggest("status").labels).toEqual([])
+    expect(suggest("status = Done ) ").labels).toEqual([])
+  })
+
+  it("only looks at the text before the caret", () => {
+    expect(suggest("pri = high", 3)).toEqual({ from: 0, to: 3, labels: ["priority"] })
+  })
+})
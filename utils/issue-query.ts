@@ -0,0 +1,800 @@
+/**
+ * Issue Query Language
+ *
+ * Parses small structured queries such as
+ * `assignee = me AND priority in (high, urgent) AND status != Done ORDER BY updated DESC`
+ * and compiles them to `IssueFilters` and `IssueSortOptions`.
+ *
+ * Clauses are combined with AND only; several values for one field go in
+ * `IN (...)`. Field names, keywords and values are case-insensitive, and
+ * values containing spaces or symbols are written in double quotes.
+ * Errors carry the character range they refer to so the query bar can
+ * point at the offending text.
+ */
+
+import { addDays, format, isValid, parseISO } from "date-fns"
+import {
+  ISSUE_TYPES,
+  PRIORITIES,
+  type CustomField,
+  type IssueFilters,
+  type IssueSortOptions,
+  type Label,
+  type Status,
+  type User,
+} from "@/types/models"
+
+export type IssueQueryOperator = "=" | "!=" | "~" | ">" | ">=" | "<" | "<=" | "in" | "not in"
+
+export interface IssueQueryValue {
+  value: string
+  start: number
+  end: number
+}
+
+export interface IssueQueryClause {
+  field: IssueQueryValue
+  operator: IssueQueryOperator
+  values: IssueQueryValue[]
+  start: number
+  end: number
+}
+
+export interface IssueQueryOrder {
+  field: IssueQueryValue
+  direction: "asc" | "desc"
+}
+
+export interface IssueQuery {
+  clauses: IssueQueryClause[]
+  orderBy: IssueQueryOrder | null
+}
+
+// `start` and `end` are character offsets into the query source
+export interface IssueQueryError {
+  message: string
+  start: number
+  end: number
+}
+
+// Project data the compiler resolves names against
+export interface IssueQueryContext {
+  currentUserId?: string | null
+  statuses: Pick<Status, "id" | "name">[]
+  members: Pick<User, "id" | "display_name">[]
+  labels: Pick<Label, "id" | "name">[]
+  customFields?: Pick<CustomField, "id" | "name" | "field_type" | "options">[]
+}
+
+export interface CompiledIssueQuery {
+  filters: IssueFilters
+  sort: IssueSortOptions | null
+}
+
+export interface IssueQuerySuggestion {
+  label: string
+  insertText: string
+  detail?: string
+}
+
+// ============================================================================
+// TOKENIZER
+// ============================================================================
+
+type TokenType = "word" | "string" | "operator" | "lparen" | "rparen" | "comma"
+
+interface Token {
+  type: TokenType
+  value: string
+  start: number
+  end: number
+  // Set on strings missing their closing quote
+  unterminated?: boolean
+}
+
+const OPERATORS = ["!=", ">=", "<=", "=", "~", ">", "<"]
+const WORD_BREAK = /[\s"(),=!<>~]/
+
+function tokenize(source: string): { tokens: Token[]; error: IssueQueryError | null } {
+  const tokens: Token[] = []
+  let index = 0
+
+  while (index < source.length) {
+    const char = source[index]
+
+    if (/\s/.test(char)) {
+      index++
+      continue
+    }
+
+    if (char === "(" || char === ")" || char === ",") {
+      tokens.push({
+        type: char === "(" ? "lparen" : char === ")" ? "rparen" : "comma",
+        value: char,
+        start: index,
+        end: index + 1,
+      })
+      index++
+      continue
+    }
+
+    if (char === '"') {
+      const start = index
+      let value = ""
+      index++
+      while (index < source.length && source[index] !== '"') {
+        // Backslash escapes a quote or another backslash
+        if (source[index] === "\\" && index + 1 < source.length) index++
+        value += source[index]
+        index++
+      }
+
+      if (index >= source.length) {
+        tokens.push({ type: "string", value, start, end: index, unterminated: true })
+        return {
+          tokens,
+          error: { message: "닫는 따옴표(\")가 없습니다", start, end: index },
+        }
+      }
+
+      index++
+      tokens.push({ type: "string", value, start, end: index })
+      continue
+    }
+
+    const operator = OPERATORS.find((op) => source.startsWith(op, index))
+    if (operator) {
+      tokens.push({ type: "operator", value: operator, start: index, end: index + operator.length })
+      index += operator.length
+      continue
+    }
+
+    if (char === "!") {
+      return {
+        tokens,
+        error: { message: "'!' 뒤에는 '='가 와야 합니다", start: index, end: index + 1 },
+      }
+    }
+
+    const start = index
+    while (index < source.length && !WORD_BREAK.test(source[index])) index++
+    tokens.push({ type: "word", value: source.slice(start, index), start, end: index })
+  }
+
+  return { tokens, error: null }
+}
+
+function isKeyword(token: Token | undefined, keyword: string) {
+  return token?.type === "word" && token.value.toLowerCase() === keyword
+}
+
+function toValue(token: Token): IssueQueryValue {
+  return { value: token.value, start: token.start, end: token.end }
+}
+
+// ============================================================================
+// PARSER
+// ============================================================================
+
+/**
+ * Parses a query into clauses and an optional ORDER BY
+ *
+ * Only checks syntax; field names and values are resolved by
+ * `compileIssueQuery`. An empty query parses to no clauses.
+ *
+ * @param source - Query text
+ * @returns The parsed query, or an error with its character range
+ *
+ * @example
+ * ```ts
+ * const { query, error } = parseIssueQuery('priority in (high, urgent) ORDER BY updated DESC')
+ * // query.clauses[0].values.map((v) => v.value) → ['high', 'urgent']
+ * ```
+ */
+export function parseIssueQuery(
+  source: string
+): { query: IssueQuery; error: null } | { query: null; error: IssueQueryError } {
+  const { tokens, error: tokenError } = tokenize(source)
+  if (tokenError) return { query: null, error: tokenError }
+
+  let position = 0
+  const peek = () => tokens[position]
+  const fail = (message: string, token?: Token) => ({
+    query: null,
+    error: {
+      message,
+      start: token?.start ?? source.length,
+      end: token?.end ?? source.length,
+    },
+  })
+
+  const clauses: IssueQueryClause[] = []
+  let orderBy: IssueQueryOrder | null = null
+
+  const isValueToken = (token: Token | undefined) =>
+    token?.type === "word" || token?.type === "string"
+
+  while (position < tokens.length) {
+    if (isKeyword(peek(), "order")) break
+
+    if (clauses.length > 0) {
+      const connector = peek()
+      if (isKeyword(connector, "or")) {
+        return fail("OR는 지원하지 않습니다. 여러 값은 IN (...)으로 묶어주세요", connector)
+      }
+      if (!isKeyword(connector, "and")) {
+        return fail("AND 또는 ORDER BY가 와야 합니다", connector)
+      }
+      position++
+    }
+
+    const fieldToken = peek()
+    if (!isValueToken(fieldToken)) {
+      return fail("필드 이름이 와야 합니다", fieldToken)
+    }
+    position++
+
+    let operator: IssueQueryOperator
+    const operatorToken = peek()
+    if (operatorToken?.type === "operator") {
+      operator = operatorToken.value as IssueQueryOperator
+      position++
+    } else if (isKeyword(operatorToken, "in")) {
+      operator = "in"
+      position++
+    } else if (isKeyword(operatorToken, "not") && isKeyword(tokens[position + 1], "in")) {
+      operator = "not in"
+      position += 2
+    } else {
+      return fail(`'${fieldToken.value}' 뒤에는 연산자가 와야 합니다`, operatorToken)
+    }
+
+    const values: IssueQueryValue[] = []
+    if (operator === "in" || operator === "not in") {
+      const open = peek()
+      if (open?.type !== "lparen") return fail("IN 뒤에는 '('가 와야 합니다", open)
+      position++
+
+      while (true) {
+        const valueToken = peek()
+        if (!isValueToken(valueToken)) return fail("값이 와야 합니다", valueToken)
+        values.push(toValue(valueToken))
+        position++
+
+        const separator = peek()
+        if (separator?.type === "comma") {
+          position++
+          continue
+        }
+        if (separator?.type === "rparen") {
+          position++
+          break
+        }
+        return fail("',' 또는 ')'가 와야 합니다", separator)
+      }
+    } else {
+      const valueToken = peek()
+      if (!isValueToken(valueToken)) return fail("값이 와야 합니다", valueToken)
+      values.push(toValue(valueToken))
+      position++
+    }
+
+    clauses.push({
+      field: toValue(fieldToken),
+      operator,
+      values,
+      start: fieldToken.start,
+      end: tokens[position - 1].end,
+    })
+  }
+
+  if (isKeyword(peek(), "order")) {
+    position++
+    if (!isKeyword(peek(), "by")) return fail("ORDER 뒤에는 BY가 와야 합니다", peek())
+    position++
+
+    const fieldToken = peek()
+    if (!isValueToken(fieldToken)) return fail("정렬할 필드가 와야 합니다", fieldToken)
+    position++
+
+    let direction: IssueQueryOrder["direction"] = "asc"
+    if (isKeyword(peek(), "asc") || isKeyword(peek(), "desc")) {
+      direction = peek().value.toLowerCase() as IssueQueryOrder["direction"]
+      position++
+    }
+
+    orderBy = { field: toValue(fieldToken), direction }
+
+    if (position < tokens.length) {
+      return fail("ORDER BY 뒤에는 더 이상 조건을 쓸 수 없습니다", peek())
+    }
+  }
+
+  return { query: { clauses, orderBy }, error: null }
+}
+
+// ============================================================================
+// COMPILER
+// ============================================================================
+
+type ListField = "status" | "assignee" | "reporter" | "priority" | "type" | "label"
+
+const LIST_FIELD_KEYS = {
+  status: "status_ids",
+  assignee: "assignee_ids",
+  reporter: "reporter_ids",
+  priority: "priorities",
+  type: "types",
+  label: "label_ids",
+} as const satisfies Record<ListField, keyof IssueFilters>
+
+type ExcludedKey = keyof NonNullable<IssueFilters["exclude"]>
+
+const FIELD_ALIASES: Record<string, ListField | "due" | "text"> = {
+  status: "status",
+  assignee: "assignee",
+  reporter: "reporter",
+  priority: "priority",
+  type: "type",
+  label: "label",
+  labels: "label",
+  due: "due",
+  text: "text",
+}
+
+const FIELD_OPERATORS: Record<ListField | "due" | "text" | "custom", IssueQueryOperator[]> = {
+  status: ["=", "!=", "in", "not in"],
+  assignee: ["=", "!=", "in", "not in"],
+  reporter: ["=", "!=", "in", "not in"],
+  priority: ["=", "!=", "in", "not in"],
+  type: ["=", "!=", "in", "not in"],
+  // Issues with any of the labels match, so exclusion cannot be expressed
+  label: ["=", "in"],
+  due: ["=", ">", ">=", "<", "<="],
+  text: ["~"],
+  custom: ["=", "~"],
+}
+
+const SORT_FIELDS: Record<string, Exclude<IssueSortOptions["field"], "custom_field">> = {
+  title: "title",
+  priority: "priority",
+  created: "created_at",
+  created_at: "created_at",
+  updated: "updated_at",
+  updated_at: "updated_at",
+  rank: "order",
+}
+
+const UNASSIGNED_VALUES = ["unassigned", "empty"]
+
+interface Candidate {
+  id: string
+  names: string[]
+}
+
+function getCandidates(field: ListField, context: IssueQueryContext): Candidate[] {
+  const memberCandidates = () => [
+    ...context.members.map((member) => ({
+      id: member.id,
+      names: member.id === context.currentUserId ? [member.display_name, "me"] : [member.display_name],
+    })),
+    ...(context.currentUserId && !context.members.some((m) => m.id === context.currentUserId)
+      ? [{ id: context.currentUserId, names: ["me"] }]
+      : []),
+  ]
+
+  switch (field) {
+    case "status":
+      return context.statuses.map((status) => ({ id: status.id, names: [status.name] }))
+    case "assignee":
+      // Unassigned issues are filtered with an empty assignee ID
+      return [...memberCandidates(), { id: "", names: UNASSIGNED_VALUES }]
+    case "reporter":
+      return memberCandidates()
+    case "priority":
+      return PRIORITIES.map((priority) => ({ id: priority, names: [priority] }))
+    case "type":
+      return ISSUE_TYPES.map((type) => ({ id: type, names: [type] }))
+    case "label":
+      return context.labels.map((label) => ({ id: label.id, names: [label.name] }))
+  }
+}
+
+const FIELD_NAMES: Record<ListField, string> = {
+  status: "상태",
+  assignee: "담당자",
+  reporter: "보고자",
+  priority: "우선순위",
+  type: "유형",
+  label: "라벨",
+}
+
+function resolveDate(value: IssueQueryValue): string | null {
+  if (value.value.toLowerCase() === "today") return format(new Date(), "yyyy-MM-dd")
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value.value) || !isValid(parseISO(value.value))) return null
+  return value.value
+}
+
+function shiftDate(date: string, days: number) {
+  return format(addDays(parseISO(date), days), "yyyy-MM-dd")
+}
+
+function findCustomField(name: string, context: IssueQueryContext) {
+  return context.customFields?.find(
+    (field) => field.name.toLowerCase() === name.toLowerCase()
+  )
+}
+
+/**
+ * Resolves a parsed query against project data
+ *
+ * Names are matched case-insensitively: statuses, labels and members by
+ * name, `me` as the current user and `unassigned` as no assignee. `!=` and
+ * `NOT IN` compile to `filters.exclude`, so issues with values not known
+ * here, or none, still match. Repeating a field narrows it further. Custom
+ * fields are addressed by name and support `=` and `~`.
+ *
+ * @param query - Result of `parseIssueQuery`
+ * @param context - Statuses, members, labels and custom fields of the project
+ * @returns Filters and sort, or an error pointing at the clause or value
+ *
+ * @example
+ * ```ts
+ * const { data, error } = compileIssueQuery(query, { currentUserId: user.id, statuses, members, labels })
+ * if (data) setFilters(data.filters)
+ * ```
+ */
+export function compileIssueQuery(
+  query: IssueQuery,
+  context: IssueQueryContext
+): { data: CompiledIssueQuery; error: null } | { data: null; error: IssueQueryError } {
+  const filters: IssueFilters = {}
+  const fail = (message: string, range: { start: number; end: number }) => ({
+    data: null,
+    error: { message, start: range.start, end: range.end },
+  })
+
+  for (const clause of query.clauses) {
+    const fieldName = clause.field.value
+    const field = FIELD_ALIASES[fieldName.toLowerCase()]
+    const customField = field ? undefined : findCustomField(fieldName, context)
+
+    if (!field && !customField) {
+      return fail(`알 수 없는 필드: ${fieldName}`, clause.field)
+    }
+
+    const allowed = FIELD_OPERATORS[field ?? "custom"]
+    if (!allowed.includes(clause.operator)) {
+      return fail(
+        `${fieldName}에는 ${allowed.map((op) => op.toUpperCase()).join(", ")} 연산자만 쓸 수 있습니다`,
+        clause
+      )
+    }
+
+    if (customField) {
+      let value = clause.values[0].value
+      if (customField.field_type === "user") {
+        const member = getCandidates("reporter", context).find((candidate) =>
+          candidate.names.some((name) => name.toLowerCase() === value.toLowerCase())
+        )
+        if (!member) return fail(`알 수 없는 사용자: ${value}`, clause.values[0])
+        value = member.id
+      } else if (customField.field_type === "select") {
+        const option = customField.options.find(
+          (candidate) => candidate.toLowerCase() === value.toLowerCase()
+        )
+        if (!option) return fail(`${customField.name}에 없는 옵션: ${value}`, clause.values[0])
+        value = option
+      } else if (customField.field_type === "date") {
+        const date = resolveDate(clause.values[0])
+        if (!date) return fail("날짜는 YYYY-MM-DD 형식이어야 합니다", clause.values[0])
+        value = date
+      }
+
+      filters.custom_fields = [
+        ...(filters.custom_fields ?? []),
+        {
+          field_id: customField.id,
+          operator: clause.operator === "~" ? "contains" : "equals",
+          value,
+        },
+      ]
+      continue
+    }
+
+    if (field === "text") {
+      if (filters.search) return fail("text 조건은 한 번만 쓸 수 있습니다", clause)
+      filters.search = clause.values[0].value
+      continue
+    }
+
+    if (field === "due") {
+      const date = resolveDate(clause.values[0])
+      if (!date) return fail("날짜는 YYYY-MM-DD 또는 today여야 합니다", clause.values[0])
+
+      // Bounds are inclusive, so strict comparisons move one day inward
+      const op = clause.operator
+      const after = op === ">" ? shiftDate(date, 1) : op === "=" || op === ">=" ? date : null
+      const before = op === "<" ? shiftDate(date, -1) : op === "=" || op === "<=" ? date : null
+      if (after && (!filters.due_after || after > filters.due_after)) filters.due_after = after
+      if (before && (!filters.due_before || before < filters.due_before)) filters.due_before = before
+
+      if (filters.due_after && filters.due_before && filters.due_after > filters.due_before) {
+        return fail("기한 조건을 모두 만족하는 날짜가 없습니다", clause)
+      }
+      continue
+    }
+
+    const key = LIST_FIELD_KEYS[field]
+    if (field === "label" && filters.label_ids) {
+      return fail("라벨 조건은 한 번만 쓸 수 있습니다. 여러 라벨은 IN (...)으로 묶어주세요", clause)
+    }
+
+    const candidates = getCandidates(field, context)
+    const ids: string[] = []
+    for (const value of clause.values) {
+      const match = candidates.find((candidate) =>
+        candidate.names.some((name) => name.toLowerCase() === value.value.toLowerCase())
+      )
+      if (!match) return fail(`알 수 없는 ${FIELD_NAMES[field]}: ${value.value}`, value)
+      ids.push(match.id)
+    }
+
+    // IDs come from the candidate lists above, so they fit each key's type.
+    // Labels allow neither operator, so only the other keys are excluded.
+    const negated = clause.operator === "!=" || clause.operator === "not in"
+    const excludedIds = () => (filters.exclude?.[key as ExcludedKey] ?? []) as string[]
+    if (negated) {
+      filters.exclude = { ...filters.exclude, [key]: Array.from(new Set([...excludedIds(), ...ids])) }
+    } else {
+      const previous = filters[key] as string[] | undefined
+      const next = previous ? previous.filter((id) => ids.includes(id)) : ids
+      Object.assign(filters, { [key]: Array.from(new Set(next)) })
+    }
+
+    // No included value is left; an empty list would also disable the filter
+    const included = filters[key] as string[] | undefined
+    if (included && included.every((id) => excludedIds().includes(id))) {
+      return fail(`${FIELD_NAMES[field]} 조건을 모두 만족하는 값이 없습니다`, clause)
+    }
+  }
+
+  let sort: IssueSortOptions | null = null
+  if (query.orderBy) {
+    const { field, direction } = query.orderBy
+    const sortField = SORT_FIELDS[field.value.toLowerCase()]
+    const customField = sortField ? undefined : findCustomField(field.value, context)
+
+    if (sortField) {
+      sort = { field: sortField, direction }
+    } else if (customField) {
+      sort = { field: "custom_field", custom_field_id: customField.id, direction }
+    } else {
+      return fail(`정렬할 수 없는 필드: ${field.value}`, field)
+    }
+  }
+
+  return { data: { filters, sort }, error: null }
+}
+
+/**
+ * Parses and compiles a query in one step
+ *
+ * @example
+ * ```ts
+ * const { data, error } = runIssueQuery('assignee = me AND status != Done', context)
+ * ```
+ */
+export function runIssueQuery(source: string, context: IssueQueryContext) {
+  const { query, error } = parseIssueQuery(source)
+  if (error) return { data: null, error }
+  return compileIssueQuery(query, context)
+}
+
+// ============================================================================
+// AUTOCOMPLETE
+// ============================================================================
+
+type SuggestState =
+  | "field"
+  | "operator"
+  | "value"
+  | "list-open"
+  | "list-value"
+  | "list-separator"
+  | "connector"
+  | "by"
+  | "sort-field"
+  | "direction"
+  | "done"
+
+const MAX_SUGGESTIONS = 12
+
+function quote(value: string) {
+  return /^[^\s"(),=!<>~]+$/.test(value) ? value : `"${value.replace(/["\\]/g, "\\$&")}"`
+}
+
+function getValueNames(fieldName: string, context: IssueQueryContext): string[] {
+  const field = FIELD_ALIASES[fieldName.toLowerCase()]
+  if (field === "due") return ["today"]
+  if (field === "text") return []
+  if (field) {
+    return getCandidates(field, context).flatMap((candidate) =>
+      // Offer the shortcut for the current user instead of their name
+      candidate.names.includes("me") ? ["me"] : candidate.names.slice(0, 1)
+    )
+  }
+
+  const customField = findCustomField(fieldName, context)
+  if (customField?.field_type === "select") return customField.options
+  if (customField?.field_type === "user") return getValueNames("reporter", context)
+  if (customField?.field_type === "date") return ["today"]
+  return []
+}
+
+/**
+ * Suggests fields, operators, values or keywords at the caret
+ *
+ * The word being typed, if any, is replaced by the chosen suggestion:
+ * `from` and `to` give its range in `source`.
+ *
+ * @param source - Query text
+ * @param caret - Caret offset in `source`
+ * @param context - Project data used for value suggestions
+ *
+ * @example
+ * ```ts
+ * const { from, to, items } = getIssueQuerySuggestions('priority = h', 12, context)
+ * // items → [{ label: 'high', insertText: 'high ' }]
+ * const next = source.slice(0, from) + items[0].insertText + source.slice(to)
+ * ```
+ */
+export function getIssueQuerySuggestions(
+  source: string,
+  caret: number,
+  context: IssueQueryContext
+): { from: number; to: number; items: IssueQuerySuggestion[] } {
+  const { tokens } = tokenize(source.slice(0, caret))
+
+  // A word or string touching the caret is still being typed
+  const last = tokens[tokens.length - 1]
+  const partial =
+    last && last.end === caret && (last.type === "word" || last.type === "string") ? last : null
+  const complete = partial ? tokens.slice(0, -1) : tokens
+
+  let state: SuggestState = "field"
+  let field = ""
+  let operator = ""
+
+  for (const token of complete) {
+    const isValue = token.type === "word" || token.type === "string"
+
+    switch (state) {
+      case "field":
+        if (isKeyword(token, "order")) state = "by"
+        else if (isValue) {
+          field = token.value
+          state = "operator"
+        } else state = "done"
+        break
+      case "operator":
+        if (token.type === "operator") {
+          operator = token.value
+          state = "value"
+        } else if (isKeyword(token, "in")) state = "list-open"
+        else if (isKeyword(token, "not")) operator = "not"
+        else state = "done"
+        break
+      case "value":
+        state = isValue ? "connector" : "done"
+        break
+      case "list-open":
+        state = token.type === "lparen" ? "list-value" : "done"
+        break
+      case "list-value":
+        state = isValue ? "list-separator" : "done"
+        break
+      case "list-separator":
+        state = token.type === "comma" ? "list-value" : token.type === "rparen" ? "connector" : "done"
+        break
+      case "connector":
+        state = isKeyword(token, "and") ? "field" : isKeyword(token, "order") ? "by" : "done"
+        break
+      case "by":
+        state = isKeyword(token, "by") ? "sort-field" : "done"
+        break
+      case "sort-field":
+        state = isValue ? "direction" : "done"
+        break
+      case "direction":
+        state = "done"
+        break
+    }
+  }
+
+  let options: IssueQuerySuggestion[] = []
+  const customFieldNames = (context.customFields ?? []).map((customField) => customField.name)
+
+  switch (state) {
+    case "field":
+      options = [
+        ...Object.keys(FIELD_OPERATORS)
+          .filter((name) => name !== "custom")
+          .map((name) => ({ label: name, insertText: `${name} ` })),
+        ...customFieldNames.map((name) => ({
+          label: name,
+          insertText: `${quote(name)} `,
+          detail: "사용자 정의 필드",
+        })),
+        ...(complete.length === 0 ? [{ label: "ORDER BY", insertText: "ORDER BY " }] : []),
+      ]
+      break
+    case "operator": {
+      const fieldKey = FIELD_ALIASES[field.toLowerCase()] ?? "custom"
+      const operators = FIELD_OPERATORS[fieldKey].filter((op) =>
+        operator === "not" ? op === "not in" : true
+      )
+      options = operators.map((op) => {
+        const text = operator === "not" ? "IN" : op.toUpperCase()
+        return {
+          label: op.toUpperCase(),
+          insertText: op === "in" || op === "not in" ? `${text} (` : `${text} `,
+        }
+      })
+      break
+    }
+    case "value":
+    case "list-value":
+      options = getValueNames(field, context).map((name) => ({
+        label: name,
+        insertText: state === "list-value" ? quote(name) : `${quote(name)} `,
+      }))
+      break
+    case "list-separator":
+      options = [
+        { label: ",", insertText: ", " },
+        { label: ")", insertText: ") " },
+      ]
+      break
+    case "connector":
+      options = [
+        { label: "AND", insertText: "AND " },
+        { label: "ORDER BY", insertText: "ORDER BY " },
+      ]
+      break
+    case "by":
+      options = [{ label: "BY", insertText: "BY " }]
+      break
+    case "sort-field":
+      options = [
+        ...["title", "priority", "created", "updated", "rank"].map((name) => ({
+          label: name,
+          insertText: `${name} `,
+        })),
+        ...customFieldNames.map((name) => ({
+          label: name,
+          insertText: `${quote(name)} `,
+          detail: "사용자 정의 필드",
+        })),
+      ]
+      break
+    case "direction":
+      options = [
+        { label: "ASC", insertText: "ASC" },
+        { label: "DESC", insertText: "DESC" },
+      ]
+      break
+  }
+
+  const prefix = partial?.value.toLowerCase() ?? ""
+  const items = options
+    .filter(
+      (option) =>
+        option.label.toLowerCase().startsWith(prefix) &&
+        // Nothing to suggest once the word is complete
+        option.label.toLowerCase() !== prefix
+    )
+    .slice(0, MAX_SUGGESTIONS)
+
+  return { from: partial?.start ?? caret, to: caret, items }
+}
@@ -0,0 +1,194 @@
+/**
+ * LexoRank Ordering Helpers
+ *
+ * Issues are ordered inside a status column by the `issues.order` string.
+ * These helpers generate LexoRank strings so a moved issue only needs a
+ * single update: a new rank is always computed between its neighbours,
+ * and the rest of the column is never renumbered.
+ */
+
+import { LexoRank } from "lexorank"
+
+/**
+ * Parses a stored order value, returning null for legacy or malformed values
+ *
+ * @param value - Order string from `issues.order`
+ * @returns Parsed LexoRank or null
+ */
+function parseRank(value?: string | null): LexoRank | null {
+  if (!value) return null
+
+  try {
+    return LexoRank.parse(value)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Returns the rank for the first issue of an empty column
+ *
+ * @example
+ * ```ts
+ * const order = getInitialRank()
+ * // '0|hzzzzz:'
+ * ```
+ */
+export function getInitialRank(): string {
+  return LexoRank.middle().toString()
+}
+
+/**
+ * Computes a rank that sorts between two neighbouring ranks
+ *
+ * Either neighbour may be omitted: without `before` the rank is placed at the
+ * top of the column, without `after` at the bottom. Values that are not valid
+ * LexoRank strings are treated as missing. Equal neighbours leave no room
+ * between them, so the rank is placed just after both instead.
+ *
+ * @param before - Rank of the issue directly above the drop position
+ * @param after - Rank of the issue directly below the drop position
+ * @returns New rank string
+ *
+ * @example
+ * ```ts
+ * // Dropped between two cards
+ * const order = getRankBetween(previousIssue.order, nextIssue.order)
+ *
+ * // Dropped at the bottom of a column
+ * const order = getRankBetween(lastIssue?.order, null)
+ * ```
+ */
+export function getRankBetween(before?: string | null, after?: string | null): string {
+  const beforeRank = parseRank(before)
+  const afterRank = parseRank(after)
+
+  if (beforeRank && afterRank) {
+    const comparison = beforeRank.compareTo(afterRank)
+    if (comparison === 0) {
+      return beforeRank.between(beforeRank.genNext()).toString()
+    }
+
+    // Guard against neighbours that arrive in the wrong order
+    return comparison < 0
+      ? beforeRank.between(afterRank).toString()
+      : afterRank.between(beforeRank).toString()
+  }
+
+  if (beforeRank) return beforeRank.genNext().toString()
+  if (afterRank) return afterRank.genPrev().toString()
+
+  return getInitialRank()
+}
+
+/**
+ * Returns the highest valid rank among stored order values
+ *
+ * Legacy numeric orders sort above every LexoRank as plain strings, so a
+ * text sort in the database cannot find the last rank; use this instead.
+ *
+ * @param values - Order strings, e.g. of one status column
+ * @returns The last rank, or null when no value is a valid rank
+ *
+ * @example
+ * ```ts
+ * const order = getRankBetween(getLastRank(column.map((issue) => issue.order)), null)
+ * ```
+ */
+export function getLastRank(values: (string | null | undefined)[]): string | null {
+  let last: LexoRank | null = null
+
+  for (const value of values) {
+    const rank = parseRank(value)
+    if (rank && (!last || rank.compareTo(last) > 0)) {
+      last = rank
+    }
+  }
+
+  return last ? last.toString() : null
+}
+
+/**
+ * Finds order values that need rewriting before ranks can be computed
+ *
+ * Issues created before LexoRank hold numeric orders ("1", "2", ...); they
+ * get ranks after the last valid rank, in numeric order, so they keep
+ * sorting below ranked issues. Issues sharing a rank are spread between it
+ * and the next distinct rank, keeping their current order.
+ *
+ * @param items - Items with their stored order, e.g. all issues of a project
+ * @returns New order per item ID; empty when nothing needs rewriting
+ *
+ * @example
+ * ```ts
+ * const repairs = repairRanks(issues)
+ * for (const [issueId, order] of repairs) {
+ *   await updateIssueOrder(issueId, order)
+ * }
+ * ```
+ */
+export function repairRanks<T extends { id: string; order: string }>(
+  items: T[]
+): Map<string, string> {
+  const repairs = new Map<string, string>()
+  const ranked = items
+    .filter((item) => parseRank(item.order))
+    .sort((a, b) => compareRanks(a.order, b.order))
+  const legacy = items
+    .filter((item) => !parseRank(item.order))
+    .sort((a, b) => legacyPosition(a.order) - legacyPosition(b.order) || 0)
+
+  let last: string | null = null
+
+  ranked.forEach((item, index) => {
+    if (last === null || compareRanks(item.order, last) > 0) {
+      last = item.order
+      return
+    }
+
+    const previous: string = last
+    const next = ranked.slice(index + 1).find((other) => compareRanks(other.order, previous) > 0)
+    last = getRankBetween(previous, next?.order)
+    repairs.set(item.id, last)
+  })
+
+  for (const item of legacy) {
+    last = getRankBetween(last, null)
+    repairs.set(item.id, last)
+  }
+
+  return repairs
+}
+
+// Numeric legacy orders in their old sequence; anything else goes last
+function legacyPosition(value: string): number {
+  const position = Number.parseFloat(value)
+  return Number.isNaN(position) ? Infinity : position
+}
+
+/**
+ * Compares two rank strings for use with Array.prototype.sort
+ *
+ * LexoRank strings sort by plain code-unit comparison, so locale-aware
+ * comparison (localeCompare) must not be used here. Legacy numeric orders
+ * sort after them in numeric order, where `repairRanks` would rank them.
+ *
+ * @example
+ * ```ts
+ * issues.sort((a, b) => compareRanks(a.order, b.order))
+ * ```
+ */
+export function compareRanks(a: string, b: string): number {
+  if (a === b) return 0
+
+  // Every LexoRank has a bucket prefix like `0|`
+  const aLegacy = !a.includes("|")
+  const bLegacy = !b.includes("|")
+  if (aLegacy !== bLegacy) return aLegacy ? 1 : -1
+  if (aLegacy) {
+    const byPosition = legacyPosition(a) - legacyPosition(b)
+    if (byPosition) return byPosition
+  }
+
+  return a < b ? -1 : 1
+}
@@ -0,0 +1,170 @@
+/**
+ * Markdown Helpers
+ *
+ * Issue descriptions and comments are GitHub-flavoured Markdown. Rendered
+ * HTML always goes through DOMPurify before it reaches the page. Task list
+ * items (`- [ ]` / `- [x]`) are numbered in document order so a toggled
+ * checkbox can be written back to the source.
+ */
+
+import DOMPurify from "isomorphic-dompurify"
+import hljs from "highlight.js/lib/common"
+import { Marked, type Token, type Tokens, type TokenizerAndRendererExtension } from "marked"
+
+// Matches `@[Display Name](user-id)`, see utils/mentions
+const mentionExtension: TokenizerAndRendererExtension = {
+  name: "mention",
+  level: "inline",
+  start(src) {
+    const index = src.indexOf("@[")
+    return index === -1 ? undefined : index
+  },
+  tokenizer(src) {
+    const match = /^@\[([^\]]+)\]\(([0-9a-f-]+)\)/.exec(src)
+    if (!match) return undefined
+
+    return { type: "mention", raw: match[0], name: match[1], userId: match[2] }
+  },
+  renderer(token) {
+    return `<span class="mention" data-user-id="${token.userId}">@${escapeHtml(token.name)}</span>`
+  },
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;")
+}
+
+function createMarked(interactiveTasks: boolean) {
+  const marked = new Marked({ gfm: true, breaks: true })
+
+  marked.use({
+    extensions: [mentionExtension],
+    renderer: {
+      code({ text, lang }) {
+        const language = lang?.trim().split(/\s+/)[0]
+        const body =
+          language && hljs.getLanguage(language)
+            ? hljs.highlight(text, { language }).value
+            : escapeHtml(text)
+
+        return `<pre><code class="hljs${language ? ` language-${escapeHtml(language)}` : ""}">${body}</code></pre>\n`
+      },
+      checkbox({ checked }) {
+        return `<input type="checkbox" class="task-list-item-checkbox"${checked ? " checked" : ""}${interactiveTasks ? "" : " disabled"}>`
+      },
+    },
+  })
+
+  return marked
+}
+
+const readOnlyMarked = createMarked(false)
+const interactiveMarked = createMarked(true)
+
+/**
+ * Renders Markdown to sanitized HTML
+ *
+ * @param source - Markdown source
+ * @param options.interactiveTasks - Leave task list checkboxes enabled
+ * @returns HTML safe to pass to `dangerouslySetInnerHTML`
+ *
+ * @example
+ * ```ts
+ * const html = renderMarkdown(issue.description ?? "")
+ * ```
+ */
+export function renderMarkdown(
+  source: string,
+  options: { interactiveTasks?: boolean } = {}
+): string {
+  const marked = options.interactiveTasks ? interactiveMarked : readOnlyMarked
+  const html = marked.parse(source, { async: false }) as string
+
+  return DOMPurify.sanitize(html, {
+    ALLOWED_ATTR: ["href", "title", "src", "alt", "class", "type", "checked", "disabled", "start", "align", "data-user-id"],
+  })
+}
+
+/**
+ * Finds the source offset of each rendered task checkbox's `[ ]`/`[x]` mark
+ *
+ * Walks marked's own tokens so tasks count exactly as they render, including
+ * ones in blockquotes and nested lists, and never ones in code blocks. Token
+ * `raw` is stripped of quote markers and indentation, so each task's first
+ * line is located in the source after the previous one. A task that cannot
+ * be located keeps its place as -1.
+ */
+function findTaskMarks(source: string): number[] {
+  const marks: number[] = []
+  let cursor = 0
+
+  // Next occurrence preceded on its line only by indentation or quote markers
+  const locate = (text: string) => {
+    let index = source.indexOf(text, cursor)
+    while (index !== -1) {
+      const lineStart = source.lastIndexOf("\n", index - 1) + 1
+      if (/^[\s>]*$/.test(source.slice(lineStart, index))) return index
+      index = source.indexOf(text, index + 1)
+    }
+    return -1
+  }
+
+  const walk = (tokens: Token[]) => {
+    for (const token of tokens) {
+      if (token.type === "code" || (token.type === "html" && token.block)) {
+        // Move past the block so task-like lines inside are never matched
+        for (const line of token.raw.split("\n")) {
+          const text = line.trimStart()
+          const index = text ? locate(text) : -1
+          if (index !== -1) cursor = index + text.length
+        }
+      } else if (token.type === "list") {
+        for (const item of (token as Tokens.List).items) {
+          if (item.task) {
+            const firstLine = item.raw.split("\n")[0].trimStart()
+            const index = locate(firstLine)
+            marks.push(index === -1 ? -1 : index + firstLine.indexOf("[") + 1)
+            if (index !== -1) cursor = index + firstLine.length
+          }
+          walk(item.tokens)
+        }
+      } else if ("tokens" in token && token.tokens) {
+        walk(token.tokens)
+      }
+    }
+  }
+
+  walk(readOnlyMarked.lexer(source))
+  return marks
+}
+
+/**
+ * Checks or unchecks the nth task list item in Markdown source
+ *
+ * Tasks are numbered in the order their checkboxes render, see
+ * `findTaskMarks`.
+ *
+ * @param source - Markdown source
+ * @param index - Zero-based position of the task among all task items
+ * @param checked - New state
+ * @returns Updated source; unchanged if there is no such task
+ *
+ * @example
+ * ```ts
+ * toggleTaskListItem("- [ ] a\n- [ ] b", 1, true)
+ * // "- [ ] a\n- [x] b"
+ * ```
+ */
+export function toggleTaskListItem(source: string, index: number, checked: boolean): string {
+  // marked reads CRLF as LF; keep offsets in the same text it tokenizes
+  const normalized = source.replace(/\r\n?/g, "\n")
+  const mark = findTaskMarks(normalized)[index]
+  if (mark === undefined || mark === -1) return source
+
+  return normalized.slice(0, mark) + (checked ? "x" : " ") + normalized.slice(mark + 1)
+}
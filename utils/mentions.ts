@@ -0,0 +1,130 @@
+/**
+ * Comment Mention Helpers
+ *
+ * Mentions are stored inside comment content as `@[Display Name](user-id)`
+ * and the mentioned user ids are mirrored into `comments.mentions`. While
+ * typing, the editor shows plain `@Display Name` text and keeps the picked
+ * users alongside; `serializeMentions` turns that back into markup.
+ */
+
+import type { User } from "@/types/models"
+
+export type MentionUser = Pick<User, "id" | "display_name">
+
+export type MentionSegment =
+  | { type: "text"; text: string }
+  | { type: "mention"; userId: string; name: string }
+
+const MENTION_MARKUP = /@\[([^\]]+)\]\(([0-9a-f-]+)\)/g
+
+/**
+ * Formats a user as mention markup
+ */
+export function toMentionMarkup(user: MentionUser): string {
+  return `@[${user.display_name}](${user.id})`
+}
+
+/**
+ * Splits comment content into text and mention segments for rendering
+ *
+ * @param content - Stored comment content
+ *
+ * @example
+ * ```ts
+ * parseMentions("Hi @[Kim](1f0c...)!")
+ * // [{ type: 'text', text: 'Hi ' }, { type: 'mention', userId: '1f0c...', name: 'Kim' }, { type: 'text', text: '!' }]
+ * ```
+ */
+export function parseMentions(content: string): MentionSegment[] {
+  const segments: MentionSegment[] = []
+  let lastIndex = 0
+
+  for (const match of content.matchAll(MENTION_MARKUP)) {
+    if (match.index > lastIndex) {
+      segments.push({ type: "text", text: content.slice(lastIndex, match.index) })
+    }
+    segments.push({ type: "mention", name: match[1], userId: match[2] })
+    lastIndex = match.index + match[0].length
+  }
+
+  if (lastIndex < content.length) {
+    segments.push({ type: "text", text: content.slice(lastIndex) })
+  }
+
+  return segments
+}
+
+/**
+ * Unique ids of the users mentioned in comment content
+ */
+export function getMentionedUserIds(content: string): string[] {
+  return Array.from(new Set(Array.from(content.matchAll(MENTION_MARKUP), (match) => match[2])))
+}
+
+/**
+ * Converts editor text back into stored content
+ *
+ * Every `@Display Name` of a picked user becomes markup. Longer names are
+ * replaced first so `@Kim Lee` is not consumed by a user called `Kim`.
+ *
+ * @param text - Text as typed, with plain `@Display Name` mentions
+ * @param users - Users picked from the autocomplete
+ */
+export function serializeMentions(text: string, users: MentionUser[]): string {
+  const byLength = [...users].sort((a, b) => b.display_name.length - a.display_name.length)
+  const placeholders: string[] = []
+
+  let result = text
+  for (const user of byLength) {
+    const plain = `@${user.display_name}`
+    if (!result.includes(plain)) continue
+
+    // Placeholders keep later, shorter names from matching inside markup
+    result = result.split(plain).join(`\u0000${placeholders.length}\u0000`)
+    placeholders.push(toMentionMarkup(user))
+  }
+
+  return result.replace(/\u0000(\d+)\u0000/g, (_, index) => placeholders[Number(index)])
+}
+
+/**
+ * Converts stored content into editor text and the users it mentions
+ */
+export function deserializeMentions(content: string): { text: string; users: MentionUser[] } {
+  const users = new Map<string, MentionUser>()
+
+  const text = parseMentions(content)
+    .map((segment) => {
+      if (segment.type === "text") return segment.text
+      users.set(segment.userId, { id: segment.userId, display_name: segment.name })
+      return `@${segment.name}`
+    })
+    .join("")
+
+  return { text, users: Array.from(users.values()) }
+}
+
+/**
+ * Finds the `@query` being typed at the caret
+ *
+ * A query starts at an `@` at the beginning of the text or after
+ * whitespace and runs to the caret without line breaks.
+ *
+ * @param text - Editor text
+ * @param caret - Caret position
+ * @returns Index of the `@` and the text typed after it, or null
+ */
+export function getMentionQuery(
+  text: string,
+  caret: number
+): { start: number; query: string } | null {
+  const before = text.slice(0, caret)
+  const start = before.lastIndexOf("@")
+  if (start === -1) return null
+  if (start > 0 && !/\s/.test(before[start - 1])) return null
+
+  const query = before.slice(start + 1)
+  if (/[\n\r]/.test(query) || query.length > 30) return null
+
+  return { start, query }
+}
@@ -1,4 +1,46 @@
 import { createClient as createBrowserClient } from "@/lib/supabase/client"
+import { normalizeBoardView } from "@/utils/board-view"
+import { applyIssueFilters, sortIssues } from "@/utils/issue-filters"
+import { formatIssueKey, parseIssueKey } from "@/utils/issue-key"
+import { isDoneStatus } from "@/utils/issue-links"
+import { getMentionedUserIds } from "@/utils/mentions"
+import {
+  ATTACHMENTS_BUCKET,
+  ATTACHMENT_URL_EXPIRES_IN,
+  getAttachmentPath,
+  withAttachmentCount,
+} from "@/utils/attachments"
+import type {
+  AttachmentWithUser,
+  CommentRevision,
+  CommentWithReactions,
+  CreateAttachmentInput,
+  CreateCustomFieldInput,
+  CreateSavedViewInput,
+  CreateSprintInput,
+  CustomField,
+  CustomFieldValue,
+  DescriptionRevisionWithAuthor,
+  Issue,
+  IssueCustomValue,
+  IssueEventWithActor,
+  IssueFilters,
+  IssueLinkType,
+  IssueLinkWithIssues,
+  IssueSortOptions,
+  IssueWatcherWithUser,
+  IssueWithDetails,
+  NotificationType,
+  SavedView,
+  Sprint,
+  TeamMember,
+  UpdateCustomFieldInput,
+  UpdateSavedViewInput,
+  UpdateSprintInput,
+  WorklogWithIssue,
+  WorklogWithUser,
+  WorkspaceSearchResults,
+} from "@/types/models"
 
 /**
  * Database query utility functions for Supabase (Client Components)
@@ -565,10 +607,183 @@ export async function createDefaultStatuses(projectId: string) {
   return { data, error: null }
 }
 
+/**
+ * Get whether a project blocks moves into columns at their WIP limit
+ *
+ * @param projectId - Project ID
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { getProjectWipEnforced } from '@/utils/supabase/queries'
+ *
+ * const { data: enforced } = await getProjectWipEnforced(projectId)
+ * ```
+ */
+export async function getProjectWipEnforced(projectId: string) {
+  const supabase = createBrowserClient()
+
+  const { data, error } = await supabase
+    .from("projects")
+    .select("wip_limit_enforced")
+    .eq("id", projectId)
+    .single()
+
+  if (error) {
+    console.error("Error fetching WIP limit setting:", error)
+    return { data: null, error }
+  }
+
+  return { data: data.wip_limit_enforced as boolean, error: null }
+}
+
+/**
+ * Set whether a project blocks moves into columns at their WIP limit
+ *
+ * Team admins can still move issues into a full column after confirming.
+ *
+ * @param projectId - Project ID
+ * @param enforced - Block moves instead of only warning
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { setProjectWipEnforced } from '@/utils/supabase/queries'
+ *
+ * const { error } = await setProjectWipEnforced(projectId, true)
+ * ```
+ */
+export async function setProjectWipEnforced(projectId: string, enforced: boolean) {
+  const supabase = createBrowserClient()
+
+  const { error } = await supabase
+    .from("projects")
+    .update({ wip_limit_enforced: enforced })
+    .eq("id", projectId)
+
+  if (error) {
+    console.error("Error updating WIP limit setting:", error)
+    return { error }
+  }
+
+  return { error: null }
+}
+
+/**
+ * Get a user's role in the team that owns a project
+ *
+ * @param projectId - Project ID
+ * @param userId - User ID
+ * @returns The role, or null when the user is not a team member
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { getProjectMemberRole } from '@/utils/supabase/queries'
+ *
+ * const { data: role } = await getProjectMemberRole(projectId, userId)
+ * const isAdmin = role === 'owner' || role === 'admin'
+ * ```
+ */
+export async function getProjectMemberRole(projectId: string, userId: string) {
+  const supabase = createBrowserClient()
+
+  const { data: project, error: projectError } = await supabase
+    .from("projects")
+    .select("team_id")
+    .eq("id", projectId)
+    .single()
+
+  if (projectError) {
+    console.error("Error fetching project member role:", projectError)
+    return { data: null, error: projectError }
+  }
+
+  const { data, error } = await supabase
+    .from("team_members")
+    .select("role")
+    .eq("team_id", project.team_id)
+    .eq("user_id", userId)
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error fetching project member role:", error)
+    return { data: null, error }
+  }
+
+  return { data: (data?.role ?? null) as TeamMember["role"] | null, error: null }
+}
+
 // ============================================================================
 // ISSUES QUERIES
 // ============================================================================
 
+/**
+ * Issue columns plus the relations the board, lists and issue cards show
+ *
+ * `attachment_count` arrives as an aggregate embed; pass rows through
+ * `withAttachmentCount`.
+ *
+ * @example
+ * ```tsx
+ * const { data } = await supabase.from('issues').select(ISSUE_WITH_DETAILS_SELECT).eq('id', issueId).single()
+ * ```
+ */
+export const ISSUE_WITH_DETAILS_SELECT = `
+  *,
+  status:statuses (
+    id,
+    name,
+    color,
+    order
+  ),
+  assignee:users!issues_assignee_id_fkey (
+    id,
+    display_name,
+    avatar_url
+  ),
+  reporter:users!issues_reporter_id_fkey (
+    id,
+    display_name,
+    avatar_url
+  ),
+  subtasks (
+    id,
+    completed
+  ),
+  worklogs (
+    hours
+  ),
+  attachment_count:attachments (
+    count
+  ),
+  custom_values:issue_custom_values (
+    field_id,
+    value
+  ),
+  labels (
+    id,
+    name,
+    color
+  ),
+  project:projects (
+    id,
+    key
+  ),
+  incoming_links:issue_links!issue_links_target_issue_id_fkey (
+    link_type,
+    source:issues!issue_links_source_issue_id_fkey (
+      id,
+      status:statuses (
+        name
+      )
+    )
+  )
+`
+
 /**
  * Get all issues for a project with relations (Isomorphic)
  *
@@ -591,6 +806,87 @@ export async function getIssuesByProjectId(
 ) {
   const supabase = createBrowserClient()
 
+  const { data, error } = await supabase
+    .from("issues")
+    .select(ISSUE_WITH_DETAILS_SELECT)
+    .eq("project_id", projectId)
+    .order("order", { ascending: true })
+
+  if (error) {
+    console.error("Error fetching issues:", error)
+    return { data: null, error }
+  }
+
+  return { data: data.map(withAttachmentCount), error: null }
+}
+
+/**
+ * Get issues grouped by status for kanban board (Isomorphic)
+ *
+ * @param projectId - Project ID
+ * @param options - Query options (serverSide: true for Server Components)
+ *
+ * @example Server Component
+ * ```tsx
+ * const { data: issuesByStatus } = await getIssuesByStatusId(projectId, { serverSide: true })
+ * ```
+ *
+ * @example Client Component
+ * ```tsx
+ * const { data: issuesByStatus } = await getIssuesByStatusId(projectId)
+ * ```
+ */
+export async function getIssuesByStatusId(
+  projectId: string,
+  
+) {
+  const supabase = createBrowserClient()
+
+  const { data: issues, error } = await supabase
+    .from("issues")
+    .select(ISSUE_WITH_DETAILS_SELECT)
+    .eq("project_id", projectId)
+    .order("order", { ascending: true })
+
+  if (error) {
+    console.error("Error fetching issues by status:", error)
+    return { data: null, error }
+  }
+
+  // Group issues by status
+  const grouped =
+    issues?.reduce(
+      (acc, issue) => {
+        const statusId = issue.status_id
+        if (!acc[statusId]) {
+          acc[statusId] = []
+        }
+        acc[statusId].push(withAttachmentCount(issue))
+        return acc
+      },
+      {} as Record<string, typeof issues>
+    ) || {}
+
+  return { data: grouped, error: null }
+}
+
+/**
+ * Get a single issue with relations
+ *
+ * @param issueId - Issue ID
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { getIssueById } from '@/utils/supabase/queries'
+ *
+ * const { data: issue } = await getIssueById(issueId)
+ * ```
+ */
+export async function getIssueById(issueId: string) {
+  const supabase = createBrowserClient()
+
   const { data, error } = await supabase
     .from("issues")
     .select(
@@ -611,14 +907,103 @@ export async function getIssuesByProjectId(
         id,
         display_name,
         avatar_url
+      ),
+      project:projects (
+        id,
+        name,
+        key,
+        team_id
+      ),
+      parent:issues!issues_parent_id_fkey (
+        id,
+        number,
+        title
+      )
+    `
+    )
+    .eq("id", issueId)
+    .single()
+
+  if (error) {
+    console.error("Error fetching issue:", error)
+    return { data: null, error }
+  }
+
+  return { data, error: null }
+}
+
+/**
+ * Get the child issues of a parent issue (e.g. an epic's stories)
+ *
+ * @param parentId - Parent issue ID
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { getChildIssues } from '@/utils/supabase/queries'
+ *
+ * const { data: children } = await getChildIssues(epicId)
+ * ```
+ */
+export async function getChildIssues(parentId: string) {
+  const supabase = createBrowserClient()
+
+  const { data, error } = await supabase
+    .from("issues")
+    .select(
+      `
+      id,
+      number,
+      title,
+      type,
+      status:statuses (
+        id,
+        name,
+        color
+      ),
+      project:projects (
+        key
       )
     `
     )
+    .eq("parent_id", parentId)
+    .order("created_at", { ascending: true })
+
+  if (error) {
+    console.error("Error fetching child issues:", error)
+    return { data: null, error }
+  }
+
+  return { data, error: null }
+}
+
+/**
+ * Get the epics of a project, used as parent options
+ *
+ * @param projectId - Project ID
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { getProjectEpics } from '@/utils/supabase/queries'
+ *
+ * const { data: epics } = await getProjectEpics(projectId)
+ * ```
+ */
+export async function getProjectEpics(projectId: string) {
+  const supabase = createBrowserClient()
+
+  const { data, error } = await supabase
+    .from("issues")
+    .select("id, number, title")
     .eq("project_id", projectId)
-    .order("order", { ascending: true })
+    .eq("type", "epic")
+    .order("number", { ascending: true })
 
   if (error) {
-    console.error("Error fetching issues:", error)
+    console.error("Error fetching project epics:", error)
     return { data: null, error }
   }
 
@@ -626,295 +1011,2751 @@ export async function getIssuesByProjectId(
 }
 
 /**
- * Get issues grouped by status for kanban board (Isomorphic)
+ * Move issue to different status
+ *
+ * @param issueId - Issue ID
+ * @param statusId - New status ID
+ * @param order - New order position
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { moveIssue } from '@/utils/supabase/queries'
+ *
+ * const { data, error } = await moveIssue(issueId, newStatusId, newOrder)
+ * ```
+ */
+export async function moveIssue(
+  issueId: string,
+  statusId: string,
+  order: string
+) {
+  const supabase = createBrowserClient()
+
+  const { data, error } = await supabase
+    .from("issues")
+    .update({ status_id: statusId, order })
+    .eq("id", issueId)
+    .select()
+
+  if (error) {
+    console.error("Error moving issue:", error)
+    return { data: null, error }
+  }
+
+  return { data, error: null }
+}
+
+/**
+ * Update issue order within same status
+ *
+ * @param issueId - Issue ID
+ * @param order - New order position
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { updateIssueOrder } from '@/utils/supabase/queries'
+ *
+ * const { data, error } = await updateIssueOrder(issueId, newOrder)
+ * ```
+ */
+export async function updateIssueOrder(issueId: string, order: string) {
+  const supabase = createBrowserClient()
+
+  const { data, error } = await supabase
+    .from("issues")
+    .update({ order })
+    .eq("id", issueId)
+    .select()
+
+  if (error) {
+    console.error("Error updating issue order:", error)
+    return { data: null, error }
+  }
+
+  return { data, error: null }
+}
+
+// Substring pattern for `ilike` inside `or` filters, quoted so commas and
+// parentheses in the search text stay literal
+function toContainsPattern(term: string) {
+  return `"%${term.replace(/["\\]/g, "\\$&")}%"`
+}
+
+// Sort fields the database can order by directly; the rest are sorted after fetching
+const DB_SORT_FIELDS: IssueSortOptions["field"][] = ["title", "created_at", "updated_at", "order"]
+
+/**
+ * Get a project's issues matching filters, e.g. from a compiled issue query
+ *
+ * Filters and sorting run in the database, except custom field filters and
+ * priority or custom field sorting, which are applied to the fetched rows.
+ * Unassigned issues are selected with an empty string in `assignee_ids`,
+ * and kept by `exclude.assignee_ids` unless it holds an empty string too.
+ *
+ * @param projectId - Project ID
+ * @param filters - Filters to apply
+ * @param sort - Optional sort, defaults to board rank
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { queryIssues } from '@/utils/supabase/queries'
+ * import { runIssueQuery } from '@/utils/issue-query'
+ *
+ * const { data: compiled } = runIssueQuery('assignee = me ORDER BY updated DESC', context)
+ * const { data: issues, error } = await queryIssues(projectId, compiled.filters, compiled.sort)
+ * ```
+ */
+export async function queryIssues(
+  projectId: string,
+  filters: IssueFilters,
+  sort?: IssueSortOptions | null
+) {
+  const supabase = createBrowserClient()
+
+  let query = supabase
+    .from("issues")
+    .select(
+      `${ISSUE_WITH_DETAILS_SELECT},
+      label_filter:issue_labels (
+        label_id
+      )
+    ` as const
+    )
+    .eq("project_id", projectId)
+
+  const search = filters.search?.trim()
+  if (search) {
+    const pattern = toContainsPattern(search)
+    query = query.or(`title.ilike.${pattern},description.ilike.${pattern}`)
+  }
+
+  if (filters.status_ids?.length) query = query.in("status_id", filters.status_ids)
+  if (filters.priorities?.length) query = query.in("priority", filters.priorities)
+  if (filters.types?.length) query = query.in("type", filters.types)
+  if (filters.reporter_ids?.length) query = query.in("reporter_id", filters.reporter_ids)
+  if (filters.label_ids?.length) {
+    // Keep only issues whose filtered label embed is not empty
+    query = query.in("label_filter.label_id", filters.label_ids).not("label_filter", "is", null)
+  }
+  if (filters.due_after) query = query.gte("due_date", filters.due_after)
+  if (filters.due_before) query = query.lte("due_date", filters.due_before)
+
+  if (filters.assignee_ids?.length) {
+    const assigneeIds = filters.assignee_ids.filter(Boolean)
+    const conditions = [
+      ...(assigneeIds.length > 0 ? [`assignee_id.in.(${assigneeIds.join(",")})`] : []),
+      ...(assigneeIds.length < filters.assignee_ids.length ? ["assignee_id.is.null"] : []),
+    ]
+    query = query.or(conditions.join(","))
+  }
+
+  const exclude = filters.exclude ?? {}
+  if (exclude.status_ids?.length) {
+    query = query.not("status_id", "in", `(${exclude.status_ids.join(",")})`)
+  }
+  if (exclude.priorities?.length) {
+    query = query.not("priority", "in", `(${exclude.priorities.join(",")})`)
+  }
+  if (exclude.types?.length) query = query.not("type", "in", `(${exclude.types.join(",")})`)
+  if (exclude.reporter_ids?.length) {
+    query = query.not("reporter_id", "in", `(${exclude.reporter_ids.join(",")})`)
+  }
+
+  if (exclude.assignee_ids?.length) {
+    const assigneeIds = exclude.assignee_ids.filter(Boolean)
+    if (assigneeIds.length === exclude.assignee_ids.length) {
+      // NOT IN is never true for null, so unassigned issues are kept explicitly
+      query = query.or(`assignee_id.not.in.(${assigneeIds.join(",")}),assignee_id.is.null`)
+    } else {
+      if (assigneeIds.length > 0) {
+        query = query.not("assignee_id", "in", `(${assigneeIds.join(",")})`)
+      }
+      query = query.not("assignee_id", "is", null)
+    }
+  }
+
+  const orderField = sort && DB_SORT_FIELDS.includes(sort.field) ? sort.field : "order"
+  query = query.order(orderField, { ascending: sort?.direction !== "desc" || orderField === "order" })
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error("Error querying issues:", error)
+    return { data: null, error }
+  }
+
+  let issues = data.map(({ label_filter: _labelFilter, ...issue }) =>
+    withAttachmentCount(issue)
+  ) as IssueWithDetails[]
+  if (filters.custom_fields?.length) {
+    issues = applyIssueFilters(issues, { custom_fields: filters.custom_fields })
+  }
+  if (sort && !DB_SORT_FIELDS.includes(sort.field)) {
+    issues = sortIssues(issues, sort)
+  }
+
+  return { data: issues, error: null }
+}
+
+// ============================================================================
+// DESCRIPTION REVISIONS QUERIES
+// ============================================================================
+
+/**
+ * Get every saved version of an issue's description, newest first
+ *
+ * @param issueId - Issue ID
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { getDescriptionRevisions } from '@/utils/supabase/queries'
+ *
+ * const { data: revisions } = await getDescriptionRevisions(issueId)
+ * ```
+ */
+export async function getDescriptionRevisions(issueId: string) {
+  const supabase = createBrowserClient()
+
+  const { data, error } = await supabase
+    .from("issue_description_revisions")
+    .select(
+      `
+      *,
+      author:users (
+        id,
+        display_name,
+        avatar_url
+      )
+    `
+    )
+    .eq("issue_id", issueId)
+    .order("created_at", { ascending: false })
+
+  if (error) {
+    console.error("Error fetching description revisions:", error)
+    return { data: null, error }
+  }
+
+  return { data: data as DescriptionRevisionWithAuthor[], error: null }
+}
+
+/**
+ * Save a description change as a revision
+ *
+ * Call after the issue was updated. Issues that predate revisions get the
+ * replaced description recorded first, without an author, so the first
+ * diff still has something to compare against.
+ *
+ * @param previous - Issue as it was before the change
+ * @param description - New description
+ * @param authorId - User who changed it; defaults to the signed-in user
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { recordDescriptionRevision } from '@/utils/supabase/queries'
+ *
+ * await recordDescriptionRevision(previousIssue, updates.description ?? null)
+ * ```
+ */
+export async function recordDescriptionRevision(
+  previous: Pick<Issue, "id" | "description" | "updated_at">,
+  description: string | null,
+  authorId?: string
+) {
+  const supabase = createBrowserClient()
+
+  if (!authorId) {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+    authorId = user?.id
+  }
+
+  const { count, error: countError } = await supabase
+    .from("issue_description_revisions")
+    .select("id", { count: "exact", head: true })
+    .eq("issue_id", previous.id)
+
+  if (countError) {
+    console.error("Error counting description revisions:", countError)
+    return { error: countError }
+  }
+
+  const rows = [
+    ...(count === 0 && previous.description
+      ? [
+          {
+            issue_id: previous.id,
+            description: previous.description,
+            author_id: null,
+            created_at: previous.updated_at,
+          },
+        ]
+      : []),
+    { issue_id: previous.id, description, author_id: authorId ?? null },
+  ]
+
+  const { error } = await supabase.from("issue_description_revisions").insert(rows)
+
+  if (error) {
+    console.error("Error saving description revision:", error)
+    return { error }
+  }
+
+  return { error: null }
+}
+
+// ============================================================================
+// COMMENTS QUERIES
+// ============================================================================
+
+/**
+ * Get all comments for an issue (Isomorphic)
+ *
+ * @param issueId - Issue ID
+ * @param options - Query options (serverSide: true for Server Components)
+ *
+ * @example Server Component
+ * ```tsx
+ * const { data: comments } = await getCommentsByIssueId(issueId, { serverSide: true })
+ * ```
+ *
+ * @example Client Component
+ * ```tsx
+ * const { data: comments } = await getCommentsByIssueId(issueId)
+ * ```
+ */
+export async function getCommentsByIssueId(
+  issueId: string,
+  
+) {
+  const supabase = createBrowserClient()
+
+  const { data, error } = await supabase
+    .from("comments")
+    .select(
+      `
+      *,
+      user:users (
+        id,
+        display_name,
+        avatar_url
+      ),
+      reactions:comment_reactions (
+        user_id,
+        emoji
+      )
+    `
+    )
+    .eq("issue_id", issueId)
+    .order("created_at", { ascending: true })
+
+  if (error) {
+    console.error("Error fetching comments:", error)
+    return { data: null, error }
+  }
+
+  return { data: data as CommentWithReactions[], error: null }
+}
+
+/**
+ * Add a comment to an issue
+ *
+ * @param issueId - Issue ID
+ * @param userId - User ID
+ * @param content - Comment content, with mentions as `@[name](user-id)`
+ * @param parentId - Comment being replied to, if any
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { addComment } from '@/utils/supabase/queries'
+ *
+ * const { data, error } = await addComment(issueId, userId, 'Comment text')
+ * const { data: reply } = await addComment(issueId, userId, 'Agreed', parentCommentId)
+ * ```
+ */
+export async function addComment(
+  issueId: string,
+  userId: string,
+  content: string,
+  parentId: string | null = null
+) {
+  const supabase = createBrowserClient()
+
+  const { data, error } = await supabase
+    .from("comments")
+    .insert({
+      issue_id: issueId,
+      user_id: userId,
+      parent_id: parentId,
+      content,
+      mentions: getMentionedUserIds(content),
+    })
+    .select(
+      `
+      *,
+      user:users (
+        id,
+        display_name,
+        avatar_url
+      ),
+      reactions:comment_reactions (
+        user_id,
+        emoji
+      )
+    `
+    )
+
+  if (error) {
+    console.error("Error adding comment:", error)
+    return { data: null, error }
+  }
+
+  return { data, error: null }
+}
+
+/**
+ * Update a comment
+ *
+ * The replaced content is kept in `comment_revisions` first, so earlier
+ * versions of a discussion stay readable. Saving identical content
+ * records nothing.
+ *
+ * @param commentId - Comment ID
+ * @param content - Updated content
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { updateComment } from '@/utils/supabase/queries'
+ *
+ * const { data, error } = await updateComment(commentId, 'Updated text')
+ * ```
+ */
+export async function updateComment(commentId: string, content: string) {
+  const supabase = createBrowserClient()
+
+  const { data: current, error: currentError } = await supabase
+    .from("comments")
+    .select("content")
+    .eq("id", commentId)
+    .single()
+
+  if (currentError) {
+    console.error("Error fetching comment:", currentError)
+    return { data: null, error: currentError }
+  }
+
+  if (current.content === content) {
+    return { data: [], error: null }
+  }
+
+  const { data: revision, error: revisionError } = await supabase
+    .from("comment_revisions")
+    .insert({ comment_id: commentId, content: current.content })
+    .select("id")
+    .single()
+
+  if (revisionError) {
+    console.error("Error saving comment revision:", revisionError)
+    return { data: null, error: revisionError }
+  }
+
+  const { data, error } = await supabase
+    .from("comments")
+    .update({
+      content,
+      mentions: getMentionedUserIds(content),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", commentId)
+    .select()
+
+  if (error) {
+    console.error("Error updating comment:", error)
+    // The content was not replaced, so it is not a revision
+    await supabase.from("comment_revisions").delete().eq("id", revision.id)
+    return { data: null, error }
+  }
+
+  return { data, error: null }
+}
+
+/**
+ * Get the earlier versions of a comment, oldest first
+ *
+ * Each revision holds the content that was replaced at `created_at`.
+ *
+ * @param commentId - Comment ID
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { getCommentRevisions } from '@/utils/supabase/queries'
+ *
+ * const { data: revisions } = await getCommentRevisions(commentId)
+ * ```
+ */
+export async function getCommentRevisions(commentId: string) {
+  const supabase = createBrowserClient()
+
+  const { data, error } = await supabase
+    .from("comment_revisions")
+    .select("*")
+    .eq("comment_id", commentId)
+    .order("created_at", { ascending: true })
+
+  if (error) {
+    console.error("Error fetching comment revisions:", error)
+    return { data: null, error }
+  }
+
+  return { data: data as CommentRevision[], error: null }
+}
+
+/**
+ * Delete a comment
+ *
+ * @param commentId - Comment ID
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { deleteComment } from '@/utils/supabase/queries'
+ *
+ * const { error } = await deleteComment(commentId)
+ * ```
+ */
+export async function deleteComment(commentId: string) {
+  const supabase = createBrowserClient()
+
+  const { error } = await supabase.from("comments").delete().eq("id", commentId)
+
+  if (error) {
+    console.error("Error deleting comment:", error)
+    return { error }
+  }
+
+  return { error: null }
+}
+
+/**
+ * Add an emoji reaction to a comment
+ *
+ * Reacting twice with the same emoji is a no-op.
+ *
+ * @param commentId - Comment ID
+ * @param userId - Reacting user
+ * @param emoji - Emoji, e.g. one of `COMMENT_REACTION_EMOJIS`
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { addCommentReaction } from '@/utils/supabase/queries'
+ *
+ * const { error } = await addCommentReaction(commentId, userId, '👍')
+ * ```
+ */
+export async function addCommentReaction(commentId: string, userId: string, emoji: string) {
+  const supabase = createBrowserClient()
+
+  const { error } = await supabase
+    .from("comment_reactions")
+    .upsert(
+      { comment_id: commentId, user_id: userId, emoji },
+      { onConflict: "comment_id,user_id,emoji", ignoreDuplicates: true }
+    )
+
+  if (error) {
+    console.error("Error adding comment reaction:", error)
+    return { error }
+  }
+
+  return { error: null }
+}
+
+/**
+ * Remove a user's emoji reaction from a comment
+ *
+ * @param commentId - Comment ID
+ * @param userId - Reacting user
+ * @param emoji - Emoji to remove
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { removeCommentReaction } from '@/utils/supabase/queries'
+ *
+ * const { error } = await removeCommentReaction(commentId, userId, '👍')
+ * ```
+ */
+export async function removeCommentReaction(commentId: string, userId: string, emoji: string) {
+  const supabase = createBrowserClient()
+
+  const { error } = await supabase
+    .from("comment_reactions")
+    .delete()
+    .eq("comment_id", commentId)
+    .eq("user_id", userId)
+    .eq("emoji", emoji)
+
+  if (error) {
+    console.error("Error removing comment reaction:", error)
+    return { error }
+  }
+
+  return { error: null }
+}
+
+// ============================================================================
+// SUBTASKS QUERIES
+// ============================================================================
+
+/**
+ * Get all subtasks for an issue ordered by rank
+ *
+ * @param issueId - Issue ID
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { getSubtasksByIssueId } from '@/utils/supabase/queries'
+ *
+ * const { data: subtasks } = await getSubtasksByIssueId(issueId)
+ * ```
+ */
+export async function getSubtasksByIssueId(issueId: string) {
+  const supabase = createBrowserClient()
+
+  const { data, error } = await supabase
+    .from("subtasks")
+    .select("*")
+    .eq("issue_id", issueId)
+    .order("order", { ascending: true })
+
+  if (error) {
+    console.error("Error fetching subtasks:", error)
+    return { data: null, error }
+  }
+
+  return { data, error: null }
+}
+
+/**
+ * Add a subtask to an issue
+ *
+ * @param issueId - Issue ID
+ * @param userId - User ID of the creator
+ * @param title - Subtask title
+ * @param order - LexoRank order string
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { addSubtask } from '@/utils/supabase/queries'
+ *
+ * const { data, error } = await addSubtask(issueId, userId, 'Write tests', order)
+ * ```
+ */
+export async function addSubtask(
+  issueId: string,
+  userId: string,
+  title: string,
+  order: string
+) {
+  const supabase = createBrowserClient()
+
+  const { data, error } = await supabase
+    .from("subtasks")
+    .insert({ issue_id: issueId, created_by: userId, title, order })
+    .select()
+    .single()
+
+  if (error) {
+    console.error("Error adding subtask:", error)
+    return { data: null, error }
+  }
+
+  return { data, error: null }
+}
+
+/**
+ * Update a subtask (title, completion or order)
+ *
+ * @param subtaskId - Subtask ID
+ * @param updates - Fields to update
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { updateSubtask } from '@/utils/supabase/queries'
+ *
+ * const { data, error } = await updateSubtask(subtaskId, { completed: true })
+ * ```
+ */
+export async function updateSubtask(
+  subtaskId: string,
+  updates: { title?: string; completed?: boolean; order?: string }
+) {
+  const supabase = createBrowserClient()
+
+  const { data, error } = await supabase
+    .from("subtasks")
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq("id", subtaskId)
+    .select()
+    .single()
+
+  if (error) {
+    console.error("Error updating subtask:", error)
+    return { data: null, error }
+  }
+
+  return { data, error: null }
+}
+
+/**
+ * Delete a subtask
+ *
+ * @param subtaskId - Subtask ID
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { deleteSubtask } from '@/utils/supabase/queries'
+ *
+ * const { error } = await deleteSubtask(subtaskId)
+ * ```
+ */
+export async function deleteSubtask(subtaskId: string) {
+  const supabase = createBrowserClient()
+
+  const { error } = await supabase.from("subtasks").delete().eq("id", subtaskId)
+
+  if (error) {
+    console.error("Error deleting subtask:", error)
+    return { error }
+  }
+
+  return { error: null }
+}
+
+// ============================================================================
+// LABELS QUERIES
+// ============================================================================
+
+/**
+ * Get the label catalog for a project
+ *
+ * @param projectId - Project ID
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { getProjectLabels } from '@/utils/supabase/queries'
+ *
+ * const { data: labels } = await getProjectLabels(projectId)
+ * ```
+ */
+export async function getProjectLabels(projectId: string) {
+  const supabase = createBrowserClient()
+
+  const { data, error } = await supabase
+    .from("labels")
+    .select("*")
+    .eq("project_id", projectId)
+    .order("name", { ascending: true })
+
+  if (error) {
+    console.error("Error fetching labels:", error)
+    return { data: null, error }
+  }
+
+  return { data, error: null }
+}
+
+/**
+ * Create a label in a project's catalog
+ *
+ * @param projectId - Project ID
+ * @param name - Label name (unique per project)
+ * @param color - Hex color
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { createLabel } from '@/utils/supabase/queries'
+ *
+ * const { data, error } = await createLabel(projectId, 'frontend', '#3b82f6')
+ * ```
+ */
+export async function createLabel(projectId: string, name: string, color: string) {
+  const supabase = createBrowserClient()
+
+  const { data, error } = await supabase
+    .from("labels")
+    .insert({ project_id: projectId, name, color })
+    .select()
+    .single()
+
+  if (error) {
+    console.error("Error creating label:", error)
+    return { data: null, error }
+  }
+
+  return { data, error: null }
+}
+
+/**
+ * Update a label's name or color
+ *
+ * @param labelId - Label ID
+ * @param updates - Fields to update
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { updateLabel } from '@/utils/supabase/queries'
+ *
+ * const { data, error } = await updateLabel(labelId, { color: '#ef4444' })
+ * ```
+ */
+export async function updateLabel(
+  labelId: string,
+  updates: { name?: string; color?: string }
+) {
+  const supabase = createBrowserClient()
+
+  const { data, error } = await supabase
+    .from("labels")
+    .update(updates)
+    .eq("id", labelId)
+    .select()
+    .single()
+
+  if (error) {
+    console.error("Error updating label:", error)
+    return { data: null, error }
+  }
+
+  return { data, error: null }
+}
+
+/**
+ * Delete a label (also removes it from every issue)
+ *
+ * @param labelId - Label ID
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { deleteLabel } from '@/utils/supabase/queries'
+ *
+ * const { error } = await deleteLabel(labelId)
+ * ```
+ */
+export async function deleteLabel(labelId: string) {
+  const supabase = createBrowserClient()
+
+  const { error } = await supabase.from("labels").delete().eq("id", labelId)
+
+  if (error) {
+    console.error("Error deleting label:", error)
+    return { error }
+  }
+
+  return { error: null }
+}
+
+/**
+ * Get the labels attached to an issue
+ *
+ * @param issueId - Issue ID
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { getIssueLabels } from '@/utils/supabase/queries'
+ *
+ * const { data: labels } = await getIssueLabels(issueId)
+ * ```
+ */
+export async function getIssueLabels(issueId: string) {
+  const supabase = createBrowserClient()
+
+  const { data, error } = await supabase
+    .from("issue_labels")
+    .select(
+      `
+      label:labels (
+        id,
+        name,
+        color
+      )
+    `
+    )
+    .eq("issue_id", issueId)
+
+  if (error) {
+    console.error("Error fetching issue labels:", error)
+    return { data: null, error }
+  }
+
+  return { data, error: null }
+}
+
+/**
+ * Replace the set of labels attached to an issue
+ *
+ * @param issueId - Issue ID
+ * @param labelIds - Label IDs the issue should have afterwards
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { setIssueLabels } from '@/utils/supabase/queries'
+ *
+ * const { error } = await setIssueLabels(issueId, [bugLabelId, uiLabelId])
+ * ```
+ */
+export async function setIssueLabels(issueId: string, labelIds: string[]) {
+  const supabase = createBrowserClient()
+
+  // Remove labels that are no longer selected
+  let deleteQuery = supabase.from("issue_labels").delete().eq("issue_id", issueId)
+  if (labelIds.length > 0) {
+    deleteQuery = deleteQuery.not("label_id", "in", `(${labelIds.join(",")})`)
+  }
+
+  const { error: deleteError } = await deleteQuery
+
+  if (deleteError) {
+    console.error("Error removing issue labels:", deleteError)
+    return { error: deleteError }
+  }
+
+  if (labelIds.length === 0) {
+    return { error: null }
+  }
+
+  // Add the new ones, keeping existing rows untouched
+  const { error } = await supabase.from("issue_labels").upsert(
+    labelIds.map((labelId) => ({ issue_id: issueId, label_id: labelId })),
+    { onConflict: "issue_id,label_id", ignoreDuplicates: true }
+  )
+
+  if (error) {
+    console.error("Error adding issue labels:", error)
+    return { error }
+  }
+
+  return { error: null }
+}
+
+// ============================================================================
+// CUSTOM FIELDS QUERIES
+// ============================================================================
+
+/**
+ * Get a project's custom field definitions in display order
+ *
+ * @param projectId - Project ID
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { getProjectCustomFields } from '@/utils/supabase/queries'
+ *
+ * const { data: fields } = await getProjectCustomFields(projectId)
+ * ```
+ */
+export async function getProjectCustomFields(projectId: string) {
+  const supabase = createBrowserClient()
+
+  const { data, error } = await supabase
+    .from("custom_fields")
+    .select("*")
+    .eq("project_id", projectId)
+    .order("order", { ascending: true })
+
+  if (error) {
+    console.error("Error fetching custom fields:", error)
+    return { data: null, error }
+  }
+
+  return { data: data as CustomField[], error: null }
+}
+
+/**
+ * Define a custom field for a project
+ *
+ * New fields are appended after the existing ones.
+ *
+ * @param input - Field name, type, select options and whether it is required
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { createCustomField } from '@/utils/supabase/queries'
+ *
+ * const { data, error } = await createCustomField({
+ *   project_id: projectId,
+ *   name: 'Environment',
+ *   field_type: 'select',
+ *   options: ['dev', 'staging', 'production'],
+ * })
+ * ```
+ */
+export async function createCustomField(input: CreateCustomFieldInput) {
+  const supabase = createBrowserClient()
+
+  const { data: last } = await supabase
+    .from("custom_fields")
+    .select("order")
+    .eq("project_id", input.project_id)
+    .order("order", { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  const { data, error } = await supabase
+    .from("custom_fields")
+    .insert({
+      project_id: input.project_id,
+      name: input.name,
+      field_type: input.field_type,
+      options: input.field_type === "select" ? input.options ?? [] : [],
+      required: input.required ?? false,
+      order: (last?.order ?? -1) + 1,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error("Error creating custom field:", error)
+    return { data: null, error }
+  }
+
+  return { data: data as CustomField, error: null }
+}
+
+/**
+ * Update a custom field's name, options, required flag or position
+ *
+ * The field type cannot change once values have been stored.
+ *
+ * @param fieldId - Custom field ID
+ * @param updates - Fields to update
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { updateCustomField } from '@/utils/supabase/queries'
+ *
+ * const { data, error } = await updateCustomField(fieldId, { required: true })
+ * ```
+ */
+export async function updateCustomField(fieldId: string, updates: UpdateCustomFieldInput) {
+  const supabase = createBrowserClient()
+
+  const { data, error } = await supabase
+    .from("custom_fields")
+    .update(updates)
+    .eq("id", fieldId)
+    .select()
+    .single()
+
+  if (error) {
+    console.error("Error updating custom field:", error)
+    return { data: null, error }
+  }
+
+  return { data: data as CustomField, error: null }
+}
+
+/**
+ * Delete a custom field together with its stored values
+ *
+ * @param fieldId - Custom field ID
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { deleteCustomField } from '@/utils/supabase/queries'
+ *
+ * const { error } = await deleteCustomField(fieldId)
+ * ```
+ */
+export async function deleteCustomField(fieldId: string) {
+  const supabase = createBrowserClient()
+
+  const { error } = await supabase.from("custom_fields").delete().eq("id", fieldId)
+
+  if (error) {
+    console.error("Error deleting custom field:", error)
+    return { error }
+  }
+
+  return { error: null }
+}
+
+/**
+ * Get the custom field values stored for an issue
+ *
+ * @param issueId - Issue ID
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { getIssueCustomValues } from '@/utils/supabase/queries'
+ *
+ * const { data: values } = await getIssueCustomValues(issueId)
+ * ```
+ */
+export async function getIssueCustomValues(issueId: string) {
+  const supabase = createBrowserClient()
+
+  const { data, error } = await supabase
+    .from("issue_custom_values")
+    .select("field_id, value")
+    .eq("issue_id", issueId)
+
+  if (error) {
+    console.error("Error fetching custom field values:", error)
+    return { data: null, error }
+  }
+
+  return {
+    data: data as Pick<IssueCustomValue, "field_id" | "value">[],
+    error: null,
+  }
+}
+
+/**
+ * Store custom field values on an issue
+ *
+ * Values are upserted per field; null values are deleted instead.
+ *
+ * @param issueId - Issue ID
+ * @param values - Values keyed by custom field ID
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { setIssueCustomValues } from '@/utils/supabase/queries'
+ *
+ * const { error } = await setIssueCustomValues(issueId, { [fieldId]: 'production' })
+ * ```
+ */
+export async function setIssueCustomValues(
+  issueId: string,
+  values: Record<string, CustomFieldValue>
+) {
+  const supabase = createBrowserClient()
+  const entries = Object.entries(values)
+
+  const cleared = entries.filter(([, value]) => value === null).map(([fieldId]) => fieldId)
+  const stored = entries
+    .filter(([, value]) => value !== null)
+    .map(([fieldId, value]) => ({
+      issue_id: issueId,
+      field_id: fieldId,
+      value,
+      updated_at: new Date().toISOString(),
+    }))
+
+  if (cleared.length > 0) {
+    const { error } = await supabase
+      .from("issue_custom_values")
+      .delete()
+      .eq("issue_id", issueId)
+      .in("field_id", cleared)
+
+    if (error) {
+      console.error("Error clearing custom field values:", error)
+      return { error }
+    }
+  }
+
+  if (stored.length > 0) {
+    const { error } = await supabase
+      .from("issue_custom_values")
+      .upsert(stored, { onConflict: "issue_id,field_id" })
+
+    if (error) {
+      console.error("Error saving custom field values:", error)
+      return { error }
+    }
+  }
+
+  return { error: null }
+}
+
+// ============================================================================
+// ISSUE LINKS QUERIES
+// ============================================================================
+
+/**
+ * Get all links of an issue in either direction
+ *
+ * @param issueId - Issue ID
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { getIssueLinks } from '@/utils/supabase/queries'
+ *
+ * const { data: links } = await getIssueLinks(issueId)
+ * ```
+ */
+export async function getIssueLinks(issueId: string) {
+  const supabase = createBrowserClient()
+
+  const { data, error } = await supabase
+    .from("issue_links")
+    .select(
+      `
+      *,
+      source:issues!issue_links_source_issue_id_fkey (
+        id,
+        number,
+        title,
+        status:statuses (
+          name,
+          color
+        ),
+        project:projects (
+          key
+        )
+      ),
+      target:issues!issue_links_target_issue_id_fkey (
+        id,
+        number,
+        title,
+        status:statuses (
+          name,
+          color
+        ),
+        project:projects (
+          key
+        )
+      )
+    `
+    )
+    .or(`source_issue_id.eq.${issueId},target_issue_id.eq.${issueId}`)
+    .order("created_at", { ascending: true })
+
+  if (error) {
+    console.error("Error fetching issue links:", error)
+    return { data: null, error }
+  }
+
+  return { data: data as IssueLinkWithIssues[], error: null }
+}
+
+/**
+ * Link two issues
+ *
+ * @param sourceIssueId - Issue the link points from (e.g. the blocker)
+ * @param targetIssueId - Issue the link points to (e.g. the blocked issue)
+ * @param linkType - Link type
+ * @param userId - User creating the link
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { createIssueLink } from '@/utils/supabase/queries'
+ *
+ * const { data, error } = await createIssueLink(blockerId, issueId, 'blocks', userId)
+ * ```
+ */
+export async function createIssueLink(
+  sourceIssueId: string,
+  targetIssueId: string,
+  linkType: IssueLinkType,
+  userId: string
+) {
+  const supabase = createBrowserClient()
+
+  const { data, error } = await supabase
+    .from("issue_links")
+    .insert({
+      source_issue_id: sourceIssueId,
+      target_issue_id: targetIssueId,
+      link_type: linkType,
+      created_by: userId,
+    })
+    .select(
+      `
+      *,
+      source:issues!issue_links_source_issue_id_fkey (
+        id,
+        number,
+        title,
+        status:statuses (
+          name,
+          color
+        ),
+        project:projects (
+          key
+        )
+      ),
+      target:issues!issue_links_target_issue_id_fkey (
+        id,
+        number,
+        title,
+        status:statuses (
+          name,
+          color
+        ),
+        project:projects (
+          key
+        )
+      )
+    `
+    )
+    .single()
+
+  if (error) {
+    console.error("Error creating issue link:", error)
+    return { data: null, error }
+  }
+
+  return { data: data as IssueLinkWithIssues, error: null }
+}
+
+/**
+ * Remove a link between two issues
+ *
+ * @param linkId - Link ID
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { deleteIssueLink } from '@/utils/supabase/queries'
+ *
+ * const { error } = await deleteIssueLink(linkId)
+ * ```
+ */
+export async function deleteIssueLink(linkId: string) {
+  const supabase = createBrowserClient()
+
+  const { error } = await supabase.from("issue_links").delete().eq("id", linkId)
+
+  if (error) {
+    console.error("Error deleting issue link:", error)
+    return { error }
+  }
+
+  return { error: null }
+}
+
+// ============================================================================
+// WORKLOGS QUERIES
+// ============================================================================
+
+/**
+ * Get all work logged on an issue, most recent first
+ *
+ * @param issueId - Issue ID
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { getWorklogsByIssueId } from '@/utils/supabase/queries'
+ *
+ * const { data: worklogs } = await getWorklogsByIssueId(issueId)
+ * ```
+ */
+export async function getWorklogsByIssueId(issueId: string) {
+  const supabase = createBrowserClient()
+
+  const { data, error } = await supabase
+    .from("worklogs")
+    .select(
+      `
+      *,
+      user:users (
+        id,
+        display_name,
+        avatar_url
+      )
+    `
+    )
+    .eq("issue_id", issueId)
+    .order("work_date", { ascending: false })
+    .order("created_at", { ascending: false })
+
+  if (error) {
+    console.error("Error fetching worklogs:", error)
+    return { data: null, error }
+  }
+
+  return { data: data as WorklogWithUser[], error: null }
+}
+
+/**
+ * Log work on an issue
+ *
+ * @param issueId - Issue ID
+ * @param userId - User who did the work
+ * @param hours - Hours spent
+ * @param workDate - Day the work was done (YYYY-MM-DD)
+ * @param note - Optional description of the work
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { addWorklog } from '@/utils/supabase/queries'
+ *
+ * const { data, error } = await addWorklog(issueId, userId, 1.5, '2024-03-14', 'Code review')
+ * ```
+ */
+export async function addWorklog(
+  issueId: string,
+  userId: string,
+  hours: number,
+  workDate: string,
+  note?: string
+) {
+  const supabase = createBrowserClient()
+
+  const { data, error } = await supabase
+    .from("worklogs")
+    .insert({
+      issue_id: issueId,
+      user_id: userId,
+      hours,
+      work_date: workDate,
+      note: note || null,
+    })
+    .select(
+      `
+      *,
+      user:users (
+        id,
+        display_name,
+        avatar_url
+      )
+    `
+    )
+    .single()
+
+  if (error) {
+    console.error("Error adding worklog:", error)
+    return { data: null, error }
+  }
+
+  return { data: data as WorklogWithUser, error: null }
+}
+
+/**
+ * Delete a worklog
+ *
+ * @param worklogId - Worklog ID
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { deleteWorklog } from '@/utils/supabase/queries'
+ *
+ * const { error } = await deleteWorklog(worklogId)
+ * ```
+ */
+export async function deleteWorklog(worklogId: string) {
+  const supabase = createBrowserClient()
+
+  const { error } = await supabase.from("worklogs").delete().eq("id", worklogId)
+
+  if (error) {
+    console.error("Error deleting worklog:", error)
+    return { error }
+  }
+
+  return { error: null }
+}
+
+/**
+ * Get a user's work logged between two dates, with issue and project
+ *
+ * @param userId - User ID
+ * @param from - First day, inclusive (YYYY-MM-DD)
+ * @param to - Last day, inclusive (YYYY-MM-DD)
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { getUserWorklogs } from '@/utils/supabase/queries'
+ *
+ * const { data: worklogs } = await getUserWorklogs(userId, '2024-03-11', '2024-03-17')
+ * ```
+ */
+export async function getUserWorklogs(userId: string, from: string, to: string) {
+  const supabase = createBrowserClient()
+
+  const { data, error } = await supabase
+    .from("worklogs")
+    .select(
+      `
+      *,
+      issue:issues (
+        id,
+        number,
+        title,
+        project:projects (
+          id,
+          name,
+          key
+        )
+      )
+    `
+    )
+    .eq("user_id", userId)
+    .gte("work_date", from)
+    .lte("work_date", to)
+    .order("work_date", { ascending: true })
+
+  if (error) {
+    console.error("Error fetching user worklogs:", error)
+    return { data: null, error }
+  }
+
+  return { data: data as WorklogWithIssue[], error: null }
+}
+
+// ============================================================================
+// ATTACHMENTS QUERIES
+// ============================================================================
+
+/**
+ * Get all files attached to an issue, newest first
+ *
+ * @param issueId - Issue ID
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { getIssueAttachments } from '@/utils/supabase/queries'
+ *
+ * const { data: attachments } = await getIssueAttachments(issueId)
+ * ```
+ */
+export async function getIssueAttachments(issueId: string) {
+  const supabase = createBrowserClient()
+
+  const { data, error } = await supabase
+    .from("attachments")
+    .select(
+      `
+      *,
+      user:users (
+        id,
+        display_name,
+        avatar_url
+      )
+    `
+    )
+    .eq("issue_id", issueId)
+    .order("created_at", { ascending: false })
+
+  if (error) {
+    console.error("Error fetching attachments:", error)
+    return { data: null, error }
+  }
+
+  return withSignedUrls(data as Omit<AttachmentWithUser, "url">[])
+}
+
+// Files live in a private bucket, so each listing signs fresh URLs
+async function withSignedUrls(attachments: Omit<AttachmentWithUser, "url">[]) {
+  if (attachments.length === 0) {
+    return { data: [] as AttachmentWithUser[], error: null }
+  }
+
+  const supabase = createBrowserClient()
+
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .createSignedUrls(
+      attachments.map((attachment) => attachment.file_url),
+      ATTACHMENT_URL_EXPIRES_IN
+    )
+
+  if (error) {
+    console.error("Error signing attachment URLs:", error)
+    return { data: null, error }
+  }
+
+  return {
+    data: attachments.map((attachment, index) => ({
+      ...attachment,
+      url: data[index]?.signedUrl ?? "",
+    })) as AttachmentWithUser[],
+    error: null,
+  }
+}
+
+/**
+ * Upload a file to the attachments bucket and record it on an issue
+ *
+ * The row records the object path; the returned attachment carries a
+ * signed URL. The stored object is removed again if the row cannot be
+ * inserted.
+ * Validate the file with `validateAttachment` first.
+ *
+ * @param issueId - Issue ID
+ * @param userId - Uploading user
+ * @param file - File to upload
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { uploadAttachment } from '@/utils/supabase/queries'
+ *
+ * const { data: attachment, error } = await uploadAttachment(issueId, userId, file)
+ * ```
+ */
+export async function uploadAttachment(issueId: string, userId: string, file: File) {
+  const supabase = createBrowserClient()
+  const path = getAttachmentPath(issueId, file.name)
+
+  const { error: uploadError } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .upload(path, file, {
+      cacheControl: "3600",
+      contentType: file.type,
+    })
+
+  if (uploadError) {
+    console.error("Error uploading attachment:", uploadError)
+    return { data: null, error: uploadError }
+  }
+
+  const input: CreateAttachmentInput = {
+    issue_id: issueId,
+    filename: file.name,
+    file_url: path,
+    file_size: file.size,
+    mime_type: file.type,
+  }
+
+  const { data, error } = await supabase
+    .from("attachments")
+    .insert({ ...input, user_id: userId })
+    .select(
+      `
+      *,
+      user:users (
+        id,
+        display_name,
+        avatar_url
+      )
+    `
+    )
+    .single()
+
+  if (error) {
+    console.error("Error recording attachment:", error)
+    await supabase.storage.from(ATTACHMENTS_BUCKET).remove([path])
+    return { data: null, error }
+  }
+
+  // The file is recorded either way; without a URL it links again on the next load
+  const { data: signed } = await withSignedUrls([data as Omit<AttachmentWithUser, "url">])
+
+  return { data: signed?.[0] ?? ({ ...data, url: "" } as AttachmentWithUser), error: null }
+}
+
+/**
+ * Delete an attachment and its stored file
+ *
+ * @param attachment - Attachment to delete
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { deleteAttachment } from '@/utils/supabase/queries'
+ *
+ * const { error } = await deleteAttachment(attachment)
+ * ```
+ */
+export async function deleteAttachment(attachment: Pick<AttachmentWithUser, "id" | "file_url">) {
+  const supabase = createBrowserClient()
+
+  const { error } = await supabase.from("attachments").delete().eq("id", attachment.id)
+
+  if (error) {
+    console.error("Error deleting attachment:", error)
+    return { error }
+  }
+
+  const { error: storageError } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .remove([attachment.file_url])
+
+  // The row is gone either way; an orphaned object is only logged
+  if (storageError) {
+    console.error("Error removing attachment file:", storageError)
+  }
+
+  return { error: null }
+}
+
+// ============================================================================
+// SPRINTS QUERIES
+// ============================================================================
+
+/**
+ * Get all sprints of a project, oldest first
+ *
+ * A project has at most one `active` sprint at a time. Issues join a
+ * sprint through `issues.sprint_id`; issues without one are in the backlog.
+ *
+ * @param projectId - Project ID
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { getProjectSprints } from '@/utils/supabase/queries'
+ *
+ * const { data: sprints } = await getProjectSprints(projectId)
+ * ```
+ */
+export async function getProjectSprints(projectId: string) {
+  const supabase = createBrowserClient()
+
+  const { data, error } = await supabase
+    .from("sprints")
+    .select("*")
+    .eq("project_id", projectId)
+    .order("created_at", { ascending: true })
+
+  if (error) {
+    console.error("Error fetching sprints:", error)
+    return { data: null, error }
+  }
+
+  return { data: data as Sprint[], error: null }
+}
+
+/**
+ * Create a planned sprint
+ *
+ * @param input - Sprint name, goal and dates
+ * @param userId - User creating the sprint
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { createSprint } from '@/utils/supabase/queries'
+ *
+ * const { data, error } = await createSprint(
+ *   { project_id: projectId, name: 'Sprint 1', goal: 'Ship login' },
+ *   userId
+ * )
+ * ```
+ */
+export async function createSprint(input: CreateSprintInput, userId: string) {
+  const supabase = createBrowserClient()
+
+  const { data, error } = await supabase
+    .from("sprints")
+    .insert({
+      project_id: input.project_id,
+      name: input.name,
+      goal: input.goal || null,
+      start_date: input.start_date || null,
+      end_date: input.end_date || null,
+      created_by: userId,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error("Error creating sprint:", error)
+    return { data: null, error }
+  }
+
+  return { data: data as Sprint, error: null }
+}
+
+/**
+ * Update a sprint's name, goal or dates
+ *
+ * @param sprintId - Sprint ID
+ * @param updates - Fields to update
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { updateSprint } from '@/utils/supabase/queries'
+ *
+ * const { data, error } = await updateSprint(sprintId, { goal: 'Ship signup' })
+ * ```
+ */
+export async function updateSprint(sprintId: string, updates: UpdateSprintInput) {
+  const supabase = createBrowserClient()
+
+  const { data, error } = await supabase
+    .from("sprints")
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq("id", sprintId)
+    .select()
+    .single()
+
+  if (error) {
+    console.error("Error updating sprint:", error)
+    return { data: null, error }
+  }
+
+  return { data: data as Sprint, error: null }
+}
+
+/**
+ * Delete a planned sprint; its issues return to the backlog
+ *
+ * @param sprintId - Sprint ID
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { deleteSprint } from '@/utils/supabase/queries'
+ *
+ * const { error } = await deleteSprint(sprintId)
+ * ```
+ */
+export async function deleteSprint(sprintId: string) {
+  const supabase = createBrowserClient()
+
+  const { error: issuesError } = await supabase
+    .from("issues")
+    .update({ sprint_id: null })
+    .eq("sprint_id", sprintId)
+
+  if (issuesError) {
+    console.error("Error moving sprint issues to backlog:", issuesError)
+    return { error: issuesError }
+  }
+
+  const { error } = await supabase.from("sprints").delete().eq("id", sprintId)
+
+  if (error) {
+    console.error("Error deleting sprint:", error)
+    return { error }
+  }
+
+  return { error: null }
+}
+
+/**
+ * Start a planned sprint
+ *
+ * Fails when the project already has an active sprint. The start date
+ * defaults to today when the sprint has none.
+ *
+ * @param sprintId - Sprint ID
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { startSprint } from '@/utils/supabase/queries'
+ *
+ * const { data, error } = await startSprint(sprintId)
+ * ```
+ */
+export async function startSprint(sprintId: string) {
+  const supabase = createBrowserClient()
+
+  const { data: sprint, error: sprintError } = await supabase
+    .from("sprints")
+    .select("*")
+    .eq("id", sprintId)
+    .single()
+
+  if (sprintError) {
+    console.error("Error fetching sprint:", sprintError)
+    return { data: null, error: sprintError }
+  }
+
+  const { data: active, error: activeError } = await supabase
+    .from("sprints")
+    .select("id")
+    .eq("project_id", sprint.project_id)
+    .eq("state", "active")
+    .limit(1)
+
+  if (activeError) {
+    console.error("Error checking active sprint:", activeError)
+    return { data: null, error: activeError }
+  }
+
+  if (active && active.length > 0) {
+    const error = new Error("이미 진행 중인 스프린트가 있습니다")
+    console.error("Error starting sprint:", error)
+    return { data: null, error }
+  }
+
+  const { data, error } = await supabase
+    .from("sprints")
+    .update({
+      state: "active",
+      start_date: sprint.start_date ?? new Date().toISOString().slice(0, 10),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", sprintId)
+    .select()
+    .single()
+
+  if (error) {
+    // Another sprint was started since the check above
+    if (error.code === "23505") {
+      const activeError = new Error("이미 진행 중인 스프린트가 있습니다")
+      console.error("Error starting sprint:", activeError)
+      return { data: null, error: activeError }
+    }
+    console.error("Error starting sprint:", error)
+    return { data: null, error }
+  }
+
+  return { data: data as Sprint, error: null }
+}
+
+/**
+ * Complete the active sprint
+ *
+ * Issues in a done-like status stay with the sprint; unfinished issues move
+ * to `moveToSprintId`, or to the backlog when it is null. The completed and
+ * incomplete issue counts are recorded on the sprint as its summary.
+ *
+ * @param sprintId - Sprint ID
+ * @param moveToSprintId - Planned sprint for unfinished issues, or null for the backlog
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { completeSprint } from '@/utils/supabase/queries'
+ *
+ * const { data, error } = await completeSprint(sprintId, nextSprintId)
+ * // data.completed_issue_count, data.incomplete_issue_count
+ * ```
+ */
+export async function completeSprint(sprintId: string, moveToSprintId: string | null) {
+  const supabase = createBrowserClient()
+
+  const { data: issues, error: issuesError } = await supabase
+    .from("issues")
+    .select("id, status:statuses ( name )")
+    .eq("sprint_id", sprintId)
+
+  if (issuesError) {
+    console.error("Error fetching sprint issues:", issuesError)
+    return { data: null, error: issuesError }
+  }
+
+  const unfinishedIds = (issues as unknown as { id: string; status: { name: string } }[])
+    .filter((issue) => !isDoneStatus(issue.status.name))
+    .map((issue) => issue.id)
+
+  // Moving the issues and closing the sprint happen in one transaction
+  const { data, error } = await supabase.rpc("complete_sprint", {
+    p_sprint_id: sprintId,
+    p_move_to_sprint_id: moveToSprintId,
+    p_unfinished_issue_ids: unfinishedIds,
+  })
+
+  if (error) {
+    console.error("Error completing sprint:", error)
+    return { data: null, error }
+  }
+
+  return { data: data as Sprint, error: null }
+}
+
+// ============================================================================
+// SAVED VIEWS QUERIES
+// ============================================================================
+
+// Stored JSON is validated so views saved by older versions still load
+function toSavedView(row: Omit<SavedView, "view"> & { view: unknown }): SavedView {
+  return { ...row, view: normalizeBoardView(row.view) }
+}
+
+/**
+ * Get the saved views a user can pick on a project's board
+ *
+ * Returns the user's own views and views shared with the project,
+ * ordered by name. Without a user only shared views are returned.
+ *
+ * @param projectId - Project ID
+ * @param userId - Current user ID
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { getSavedViews } from '@/utils/supabase/queries'
+ *
+ * const { data: views, error } = await getSavedViews(projectId, userId)
+ * ```
+ */
+export async function getSavedViews(projectId: string, userId?: string) {
+  const supabase = createBrowserClient()
+
+  let query = supabase.from("saved_views").select("*").eq("project_id", projectId)
+  query = userId ? query.or(`shared.eq.true,owner_id.eq.${userId}`) : query.eq("shared", true)
+
+  const { data, error } = await query.order("name", { ascending: true })
+
+  if (error) {
+    console.error("Error fetching saved views:", error)
+    return { data: null, error }
+  }
+
+  return { data: data.map(toSavedView), error: null }
+}
+
+/**
+ * Save a board view
+ *
+ * @param input - Project, name, whether it is shared, and the view itself
+ * @param ownerId - User saving the view
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { createSavedView } from '@/utils/supabase/queries'
+ *
+ * const { data, error } = await createSavedView(
+ *   { project_id: projectId, name: 'My bugs', shared: false, view },
+ *   userId
+ * )
+ * ```
+ */
+export async function createSavedView(input: CreateSavedViewInput, ownerId: string) {
+  const supabase = createBrowserClient()
+
+  const { data, error } = await supabase
+    .from("saved_views")
+    .insert({
+      project_id: input.project_id,
+      owner_id: ownerId,
+      name: input.name,
+      shared: input.shared ?? false,
+      view: input.view,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error("Error creating saved view:", error)
+    return { data: null, error }
+  }
+
+  return { data: toSavedView(data), error: null }
+}
+
+/**
+ * Rename, share or overwrite a saved view
+ *
+ * Only the owner can update a view (enforced by RLS).
+ *
+ * @param viewId - Saved view ID
+ * @param updates - Fields to update
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { updateSavedView } from '@/utils/supabase/queries'
+ *
+ * const { data, error } = await updateSavedView(viewId, { view: currentView })
+ * ```
+ */
+export async function updateSavedView(viewId: string, updates: UpdateSavedViewInput) {
+  const supabase = createBrowserClient()
+
+  const { data, error } = await supabase
+    .from("saved_views")
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq("id", viewId)
+    .select()
+    .single()
+
+  if (error) {
+    console.error("Error updating saved view:", error)
+    return { data: null, error }
+  }
+
+  return { data: toSavedView(data), error: null }
+}
+
+/**
+ * Delete a saved view
+ *
+ * A project using it as its default falls back to the built-in view
+ * (`default_view_id` is set to null on delete).
+ *
+ * @param viewId - Saved view ID
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { deleteSavedView } from '@/utils/supabase/queries'
+ *
+ * const { error } = await deleteSavedView(viewId)
+ * ```
+ */
+export async function deleteSavedView(viewId: string) {
+  const supabase = createBrowserClient()
+
+  const { error } = await supabase.from("saved_views").delete().eq("id", viewId)
+
+  if (error) {
+    console.error("Error deleting saved view:", error)
+    return { error }
+  }
+
+  return { error: null }
+}
+
+/**
+ * Get the view a project's board opens with
+ *
+ * @param projectId - Project ID
+ * @returns The default saved view ID, or null for the built-in view
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { getProjectDefaultViewId } from '@/utils/supabase/queries'
+ *
+ * const { data: defaultViewId } = await getProjectDefaultViewId(projectId)
+ * ```
+ */
+export async function getProjectDefaultViewId(projectId: string) {
+  const supabase = createBrowserClient()
+
+  const { data, error } = await supabase
+    .from("projects")
+    .select("default_view_id")
+    .eq("id", projectId)
+    .single()
+
+  if (error) {
+    console.error("Error fetching default view:", error)
+    return { data: null, error }
+  }
+
+  return { data: data.default_view_id as string | null, error: null }
+}
+
+/**
+ * Set the view a project's board opens with
+ *
+ * The view should be shared, otherwise other members fall back to the
+ * built-in view.
+ *
+ * @param projectId - Project ID
+ * @param viewId - Saved view ID, or null for the built-in view
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { setProjectDefaultView } from '@/utils/supabase/queries'
+ *
+ * const { error } = await setProjectDefaultView(projectId, viewId)
+ * ```
+ */
+export async function setProjectDefaultView(projectId: string, viewId: string | null) {
+  const supabase = createBrowserClient()
+
+  const { error } = await supabase
+    .from("projects")
+    .update({ default_view_id: viewId })
+    .eq("id", projectId)
+
+  if (error) {
+    console.error("Error setting default view:", error)
+    return { error }
+  }
+
+  return { error: null }
+}
+
+// ============================================================================
+// WATCHERS QUERIES
+// ============================================================================
+
+// Human-readable names for issue columns mentioned in update notifications
+const WATCHED_FIELD_LABELS: Record<string, string> = {
+  title: "제목",
+  description: "설명",
+  status_id: "상태",
+  priority: "우선순위",
+  type: "유형",
+  assignee_id: "담당자",
+  parent_id: "상위 에픽",
+  start_date: "시작일",
+  due_date: "마감일",
+  original_estimate_hours: "예상 시간",
+  sprint_id: "스프린트",
+}
+
+/**
+ * Get the users watching an issue
  *
- * @param projectId - Project ID
- * @param options - Query options (serverSide: true for Server Components)
+ * @param issueId - Issue ID
  *
- * @example Server Component
+ * @example
  * ```tsx
- * const { data: issuesByStatus } = await getIssuesByStatusId(projectId, { serverSide: true })
- * ```
+ * 'use client'
  *
- * @example Client Component
- * ```tsx
- * const { data: issuesByStatus } = await getIssuesByStatusId(projectId)
+ * import { getIssueWatchers } from '@/utils/supabase/queries'
+ *
+ * const { data: watchers } = await getIssueWatchers(issueId)
  * ```
  */
-export async function getIssuesByStatusId(
-  projectId: string,
-  
-) {
+export async function getIssueWatchers(issueId: string) {
   const supabase = createBrowserClient()
 
-  const { data: issues, error } = await supabase
-    .from("issues")
+  const { data, error } = await supabase
+    .from("issue_watchers")
     .select(
       `
       *,
-      status:statuses (
-        id,
-        name,
-        color,
-        order
-      ),
-      assignee:users!issues_assignee_id_fkey (
-        id,
-        display_name,
-        avatar_url
-      ),
-      reporter:users!issues_reporter_id_fkey (
+      user:users (
         id,
         display_name,
         avatar_url
       )
     `
     )
-    .eq("project_id", projectId)
-    .order("order", { ascending: true })
+    .eq("issue_id", issueId)
+    .order("created_at", { ascending: true })
 
   if (error) {
-    console.error("Error fetching issues by status:", error)
+    console.error("Error fetching issue watchers:", error)
     return { data: null, error }
   }
 
-  // Group issues by status
-  const grouped =
-    issues?.reduce(
-      (acc, issue) => {
-        const statusId = issue.status_id
-        if (!acc[statusId]) {
-          acc[statusId] = []
-        }
-        acc[statusId].push(issue)
-        return acc
-      },
-      {} as Record<string, typeof issues>
-    ) || {}
-
-  return { data: grouped, error: null }
+  return { data: data as IssueWatcherWithUser[], error: null }
 }
 
 /**
- * Move issue to different status
+ * Add users as watchers of an issue
+ *
+ * Users who already watch the issue are left as they are, so this is
+ * safe to call whenever someone becomes involved with an issue.
  *
  * @param issueId - Issue ID
- * @param statusId - New status ID
- * @param order - New order position
+ * @param userIds - Users to add; empty entries (e.g. no assignee) are skipped
  *
  * @example
  * ```tsx
  * 'use client'
  *
- * import { moveIssue } from '@/utils/supabase/queries'
+ * import { addIssueWatchers } from '@/utils/supabase/queries'
  *
- * const { data, error } = await moveIssue(issueId, newStatusId, newOrder)
+ * const { error } = await addIssueWatchers(issueId, [reporterId, assigneeId])
  * ```
  */
-export async function moveIssue(
+export async function addIssueWatchers(
   issueId: string,
-  statusId: string,
-  order: string
+  userIds: (string | null | undefined)[]
 ) {
   const supabase = createBrowserClient()
+  const uniqueIds = Array.from(
+    new Set(userIds.filter((userId): userId is string => !!userId))
+  )
 
-  const { data, error } = await supabase
-    .from("issues")
-    .update({ status_id: statusId, order })
-    .eq("id", issueId)
-    .select()
+  if (uniqueIds.length === 0) return { error: null }
+
+  const { error } = await supabase
+    .from("issue_watchers")
+    .upsert(
+      uniqueIds.map((userId) => ({ issue_id: issueId, user_id: userId })),
+      { onConflict: "issue_id,user_id", ignoreDuplicates: true }
+    )
 
   if (error) {
-    console.error("Error moving issue:", error)
-    return { data: null, error }
+    console.error("Error adding issue watchers:", error)
+    return { error }
   }
 
-  return { data, error: null }
+  return { error: null }
 }
 
 /**
- * Update issue order within same status
+ * Stop watching an issue
  *
  * @param issueId - Issue ID
- * @param order - New order position
+ * @param userId - Watching user
  *
  * @example
  * ```tsx
  * 'use client'
  *
- * import { updateIssueOrder } from '@/utils/supabase/queries'
+ * import { removeIssueWatcher } from '@/utils/supabase/queries'
  *
- * const { data, error } = await updateIssueOrder(issueId, newOrder)
+ * const { error } = await removeIssueWatcher(issueId, userId)
  * ```
  */
-export async function updateIssueOrder(issueId: string, order: string) {
+export async function removeIssueWatcher(issueId: string, userId: string) {
   const supabase = createBrowserClient()
 
-  const { data, error } = await supabase
-    .from("issues")
-    .update({ order })
-    .eq("id", issueId)
-    .select()
+  const { error } = await supabase
+    .from("issue_watchers")
+    .delete()
+    .eq("issue_id", issueId)
+    .eq("user_id", userId)
 
   if (error) {
-    console.error("Error updating issue order:", error)
-    return { data: null, error }
+    console.error("Error removing issue watcher:", error)
+    return { error }
   }
 
-  return { data, error: null }
+  return { error: null }
 }
 
-// ============================================================================
-// COMMENTS QUERIES
-// ============================================================================
+// Issue key and actor name used in notification messages
+async function getNotificationContext(issueId: string, actorId?: string) {
+  const supabase = createBrowserClient()
+
+  if (!actorId) {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+    actorId = user?.id
+  }
+
+  const [{ data: issue }, { data: actor }] = await Promise.all([
+    supabase
+      .from("issues")
+      .select("number, project:projects ( key )")
+      .eq("id", issueId)
+      .single(),
+    actorId
+      ? supabase.from("users").select("display_name").eq("id", actorId).single()
+      : Promise.resolve({ data: null }),
+  ])
+
+  const project = issue?.project as unknown as { key: string } | null
+
+  return {
+    actorId,
+    actorName: (actor?.display_name as string | undefined) ?? "누군가",
+    issueKey: issue && project ? formatIssueKey(project.key, issue.number) : "이슈",
+  }
+}
 
 /**
- * Get all comments for an issue (Isomorphic)
+ * Notify every watcher of an issue except the actor
+ *
+ * `issue_commented` announces a new comment; `issue_updated` lists the
+ * changed fields and is skipped when none of them is user-visible
+ * (e.g. a rank-only reorder).
  *
  * @param issueId - Issue ID
- * @param options - Query options (serverSide: true for Server Components)
+ * @param type - Notification type
+ * @param changedFields - Updated issue columns, for `issue_updated`
+ * @param actorId - User who acted; defaults to the signed-in user
+ * @param excludeUserIds - Watchers notified some other way, e.g. mentioned users
  *
- * @example Server Component
+ * @example
  * ```tsx
- * const { data: comments } = await getCommentsByIssueId(issueId, { serverSide: true })
- * ```
+ * 'use client'
  *
- * @example Client Component
- * ```tsx
- * const { data: comments } = await getCommentsByIssueId(issueId)
+ * import { notifyWatchers } from '@/utils/supabase/queries'
+ *
+ * await notifyWatchers(issueId, 'issue_updated', ['status_id'])
+ * await notifyWatchers(issueId, 'issue_commented', [], userId)
  * ```
  */
-export async function getCommentsByIssueId(
+export async function notifyWatchers(
   issueId: string,
-  
+  type: Extract<NotificationType, "issue_commented" | "issue_updated">,
+  changedFields: string[] = [],
+  actorId?: string,
+  excludeUserIds: string[] = []
 ) {
   const supabase = createBrowserClient()
 
-  const { data, error } = await supabase
-    .from("comments")
-    .select(
-      `
-      *,
-      user:users (
-        id,
-        display_name,
-        avatar_url
-      )
-    `
-    )
-    .eq("issue_id", issueId)
-    .order("created_at", { ascending: true })
+  const fieldNames = changedFields
+    .map((field) => WATCHED_FIELD_LABELS[field])
+    .filter(Boolean)
+  if (type === "issue_updated" && fieldNames.length === 0) return { error: null }
+
+  const [{ data: watchers, error: watchersError }, context] = await Promise.all([
+    supabase.from("issue_watchers").select("user_id").eq("issue_id", issueId),
+    getNotificationContext(issueId, actorId),
+  ])
+
+  if (watchersError) {
+    console.error("Error fetching issue watchers:", watchersError)
+    return { error: watchersError }
+  }
+
+  const recipients = (watchers || [])
+    .map((watcher) => watcher.user_id as string)
+    .filter((userId) => userId !== context.actorId && !excludeUserIds.includes(userId))
+  if (recipients.length === 0) return { error: null }
+
+  const { actorName, issueKey } = context
+
+  const { error } = await supabase.from("notifications").insert(
+    recipients.map((userId) => ({
+      user_id: userId,
+      type,
+      issue_id: issueId,
+      title: type === "issue_commented" ? "새 댓글" : "이슈 변경",
+      message:
+        type === "issue_commented"
+          ? `${actorName}님이 ${issueKey}에 댓글을 남겼습니다`
+          : `${actorName}님이 ${issueKey}의 ${fieldNames.join(", ")}을(를) 변경했습니다`,
+    }))
+  )
 
   if (error) {
-    console.error("Error fetching comments:", error)
-    return { data: null, error }
+    console.error("Error notifying watchers:", error)
+    return { error }
   }
 
-  return { data, error: null }
+  return { error: null }
 }
 
 /**
- * Add a comment to an issue
+ * Send a `mention` notification to each user mentioned in a comment
  *
- * @param issueId - Issue ID
- * @param userId - User ID
- * @param content - Comment content
+ * The comment author is never notified about their own mention.
+ *
+ * @param issueId - Issue the comment belongs to
+ * @param userIds - Mentioned users
+ * @param actorId - Comment author; defaults to the signed-in user
  *
  * @example
  * ```tsx
  * 'use client'
  *
- * import { addComment } from '@/utils/supabase/queries'
+ * import { notifyMentions } from '@/utils/supabase/queries'
  *
- * const { data, error } = await addComment(issueId, userId, 'Comment text')
+ * await notifyMentions(issueId, getMentionedUserIds(content), userId)
  * ```
  */
-export async function addComment(
+export async function notifyMentions(issueId: string, userIds: string[], actorId?: string) {
+  if (userIds.length === 0) return { error: null }
+
+  const supabase = createBrowserClient()
+  const { actorId: authorId, actorName, issueKey } = await getNotificationContext(
+    issueId,
+    actorId
+  )
+
+  const recipients = Array.from(new Set(userIds)).filter((userId) => userId !== authorId)
+  if (recipients.length === 0) return { error: null }
+
+  const { error } = await supabase.from("notifications").insert(
+    recipients.map((userId) => ({
+      user_id: userId,
+      type: "mention" as const,
+      issue_id: issueId,
+      title: "멘션",
+      message: `${actorName}님이 ${issueKey} 댓글에서 회원님을 언급했습니다`,
+    }))
+  )
+
+  if (error) {
+    console.error("Error notifying mentioned users:", error)
+    return { error }
+  }
+
+  return { error: null }
+}
+
+/**
+ * Tell the author of a comment that someone replied to it
+ *
+ * Nothing is sent when authors reply to themselves.
+ *
+ * @param issueId - Issue the comments belong to
+ * @param parentCommentId - Comment that was replied to
+ * @param actorId - Reply author; defaults to the signed-in user
+ *
+ * @example
+ * ```tsx
+ * 'use client'
+ *
+ * import { notifyCommentReply } from '@/utils/supabase/queries'
+ *
+ * await notifyCommentReply(issueId, parentCommentId, userId)
+ * ```
+ */
+export async function notifyCommentReply(
   issueId: string,
-  userId: string,
-  content: string
+  parentCommentId: string,
+  actorId?: string
 ) {
   const supabase = createBrowserClient()
 
-  const { data, error } = await supabase
-    .from("comments")
-    .insert({ issue_id: issueId, user_id: userId, content })
-    .select(
-      `
-      *,
-      user:users (
-        id,
-        display_name,
-        avatar_url
-      )
-    `
-    )
+  const [{ data: parent, error: parentError }, context] = await Promise.all([
+    supabase.from("comments").select("user_id").eq("id", parentCommentId).single(),
+    getNotificationContext(issueId, actorId),
+  ])
+
+  if (parentError) {
+    console.error("Error fetching parent comment:", parentError)
+    return { error: parentError }
+  }
+
+  if (!parent || parent.user_id === context.actorId) return { error: null }
+
+  const { error } = await supabase.from("notifications").insert({
+    user_id: parent.user_id,
+    type: "comment_replied",
+    issue_id: issueId,
+    title: "새 답글",
+    message: `${context.actorName}님이 ${context.issueKey}에서 회원님의 댓글에 답글을 남겼습니다`,
+  })
 
   if (error) {
-    console.error("Error adding comment:", error)
-    return { data: null, error }
+    console.error("Error notifying comment author:", error)
+    return { error }
   }
 
-  return { data, error: null }
+  return { error: null }
 }
 
+// ============================================================================
+// ISSUE EVENTS QUERIES
+// ============================================================================
+
 /**
- * Update a comment
+ * Get a page of an issue's change events, newest first
  *
- * @param commentId - Comment ID
- * @param content - Updated content
+ * Events are written by the `issues_record_events` trigger (see
+ * `supabase/migrations`), one row per changed status, assignee or priority,
+ * so every update path (`moveIssue`, `assignIssue`, `updateIssueStatus`,
+ * direct updates) is recorded. Values are stored raw: status and user IDs,
+ * or the priority enum.
+ *
+ * @param issueId - Issue ID
+ * @param page - Zero-based page index
+ * @param limit - Events per page
  *
  * @example
  * ```tsx
  * 'use client'
  *
- * import { updateComment } from '@/utils/supabase/queries'
+ * import { getIssueEvents } from '@/utils/supabase/queries'
  *
- * const { data, error } = await updateComment(commentId, 'Updated text')
+ * const { data: events, count } = await getIssueEvents(issueId, 0, 20)
  * ```
  */
-export async function updateComment(commentId: string, content: string) {
+export async function getIssueEvents(issueId: string, page = 0, limit = 20) {
   const supabase = createBrowserClient()
+  const from = page * limit
 
-  const { data, error } = await supabase
-    .from("comments")
-    .update({ content, updated_at: new Date().toISOString() })
-    .eq("id", commentId)
-    .select()
+  const { data, error, count } = await supabase
+    .from("issue_events")
+    .select(
+      `
+      *,
+      actor:users (
+        id,
+        display_name,
+        avatar_url
+      )
+    `,
+      { count: "exact" }
+    )
+    .eq("issue_id", issueId)
+    .order("created_at", { ascending: false })
+    .range(from, from + limit - 1)
 
   if (error) {
-    console.error("Error updating comment:", error)
-    return { data: null, error }
+    console.error("Error fetching issue events:", error)
+    return { data: null, count: 0, error }
   }
 
-  return { data, error: null }
+  return { data: data as IssueEventWithActor[], count: count ?? 0, error: null }
 }
 
+// ============================================================================
+// SEARCH QUERIES
+// ============================================================================
+
 /**
- * Delete a comment
+ * Search issues, projects, teams and people across the user's teams
  *
- * @param commentId - Comment ID
+ * Matches names, titles and emails by substring. A term shaped like an
+ * issue key (e.g. `WEB-12`) looks up that issue instead of matching titles.
+ *
+ * @param userId - Current user ID
+ * @param term - Search text
+ * @param limit - Maximum results per kind
  *
  * @example
  * ```tsx
  * 'use client'
  *
- * import { deleteComment } from '@/utils/supabase/queries'
+ * import { searchWorkspace } from '@/utils/supabase/queries'
  *
- * const { error } = await deleteComment(commentId)
+ * const { data, error } = await searchWorkspace(userId, 'login')
+ * // data.issues, data.projects, data.teams, data.people
  * ```
  */
-export async function deleteComment(commentId: string) {
+export async function searchWorkspace(userId: string, term: string, limit = 5) {
   const supabase = createBrowserClient()
+  const empty: WorkspaceSearchResults = { issues: [], projects: [], teams: [], people: [] }
 
-  const { error } = await supabase.from("comments").delete().eq("id", commentId)
+  const { data: memberships, error: membershipError } = await supabase
+    .from("team_members")
+    .select("team_id")
+    .eq("user_id", userId)
+
+  if (membershipError) {
+    console.error("Error searching workspace:", membershipError)
+    return { data: null, error: membershipError }
+  }
 
+  const teamIds = memberships.map((membership) => membership.team_id)
+  const search = term.trim()
+  if (teamIds.length === 0 || !search) {
+    return { data: empty, error: null }
+  }
+
+  const pattern = toContainsPattern(search)
+  const issueKey = parseIssueKey(search)
+
+  let issuesQuery = supabase
+    .from("issues")
+    .select(
+      `
+      id,
+      number,
+      title,
+      type,
+      status:statuses (
+        name,
+        color
+      ),
+      project:projects!inner (
+        id,
+        key,
+        name,
+        team_id
+      )
+    `
+    )
+    .in("project.team_id", teamIds)
+
+  issuesQuery = issueKey
+    ? issuesQuery.eq("number", issueKey.number).eq("project.key", issueKey.projectKey)
+    : issuesQuery.ilike("title", `%${search}%`)
+
+  const [issues, projects, teams, people] = await Promise.all([
+    issuesQuery.order("updated_at", { ascending: false }).limit(limit),
+    supabase
+      .from("projects")
+      .select("id, key, name")
+      .in("team_id", teamIds)
+      .or(`name.ilike.${pattern},key.ilike.${pattern}`)
+      .order("name", { ascending: true })
+      .limit(limit),
+    supabase
+      .from("teams")
+      .select("id, name")
+      .in("id", teamIds)
+      .ilike("name", `%${search}%`)
+      .order("name", { ascending: true })
+      .limit(limit),
+    // One row per shared team, so fetch extra before removing duplicates
+    supabase
+      .from("team_members")
+      .select("team_id, user:users!inner ( id, display_name, email, avatar_url )")
+      .in("team_id", teamIds)
+      .or(`display_name.ilike.${pattern},email.ilike.${pattern}`, { referencedTable: "user" })
+      .limit(limit * teamIds.length),
+  ])
+
+  const error = issues.error || projects.error || teams.error || people.error
   if (error) {
-    console.error("Error deleting comment:", error)
-    return { error }
+    console.error("Error searching workspace:", error)
+    return { data: null, error }
   }
 
-  return { error: null }
+  const peopleById = new Map<string, WorkspaceSearchResults["people"][number]>()
+  for (const row of people.data as unknown as {
+    team_id: string
+    user: Omit<WorkspaceSearchResults["people"][number], "team_id">
+  }[]) {
+    if (!peopleById.has(row.user.id)) {
+      peopleById.set(row.user.id, { ...row.user, team_id: row.team_id })
+    }
+  }
+
+  return {
+    data: {
+      issues: issues.data as unknown as WorkspaceSearchResults["issues"],
+      projects: projects.data,
+      teams: teams.data,
+      people: Array.from(peopleById.values())
+        .sort((a, b) => a.display_name.localeCompare(b.display_name))
+        .slice(0, limit),
+    } as WorkspaceSearchResults,
+    error: null,
+  }
 }
 
 // ============================================================================
@@ -998,7 +3839,7 @@ export async function acceptTeamInvitation(token: string) {
  *
  * @param projectId - Project ID
  * @param query - Search query string
- * @param filters - Optional filters (status, priority, assignee)
+ * @param filters - Optional filters (status, priority, type, assignee, labels)
  * @param options - Query options (serverSide: true for Server Components)
  *
  * @example Server Component
@@ -1027,7 +3868,9 @@ export async function searchIssues(
   filters?: {
     status?: string[]
     priority?: string[]
+    type?: string[]
     assignee_id?: string
+    label_ids?: string[]
   },
   
 ) {
@@ -1081,6 +3924,9 @@ export async function updateIssueStatus(issueId: string, newStatus: string) {
 /**
  * Assign issue to user using RPC function (with notification)
  *
+ * The assignee also starts watching the issue, and the other watchers
+ * hear about the change.
+ *
  * @param issueId - Issue ID
  * @param assigneeId - User ID to assign to
  *
@@ -1106,6 +3952,10 @@ export async function assignIssue(issueId: string, assigneeId: string) {
     return { data: null, error }
   }
 
+  await addIssueWatchers(issueId, [assigneeId])
+  // The RPC already notified the assignee
+  await notifyWatchers(issueId, "issue_updated", ["assignee_id"], undefined, [assigneeId])
+
   return { data, error: null }
 }
 
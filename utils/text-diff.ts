@@ -0,0 +1,131 @@
+/**
+ * Text Diff Helpers
+ *
+ * Small LCS-based diff for comparing comment and description revisions.
+ * Texts are split into word or line tokens; common prefixes and suffixes
+ * are trimmed before the quadratic table is built.
+ */
+
+export type DiffPartType = "equal" | "added" | "removed"
+
+export interface DiffPart {
+  type: DiffPartType
+  value: string
+}
+
+export type DiffMode = "words" | "lines"
+
+// Above this many table cells, word diffs fall back to lines
+const MAX_WORD_CELLS = 2_000_000
+
+function tokenize(text: string, mode: DiffMode): string[] {
+  if (!text) return []
+  return mode === "lines" ? text.split(/(?<=\n)/) : text.split(/(\s+)/).filter(Boolean)
+}
+
+function pushPart(parts: DiffPart[], type: DiffPartType, value: string) {
+  const last = parts[parts.length - 1]
+  if (last && last.type === type) {
+    last.value += value
+  } else {
+    parts.push({ type, value })
+  }
+}
+
+function diffTokens(a: string[], b: string[]): DiffPart[] {
+  const parts: DiffPart[] = []
+
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) start++
+
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  if (start > 0) pushPart(parts, "equal", a.slice(0, start).join(""))
+
+  const midA = a.slice(start, endA)
+  const midB = b.slice(start, endB)
+  const rows = midA.length + 1
+  const cols = midB.length + 1
+
+  // lcs[i * cols + j] = LCS length of midA[i..] and midB[j..]
+  const lcs = new Uint32Array(rows * cols)
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i * cols + j] =
+        midA[i] === midB[j]
+          ? lcs[(i + 1) * cols + j + 1] + 1
+          : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1])
+    }
+  }
+
+  let i = 0
+  let j = 0
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) {
+      pushPart(parts, "equal", midA[i])
+      i++
+      j++
+    } else if (lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1]) {
+      pushPart(parts, "removed", midA[i])
+      i++
+    } else {
+      pushPart(parts, "added", midB[j])
+      j++
+    }
+  }
+  while (i < midA.length) pushPart(parts, "removed", midA[i++])
+  while (j < midB.length) pushPart(parts, "added", midB[j++])
+
+  if (endA < a.length) pushPart(parts, "equal", a.slice(endA).join(""))
+
+  return parts
+}
+
+/**
+ * Diffs two versions of a text
+ *
+ * @param before - Older version
+ * @param after - Newer version
+ * @param mode - Compare word by word (default) or line by line
+ * @returns Parts in order; joining `equal` + `removed` gives `before`,
+ *   `equal` + `added` gives `after`
+ *
+ * @example
+ * ```ts
+ * diffText("fix the login bug", "fix the signup bug")
+ * // [{ type: 'equal', value: 'fix the ' }, { type: 'removed', value: 'login' },
+ * //  { type: 'added', value: 'signup' }, { type: 'equal', value: ' bug' }]
+ * ```
+ */
+export function diffText(before: string, after: string, mode: DiffMode = "words"): DiffPart[] {
+  let a = tokenize(before, mode)
+  let b = tokenize(after, mode)
+
+  if (mode === "words" && a.length * b.length > MAX_WORD_CELLS) {
+    a = tokenize(before, "lines")
+    b = tokenize(after, "lines")
+  }
+
+  return diffTokens(a, b)
+}
+
+/**
+ * Counts added and removed tokens for a revision summary, e.g. `+3 −1`
+ */
+export function summarizeDiff(parts: DiffPart[]): { added: number; removed: number } {
+  let added = 0
+  let removed = 0
+
+  for (const part of parts) {
+    const words = part.value.split(/\s+/).filter(Boolean).length
+    if (part.type === "added") added += words
+    if (part.type === "removed") removed += words
+  }
+
+  return { added, removed }
+}
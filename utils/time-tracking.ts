@@ -0,0 +1,54 @@
+/**
+ * Time Tracking Helpers
+ *
+ * Effort is tracked in hours: `issues.original_estimate_hours` holds the
+ * estimate and each `worklogs` row the hours spent on one day. Remaining
+ * work is the estimate minus everything logged so far.
+ */
+
+export interface TimeTracking {
+  estimate: number | null
+  spent: number
+  remaining: number | null
+  // Hours logged beyond the original estimate
+  overrun: number
+}
+
+/**
+ * Sums logged hours and derives the remaining estimate
+ *
+ * @param estimate - Original estimate in hours, if any
+ * @param worklogs - Logged work for the issue
+ *
+ * @example
+ * ```ts
+ * const { spent, remaining } = getTimeTracking(8, [{ hours: 3 }])
+ * // spent: 3, remaining: 5
+ * ```
+ */
+export function getTimeTracking(
+  estimate: number | null | undefined,
+  worklogs: { hours: number }[] = []
+): TimeTracking {
+  const spent = worklogs.reduce((total, worklog) => total + worklog.hours, 0)
+
+  if (estimate == null) {
+    return { estimate: null, spent, remaining: null, overrun: 0 }
+  }
+
+  return {
+    estimate,
+    spent,
+    remaining: Math.max(estimate - spent, 0),
+    overrun: Math.max(spent - estimate, 0),
+  }
+}
+
+/**
+ * Formats hours compactly, e.g. `1.5h`
+ *
+ * @param hours - Hours to format
+ */
+export function formatHours(hours: number): string {
+  return `${Math.round(hours * 100) / 100}h`
+}